@@ -0,0 +1,20 @@
+import Navigation from "@/components/Navigation";
+import WebhookInbox from "@/components/WebhookInbox";
+
+export default function WebhooksPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-24 pb-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Webhooks</h1>
+          <p className="mt-2 text-gray-600">
+            Inspect webhook deliveries from Shopify and replay failed ones
+          </p>
+        </div>
+
+        <WebhookInbox />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listAuditEvents } from "@/lib/audit-log";
+import { withShop } from "@/lib/shops";
+
+export const GET = withShop("admin", async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "50");
+
+    const data = await listAuditEvents(page, limit);
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch audit log" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,36 @@
+import { after, NextResponse } from "next/server";
+import { enqueueDailyMetricsRebuild } from "@/lib/daily-metrics";
+import { processJobs } from "@/lib/job-worker";
+import { withShop } from "@/lib/shops";
+
+export const POST = withShop("admin", async () => {
+  try {
+    const { job, created } = await enqueueDailyMetricsRebuild();
+
+    if (!created) {
+      return NextResponse.json(
+        {
+          error: "A rebuild is already in progress.",
+          status: "pending",
+          jobId: job._id,
+        },
+        { status: 409 }
+      );
+    }
+
+    after(async () => {
+      await processJobs();
+    });
+
+    return NextResponse.json(
+      { status: "pending", jobId: job._id },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error rebuilding daily metrics:", error);
+    return NextResponse.json(
+      { error: "Failed to rebuild daily metrics" },
+      { status: 500 }
+    );
+  }
+});
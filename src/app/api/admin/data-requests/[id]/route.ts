@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDataRequestBundle } from "@/lib/privacy";
+import { withShop } from "@/lib/shops";
+
+/**
+ * Download the export bundle for a customers/data_request
+ */
+async function getDataRequest(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const bundle = await getDataRequestBundle(id);
+
+    if (!bundle) {
+      return NextResponse.json(
+        { error: "Data request not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(bundle, {
+      headers: {
+        "Content-Disposition": `attachment; filename="data-request-${id}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching data request:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch data request" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withShop("admin", getDataRequest);
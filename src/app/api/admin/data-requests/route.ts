@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listDataRequests } from "@/lib/privacy";
+import { withShop } from "@/lib/shops";
+
+export const GET = withShop("admin", async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+
+    const data = await listDataRequests(page, limit);
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Error fetching data requests:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch data requests" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { getShopifyApiMetrics } from "@/lib/shopify-client";
+import { withShop } from "@/lib/shops";
+
+export const GET = withShop("admin", async () => {
+  return NextResponse.json({ metrics: getShopifyApiMetrics() });
+});
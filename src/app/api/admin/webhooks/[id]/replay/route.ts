@@ -0,0 +1,34 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { withShop } from "@/lib/shops";
+import { processWebhookInbox, replayWebhookInboxEntries } from "@/lib/webhooks";
+
+async function replayWebhookDelivery(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const replayed = await replayWebhookInboxEntries({ ids: [id] });
+
+    if (replayed === 0) {
+      return NextResponse.json(
+        { error: "Webhook delivery not found or already processing" },
+        { status: 404 }
+      );
+    }
+
+    after(async () => {
+      await processWebhookInbox();
+    });
+
+    return NextResponse.json({ success: true, replayed });
+  } catch (error) {
+    console.error("Error replaying webhook delivery:", error);
+    return NextResponse.json(
+      { error: "Failed to replay webhook delivery" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withShop("admin", replayWebhookDelivery);
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withShop } from "@/lib/shops";
+import { getWebhookInboxEntry } from "@/lib/webhooks";
+
+async function getWebhookDelivery(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const entry = await getWebhookInboxEntry(id);
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Webhook delivery not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error("Error fetching webhook delivery:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhook delivery" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withShop("admin", getWebhookDelivery);
@@ -0,0 +1,31 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { withShop } from "@/lib/shops";
+import { processWebhookInbox, replayWebhookInboxEntries } from "@/lib/webhooks";
+
+export const POST = withShop("admin", async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const { ids, status } = body as { ids?: string[]; status?: "failed" };
+
+    let replayed: number;
+    if (Array.isArray(ids) && ids.length > 0) {
+      replayed = await replayWebhookInboxEntries({ ids });
+    } else if (status === "failed") {
+      replayed = await replayWebhookInboxEntries({ status });
+    } else {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+
+    after(async () => {
+      await processWebhookInbox();
+    });
+
+    return NextResponse.json({ success: true, replayed });
+  } catch (error) {
+    console.error("Error replaying webhook deliveries:", error);
+    return NextResponse.json(
+      { error: "Failed to replay webhook deliveries" },
+      { status: 500 }
+    );
+  }
+});
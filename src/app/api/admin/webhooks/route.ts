@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withShop } from "@/lib/shops";
+import { listWebhookInbox } from "@/lib/webhooks";
+import { WebhookInboxStatus } from "@/types/webhook";
+
+const STATUSES: WebhookInboxStatus[] = [
+  "pending",
+  "processing",
+  "processed",
+  "failed",
+];
+
+function parsePositiveInt(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseInt(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+export const GET = withShop("admin", async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get("status") as WebhookInboxStatus | null;
+    const page = parsePositiveInt(searchParams.get("page"));
+    const limit = parsePositiveInt(searchParams.get("limit"));
+
+    const data = await listWebhookInbox(
+      status && STATUSES.includes(status) ? status : undefined,
+      page,
+      limit
+    );
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Error fetching webhook inbox:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhook inbox" },
+      { status: 500 }
+    );
+  }
+});
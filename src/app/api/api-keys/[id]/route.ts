@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revokeApiKey } from "@/lib/api-keys";
+import { getShopId } from "@/lib/shop-context";
+import { withShop } from "@/lib/shops";
+
+async function revokeApiKeyById(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const apiKey = await revokeApiKey(getShopId(), id);
+
+    if (!apiKey) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ apiKey });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke API key" },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withShop("admin", revokeApiKeyById);
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  API_KEY_SCOPES,
+  createApiKey,
+  listApiKeys,
+  MAX_API_KEY_RATE_LIMIT,
+} from "@/lib/api-keys";
+import { withRole } from "@/lib/auth";
+import { getShopId } from "@/lib/shop-context";
+import { resolveRequestShop, withShop } from "@/lib/shops";
+import { ApiKeyScope } from "@/types/api-key";
+import { UserSummary } from "@/types/user";
+
+export const GET = withShop("admin", async () => {
+  try {
+    const apiKeys = await listApiKeys(getShopId());
+    return NextResponse.json({ apiKeys });
+  } catch (error) {
+    console.error("Error fetching API keys:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch API keys" },
+      { status: 500 }
+    );
+  }
+});
+
+async function createApiKeyForUser(
+  request: NextRequest,
+  context: unknown,
+  currentUser: UserSummary
+) {
+  try {
+    const body = await request.json();
+    const { name, scopes, rateLimit } = body as Record<string, unknown>;
+
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every((scope) => API_KEY_SCOPES.includes(scope))
+    ) {
+      return NextResponse.json(
+        {
+          error: `scopes must be a non-empty list of ${API_KEY_SCOPES.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+    if (
+      rateLimit !== undefined &&
+      (!Number.isInteger(rateLimit) ||
+        (rateLimit as number) < 1 ||
+        (rateLimit as number) > MAX_API_KEY_RATE_LIMIT)
+    ) {
+      return NextResponse.json(
+        {
+          error: `rateLimit must be a whole number between 1 and ${MAX_API_KEY_RATE_LIMIT}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Keys work on the store selected when they are created
+    const shop = await resolveRequestShop(request);
+    if (!shop) {
+      return NextResponse.json({ error: "Shop not found" }, { status: 404 });
+    }
+
+    const { apiKey, key } = await createApiKey({
+      name: name.trim(),
+      scopes: Array.from(new Set(scopes as ApiKeyScope[])),
+      rateLimit: rateLimit as number | undefined,
+      shopId: shop._id,
+      createdBy: currentUser.email,
+    });
+    return NextResponse.json({ apiKey, key }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    return NextResponse.json(
+      { error: "Failed to create API key" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRole("admin", createApiKeyForUser);
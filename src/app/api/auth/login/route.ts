@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { setSessionCookie } from "@/lib/auth";
+import { consumeRateLimit } from "@/lib/rate-limit";
+import { createSession } from "@/lib/sessions";
+import { authenticateUser, normalizeEmail } from "@/lib/users";
+
+const LOGIN_WINDOW_MS = 15 * 60_000;
+// Attempts per window from one address, and against one account
+const MAX_ATTEMPTS_PER_IP = 30;
+const MAX_ATTEMPTS_PER_EMAIL = 10;
+
+function getClientIp(request: NextRequest): string {
+  return (
+    request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { email, password } = body as { email?: unknown; password?: unknown };
+
+    if (typeof email !== "string" || typeof password !== "string") {
+      return NextResponse.json(
+        { error: "Email and password are required" },
+        { status: 400 }
+      );
+    }
+
+    const limits = await Promise.all([
+      consumeRateLimit(
+        `login-ip:${getClientIp(request)}`,
+        MAX_ATTEMPTS_PER_IP,
+        LOGIN_WINDOW_MS
+      ),
+      consumeRateLimit(
+        `login-email:${normalizeEmail(email)}`,
+        MAX_ATTEMPTS_PER_EMAIL,
+        LOGIN_WINDOW_MS
+      ),
+    ]);
+    const exceeded = limits.find((limit) => !limit.allowed);
+    if (exceeded) {
+      const retryAfter = Math.ceil(
+        (exceeded.resetAt.getTime() - Date.now()) / 1000
+      );
+      return NextResponse.json(
+        { error: "Too many sign-in attempts, try again later" },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    const user = await authenticateUser(email, password);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ user });
+    setSessionCookie(response, await createSession(user._id!));
+    return response;
+  } catch (error) {
+    console.error("Error signing in:", error);
+    return NextResponse.json({ error: "Failed to sign in" }, { status: 500 });
+  }
+}
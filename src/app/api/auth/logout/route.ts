@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/access";
+import { deleteSession } from "@/lib/sessions";
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await deleteSession(token);
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  } catch (error) {
+    console.error("Error signing out:", error);
+    return NextResponse.json({ error: "Failed to sign out" }, { status: 500 });
+  }
+}
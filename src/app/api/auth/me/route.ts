@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRole } from "@/lib/auth";
+import { UserSummary } from "@/types/user";
+
+export const GET = withRole(
+  "viewer",
+  async (request: NextRequest, context: unknown, user: UserSummary) => {
+    return NextResponse.json({ user });
+  }
+);
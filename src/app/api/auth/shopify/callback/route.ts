@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRole } from "@/lib/auth";
+import { runWithShop } from "@/lib/shop-context";
+import {
+  consumeOAuthState,
+  exchangeAccessToken,
+  getOAuthConfig,
+  isValidShopDomain,
+  OAUTH_STATE_COOKIE,
+  subscribeToWebhooks,
+  verifyOAuthHmac,
+} from "@/lib/shopify-oauth";
+import { saveShop, SHOP_COOKIE } from "@/lib/shops";
+
+export const GET = withRole("admin", async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const shop = searchParams.get("shop") || "";
+    const code = searchParams.get("code");
+    const state = searchParams.get("state");
+
+    if (!verifyOAuthHmac(searchParams)) {
+      return NextResponse.json(
+        { error: "Invalid OAuth signature" },
+        { status: 401 }
+      );
+    }
+    if (!isValidShopDomain(shop) || !code || !state) {
+      return NextResponse.json(
+        { error: "Invalid OAuth callback" },
+        { status: 400 }
+      );
+    }
+    // The nonce must come back to the browser that started the install
+    if (
+      request.cookies.get(OAUTH_STATE_COOKIE)?.value !== state ||
+      !(await consumeOAuthState(state, shop))
+    ) {
+      return NextResponse.json(
+        { error: "Invalid or expired OAuth state" },
+        { status: 403 }
+      );
+    }
+
+    const { accessToken, scopes } = await exchangeAccessToken(shop, code);
+    const saved = await saveShop({ shop, accessToken, scopes });
+
+    // The install still succeeds if a subscription fails; it is logged and
+    // can be retried by installing again
+    const subscriptions = await runWithShop(saved, subscribeToWebhooks);
+    subscriptions
+      .filter((subscription) => !subscription.subscribed)
+      .forEach((subscription) => {
+        console.error(
+          `Error subscribing ${shop} to ${subscription.topic}: ${subscription.error}`
+        );
+      });
+
+    const response = NextResponse.redirect(`${getOAuthConfig().appUrl}/`);
+    response.cookies.delete({
+      name: OAUTH_STATE_COOKIE,
+      path: "/api/auth/shopify",
+    });
+    response.cookies.set(SHOP_COOKIE, saved._id, {
+      sameSite: "lax",
+      maxAge: 365 * 24 * 60 * 60,
+      path: "/",
+    });
+    return response;
+  } catch (error) {
+    console.error("Error completing Shopify install:", error);
+    return NextResponse.json(
+      { error: "Failed to complete Shopify install" },
+      { status: 500 }
+    );
+  }
+});
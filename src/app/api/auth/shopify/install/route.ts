@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRole } from "@/lib/auth";
+import {
+  beginOAuthInstall,
+  isValidShopDomain,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_TTL_SECONDS,
+} from "@/lib/shopify-oauth";
+import { normalizeShopDomain } from "@/lib/shops";
+
+export const GET = withRole("admin", async (request: NextRequest) => {
+  try {
+    const shopParam = request.nextUrl.searchParams.get("shop");
+    const shop = shopParam ? normalizeShopDomain(shopParam) : "";
+    if (!isValidShopDomain(shop)) {
+      return NextResponse.json(
+        { error: "A valid shop domain is required" },
+        { status: 400 }
+      );
+    }
+
+    const { nonce, authorizeUrl } = await beginOAuthInstall(shop);
+
+    const response = NextResponse.redirect(authorizeUrl);
+    response.cookies.set(OAUTH_STATE_COOKIE, nonce, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: OAUTH_STATE_TTL_SECONDS,
+      path: "/api/auth/shopify",
+    });
+    return response;
+  } catch (error) {
+    console.error("Error starting Shopify install:", error);
+    return NextResponse.json(
+      { error: "Failed to start Shopify install" },
+      { status: 500 }
+    );
+  }
+});
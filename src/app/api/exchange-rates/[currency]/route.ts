@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRole } from "@/lib/auth";
+import {
+  deleteExchangeRate,
+  EXCHANGE_RATE_BASE,
+  isCurrencyCode,
+  setExchangeRate,
+} from "@/lib/exchange-rates";
+import { isMoneyAmount } from "@/lib/money";
+import { UserSummary } from "@/types/user";
+
+type RouteContext = { params: Promise<{ currency: string }> };
+
+async function setExchangeRateByCurrency(
+  request: NextRequest,
+  { params }: RouteContext,
+  currentUser: UserSummary
+) {
+  try {
+    const currency = (await params).currency.toUpperCase();
+    const body = await request.json();
+    const rate = typeof body.rate === "number" ? String(body.rate) : body.rate;
+
+    if (!isCurrencyCode(currency)) {
+      return NextResponse.json(
+        { error: "currency must be a three-letter ISO 4217 code" },
+        { status: 400 }
+      );
+    }
+    // Every other rate is relative to the base currency
+    if (currency === EXCHANGE_RATE_BASE) {
+      return NextResponse.json(
+        { error: `The ${EXCHANGE_RATE_BASE} rate is always 1` },
+        { status: 400 }
+      );
+    }
+    if (
+      typeof rate !== "string" ||
+      !isMoneyAmount(rate) ||
+      !(Number(rate) > 0)
+    ) {
+      return NextResponse.json(
+        { error: "rate must be a positive decimal number" },
+        { status: 400 }
+      );
+    }
+
+    const exchangeRate = await setExchangeRate(
+      currency,
+      rate,
+      currentUser.email
+    );
+    return NextResponse.json({ exchangeRate });
+  } catch (error) {
+    console.error("Error updating exchange rate:", error);
+    return NextResponse.json(
+      { error: "Failed to update exchange rate" },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteExchangeRateByCurrency(
+  request: NextRequest,
+  { params }: RouteContext
+) {
+  try {
+    const currency = (await params).currency.toUpperCase();
+
+    if (currency === EXCHANGE_RATE_BASE) {
+      return NextResponse.json(
+        { error: `The ${EXCHANGE_RATE_BASE} rate can't be removed` },
+        { status: 400 }
+      );
+    }
+
+    if (!(await deleteExchangeRate(currency))) {
+      return NextResponse.json(
+        { error: "Exchange rate not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting exchange rate:", error);
+    return NextResponse.json(
+      { error: "Failed to delete exchange rate" },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withRole("admin", setExchangeRateByCurrency);
+export const DELETE = withRole("admin", deleteExchangeRateByCurrency);
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { withRole } from "@/lib/auth";
+import { EXCHANGE_RATE_BASE, listExchangeRates } from "@/lib/exchange-rates";
+
+export const GET = withRole("viewer", async () => {
+  try {
+    const exchangeRates = await listExchangeRates();
+    return NextResponse.json({ base: EXCHANGE_RATE_BASE, exchangeRates });
+  } catch (error) {
+    console.error("Error fetching exchange rates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch exchange rates" },
+      { status: 500 }
+    );
+  }
+});
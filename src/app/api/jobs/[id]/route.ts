@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/lib/jobs";
+import { getShopId } from "@/lib/shop-context";
+import { withShop } from "@/lib/shops";
+
+async function getJobById(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getJob(getShopId(), id);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("Error fetching job:", error);
+    return NextResponse.json({ error: "Failed to fetch job" }, { status: 500 });
+  }
+}
+
+// Lets sync:write keys follow the syncs they start
+export const GET = withShop(
+  { role: "viewer", scope: "sync:write" },
+  getJobById
+);
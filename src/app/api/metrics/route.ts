@@ -1,18 +1,118 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getMetricsFromDb } from "@/lib/orders";
+import { isCurrencyCode } from "@/lib/exchange-rates";
+import {
+  countDays,
+  DEFAULT_METRICS_GRANULARITY,
+  MAX_METRICS_DAYS,
+  MetricsRange,
+  parseMetricsParams,
+  resolveMetricsRange,
+} from "@/lib/metrics-query";
+import { getMetricsReport } from "@/lib/orders";
+import { getCurrentShop } from "@/lib/shop-context";
+import { getShopCurrency, getShopTimezone, withShop } from "@/lib/shops";
+import { addDays, getZonedDay, isValidTimeZone } from "@/lib/timezone";
 
-export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const days = parseInt(searchParams.get("days") || "30");
-
-    const data = await getMetricsFromDb(days);
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error("Error fetching metrics:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch metrics" },
-      { status: 500 }
-    );
+/**
+ * The timezone and currency to report in, plus the store's timezone (the one
+ * the rollup is bucketed in) if known. Shopify is only asked for the store's
+ * settings when the caller didn't pick both.
+ */
+async function resolveReportSettings(
+  tz: string | null,
+  currency: string | undefined
+) {
+  if (tz && currency) {
+    return { timeZone: tz, currency, shopTimeZone: getCurrentShop().timezone };
   }
+  const shopTimeZone = await getShopTimezone();
+  return {
+    timeZone: tz || shopTimeZone,
+    currency: currency || (await getShopCurrency()),
+    shopTimeZone,
+  };
 }
+
+export const GET = withShop(
+  { role: "viewer", scope: "metrics:read" },
+  async (request: NextRequest) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+      const params = parseMetricsParams(searchParams);
+      const tz = searchParams.get("tz");
+
+      if (tz && !isValidTimeZone(tz)) {
+        return NextResponse.json(
+          { error: "Invalid timezone" },
+          { status: 400 }
+        );
+      }
+      if (params.currency && !isCurrencyCode(params.currency)) {
+        return NextResponse.json(
+          { error: "Invalid currency" },
+          { status: 400 }
+        );
+      }
+
+      // Amounts are reported in the store's currency and days follow the
+      // store's timezone unless the caller picks others. The rollup is
+      // bucketed in the store's timezone, so any other timezone is computed
+      // from the orders.
+      let settings;
+      try {
+        settings = await resolveReportSettings(tz, params.currency);
+      } catch (error) {
+        console.error("Error loading store settings:", error);
+        return NextResponse.json(
+          {
+            error:
+              "The store's timezone and currency couldn't be loaded from Shopify. Try again later, or pass tz and currency.",
+          },
+          { status: 503 }
+        );
+      }
+      const { timeZone, currency, shopTimeZone } = settings;
+      const today = getZonedDay(new Date(), timeZone);
+
+      let range: MetricsRange | null = resolveMetricsRange(params, today);
+      // Older clients ask for today and the `days` days before it
+      const daysParam = searchParams.get("days");
+      if (!params.range && daysParam) {
+        const days = Number(daysParam);
+        range =
+          Number.isInteger(days) && days >= 0 && days < MAX_METRICS_DAYS
+            ? { from: addDays(today, -days), to: today }
+            : null;
+      }
+      if (!range) {
+        return NextResponse.json(
+          { error: "Invalid date range" },
+          { status: 400 }
+        );
+      }
+      if (countDays(range) > MAX_METRICS_DAYS) {
+        return NextResponse.json(
+          { error: `Date range can be at most ${MAX_METRICS_DAYS} days` },
+          { status: 400 }
+        );
+      }
+
+      const data = await getMetricsReport(
+        {
+          ...range,
+          timeZone,
+          currency,
+          granularity: params.granularity || DEFAULT_METRICS_GRANULARITY,
+        },
+        { useRollup: timeZone === shopTimeZone, compare: params.compare }
+      );
+      return NextResponse.json(data);
+    } catch (error) {
+      console.error("Error fetching metrics:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch metrics" },
+        { status: 500 }
+      );
+    }
+  }
+);
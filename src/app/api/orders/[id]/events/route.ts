@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listOrderEvents } from "@/lib/order-events";
+import { withShop } from "@/lib/shops";
+
+async function getOrderEvents(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const limit = parseInt(request.nextUrl.searchParams.get("limit") || "100");
+    const events = await listOrderEvents(id, limit);
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error("Error fetching order events:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch order history" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withShop(
+  { role: "viewer", scope: "orders:read" },
+  getOrderEvents
+);
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
 import { serializeOrder } from "@/lib/orders";
-import { fetchOrderById } from "@/lib/shopify";
+import { getShopId } from "@/lib/shop-context";
+import { withShop } from "@/lib/shops";
+import { resyncOrder } from "@/lib/sync";
 import { Order } from "@/types/order";
 
-export async function GET(
+async function getOrder(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -13,7 +15,7 @@ export async function GET(
     const db = await getDb();
     const ordersCollection = db.collection<Order>("orders");
 
-    const order = await ordersCollection.findOne({ id });
+    const order = await ordersCollection.findOne({ shopId: getShopId(), id });
 
     if (!order) {
       return NextResponse.json({ error: "Order not found" }, { status: 404 });
@@ -29,74 +31,32 @@ export async function GET(
   }
 }
 
-export async function POST(
+async function resyncOrderById(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    const db = await getDb();
-    const ordersCollection = db.collection<Order>("orders");
-
-    // First, mark as pending
-    await ordersCollection.updateOne(
-      { id },
-      {
-        $set: {
-          syncStatus: "pending" as const,
-          syncError: undefined,
-        },
-      }
-    );
-
-    try {
-      // Fetch order from Shopify
-      const order = await fetchOrderById(id);
-      const now = new Date().toISOString();
+    // Records a resync run and marks the order failed if Shopify errors
+    const order = await resyncOrder(id);
 
-      // Save to database with success status
-      await ordersCollection.updateOne(
-        { id },
-        {
-          $set: {
-            ...order,
-            updated_at: now,
-            syncStatus: "success" as const,
-            syncedAt: now,
-            syncError: undefined,
-          },
-        },
-        { upsert: true }
-      );
-
-      return NextResponse.json({
-        success: true,
-        order: serializeOrder(order),
-      });
-    } catch (error) {
-      // Mark as failed with error message
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      await ordersCollection.updateOne(
-        { id },
-        {
-          $set: {
-            syncStatus: "failed" as const,
-            syncError: errorMessage,
-          },
-        }
-      );
-
-      return NextResponse.json(
-        { success: false, error: errorMessage },
-        { status: 500 }
-      );
-    }
+    return NextResponse.json({
+      success: true,
+      order: serializeOrder(order),
+    });
   } catch (error) {
     console.error("Error syncing order:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
     return NextResponse.json(
-      { error: "Failed to sync order" },
+      { success: false, error: errorMessage },
       { status: 500 }
     );
   }
 }
+
+export const GET = withShop({ role: "viewer", scope: "orders:read" }, getOrder);
+export const POST = withShop(
+  { role: "operator", scope: "sync:write" },
+  resyncOrderById
+);
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSyncSchedule,
+  MAX_SYNC_INTERVAL_MINUTES,
+  MIN_SYNC_INTERVAL_MINUTES,
+  updateSyncSchedule,
+} from "@/lib/scheduler";
+import { withShop } from "@/lib/shops";
+
+export const GET = withShop("viewer", async () => {
+  try {
+    const schedule = await getSyncSchedule();
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error("Error fetching sync schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sync schedule" },
+      { status: 500 }
+    );
+  }
+});
+
+export const PUT = withShop("admin", async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const { intervalMinutes, paused } = body as {
+      intervalMinutes?: unknown;
+      paused?: unknown;
+    };
+
+    if (
+      intervalMinutes !== undefined &&
+      (typeof intervalMinutes !== "number" ||
+        !Number.isInteger(intervalMinutes) ||
+        intervalMinutes < MIN_SYNC_INTERVAL_MINUTES ||
+        intervalMinutes > MAX_SYNC_INTERVAL_MINUTES)
+    ) {
+      return NextResponse.json(
+        {
+          error: `intervalMinutes must be a whole number between ${MIN_SYNC_INTERVAL_MINUTES} and ${MAX_SYNC_INTERVAL_MINUTES}`,
+        },
+        { status: 400 }
+      );
+    }
+    if (paused !== undefined && typeof paused !== "boolean") {
+      return NextResponse.json(
+        { error: "paused must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await updateSyncSchedule({ intervalMinutes, paused });
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error("Error updating sync schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to update sync schedule" },
+      { status: 500 }
+    );
+  }
+});
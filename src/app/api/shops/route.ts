@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRole } from "@/lib/auth";
+import {
+  listShops,
+  resolveRequestShop,
+  saveShop,
+  toShopSummary,
+} from "@/lib/shops";
+
+export const GET = withRole("viewer", async (request: NextRequest) => {
+  try {
+    const shops = await listShops();
+    const current = await resolveRequestShop(request);
+
+    return NextResponse.json({
+      shops: shops.map(toShopSummary),
+      currentShopId: current?._id || null,
+    });
+  } catch (error) {
+    console.error("Error fetching shops:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch shops" },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withRole("admin", async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const { shop, name, accessToken, webhookSecret } = body as Record<
+      string,
+      unknown
+    >;
+
+    if (typeof shop !== "string" || !shop.trim()) {
+      return NextResponse.json({ error: "shop is required" }, { status: 400 });
+    }
+    if (typeof accessToken !== "string" || !accessToken) {
+      return NextResponse.json(
+        { error: "accessToken is required" },
+        { status: 400 }
+      );
+    }
+
+    const saved = await saveShop({
+      shop,
+      name: typeof name === "string" ? name : undefined,
+      accessToken,
+      webhookSecret:
+        typeof webhookSecret === "string" ? webhookSecret : undefined,
+    });
+    return NextResponse.json({ shop: toShopSummary(saved) });
+  } catch (error) {
+    console.error("Error saving shop:", error);
+    return NextResponse.json({ error: "Failed to save shop" }, { status: 500 });
+  }
+});
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withShop } from "@/lib/shops";
+import { getSyncRun } from "@/lib/sync-runs";
+
+async function getSyncRunById(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const run = await getSyncRun(id);
+
+    if (!run) {
+      return NextResponse.json(
+        { error: "Sync run not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error("Error fetching sync run:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sync run" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withShop("viewer", getSyncRunById);
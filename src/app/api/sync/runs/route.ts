@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withShop } from "@/lib/shops";
+import { listSyncRuns } from "@/lib/sync-runs";
+import { SyncRunMethod, SyncRunTrigger } from "@/types/sync-run";
+
+const METHODS: SyncRunMethod[] = ["incremental", "bulk", "webhook", "resync"];
+const TRIGGERS: SyncRunTrigger[] = ["manual", "schedule", "webhook"];
+
+export const GET = withShop("viewer", async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const method = searchParams.get("method") as SyncRunMethod | null;
+    const trigger = searchParams.get("trigger") as SyncRunTrigger | null;
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+
+    const data = await listSyncRuns(
+      {
+        method: method && METHODS.includes(method) ? method : undefined,
+        trigger: trigger && TRIGGERS.includes(trigger) ? trigger : undefined,
+      },
+      page,
+      limit
+    );
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Error fetching sync runs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sync runs" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRole } from "@/lib/auth";
+import { deleteUserSessions } from "@/lib/sessions";
+import {
+  deleteUser,
+  MIN_PASSWORD_LENGTH,
+  updateUser,
+  USER_ROLES,
+} from "@/lib/users";
+import { UserRole, UserSummary } from "@/types/user";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function updateUserById(
+  request: NextRequest,
+  { params }: RouteContext,
+  currentUser: UserSummary
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { name, role, password } = body as Record<string, unknown>;
+
+    if (role !== undefined && !USER_ROLES.includes(role as UserRole)) {
+      return NextResponse.json(
+        { error: `role must be one of ${USER_ROLES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    // Keeps at least one admin able to manage users
+    if (id === currentUser._id && role !== undefined && role !== "admin") {
+      return NextResponse.json(
+        { error: "You can't remove your own admin role" },
+        { status: 400 }
+      );
+    }
+    if (
+      password !== undefined &&
+      (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await updateUser(id, {
+      name: typeof name === "string" ? name : undefined,
+      role: role as UserRole | undefined,
+      password: password as string | undefined,
+    });
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    if (password !== undefined) {
+      await deleteUserSessions(id);
+    }
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error("Error updating user:", error);
+    return NextResponse.json(
+      { error: "Failed to update user" },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteUserById(
+  request: NextRequest,
+  { params }: RouteContext,
+  currentUser: UserSummary
+) {
+  try {
+    const { id } = await params;
+    if (id === currentUser._id) {
+      return NextResponse.json(
+        { error: "You can't delete your own account" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteUser(id);
+    if (!deleted) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    await deleteUserSessions(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting user:", error);
+    return NextResponse.json(
+      { error: "Failed to delete user" },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = withRole("admin", updateUserById);
+export const DELETE = withRole("admin", deleteUserById);
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRole } from "@/lib/auth";
+import {
+  createUser,
+  listUsers,
+  MIN_PASSWORD_LENGTH,
+  USER_ROLES,
+} from "@/lib/users";
+import { UserRole } from "@/types/user";
+
+export const GET = withRole("admin", async () => {
+  try {
+    const users = await listUsers();
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error("Error fetching users:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch users" },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withRole("admin", async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const { email, name, role, password } = body as Record<string, unknown>;
+
+    if (typeof email !== "string" || !email.includes("@")) {
+      return NextResponse.json(
+        { error: "A valid email is required" },
+        { status: 400 }
+      );
+    }
+    if (!USER_ROLES.includes(role as UserRole)) {
+      return NextResponse.json(
+        { error: `role must be one of ${USER_ROLES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await createUser({
+      email,
+      name: typeof name === "string" ? name : undefined,
+      role: role as UserRole,
+      password,
+    });
+    if (!user) {
+      return NextResponse.json(
+        { error: "A user with this email already exists" },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating user:", error);
+    return NextResponse.json(
+      { error: "Failed to create user" },
+      { status: 500 }
+    );
+  }
+});
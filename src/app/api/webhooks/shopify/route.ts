@@ -0,0 +1,6 @@
+import { NextRequest } from "next/server";
+import { receiveShopifyWebhook } from "@/lib/webhook-receiver";
+
+export async function POST(request: NextRequest) {
+  return receiveShopifyWebhook(request);
+}
@@ -0,0 +1,17 @@
+import { Suspense } from "react";
+import LoginForm from "@/components/LoginForm";
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="w-full max-w-sm">
+        <h1 className="mb-6 text-center text-3xl font-bold text-gray-900">
+          Protect+
+        </h1>
+        <Suspense>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { Suspense } from "react";
 import Navigation from "@/components/Navigation";
 import OrderList from "@/components/OrderList";
 
@@ -13,7 +14,10 @@ export default function OrdersPage() {
           </p>
         </div>
 
-        <OrderList />
+        {/* OrderList reads its filters from the URL search params */}
+        <Suspense>
+          <OrderList />
+        </Suspense>
       </div>
     </div>
   );
@@ -1,3 +1,4 @@
+import { Suspense } from "react";
 import Navigation from "@/components/Navigation";
 import MetricsChart from "@/components/MetricsChart";
 
@@ -13,7 +14,10 @@ export default function Dashboard() {
           </p>
         </div>
 
-        <MetricsChart />
+        {/* MetricsChart reads its date range from the URL search params */}
+        <Suspense>
+          <MetricsChart />
+        </Suspense>
       </div>
     </div>
   );
@@ -0,0 +1,27 @@
+import ApiKeySettings from "@/components/ApiKeySettings";
+import ExchangeRateSettings from "@/components/ExchangeRateSettings";
+import Navigation from "@/components/Navigation";
+import SyncScheduleSettings from "@/components/SyncScheduleSettings";
+
+export default function SettingsPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-24 pb-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+          <p className="mt-2 text-gray-600">
+            Configure how orders are kept in sync with Shopify and who can
+            access them
+          </p>
+        </div>
+
+        <div className="space-y-8">
+          <SyncScheduleSettings />
+          <ApiKeySettings />
+          <ExchangeRateSettings />
+        </div>
+      </div>
+    </div>
+  );
+}
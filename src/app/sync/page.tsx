@@ -0,0 +1,20 @@
+import Navigation from "@/components/Navigation";
+import SyncHistory from "@/components/SyncHistory";
+
+export default function SyncHistoryPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-24 pb-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Sync History</h1>
+          <p className="mt-2 text-gray-600">
+            Every order sync with what it changed and what failed
+          </p>
+        </div>
+
+        <SyncHistory />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import { useState } from "react";
+import { useCurrentUser } from "@/hooks/useAuth";
+import {
+  useApiKeys,
+  useCreateApiKey,
+  useRevokeApiKey,
+} from "@/hooks/useApiKeys";
+import { SpinnerIcon } from "@/components/icons";
+import { hasRole } from "@/lib/access";
+import { ApiKeyScope, ApiKeySummary } from "@/types/api-key";
+
+const SCOPE_OPTIONS: { value: ApiKeyScope; label: string }[] = [
+  { value: "orders:read", label: "Read orders" },
+  { value: "metrics:read", label: "Read metrics" },
+  { value: "sync:write", label: "Start syncs" },
+];
+
+const DEFAULT_RATE_LIMIT = 60;
+
+function formatDate(dateString?: string) {
+  if (!dateString) return "—";
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function CreateApiKeyForm() {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["orders:read"]);
+  const [rateLimit, setRateLimit] = useState(DEFAULT_RATE_LIMIT);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const createMutation = useCreateApiKey();
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) =>
+      current.includes(scope)
+        ? current.filter((s) => s !== scope)
+        : [...current, scope]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate(
+      { name, scopes, rateLimit },
+      {
+        onSuccess: (data) => {
+          setCreatedKey(data.key);
+          setName("");
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={handleSubmit}
+        className="flex flex-col gap-3 lg:flex-row lg:items-end"
+      >
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Name
+          <input
+            type="text"
+            required
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Reporting service"
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white text-gray-900"
+          />
+        </label>
+        <fieldset className="flex flex-col gap-1 text-sm text-gray-700">
+          <legend className="mb-1">Scopes</legend>
+          <div className="flex gap-4 py-2">
+            {SCOPE_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(option.value)}
+                  onChange={() => toggleScope(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Requests per minute
+          <input
+            type="number"
+            min={1}
+            required
+            value={rateLimit}
+            onChange={(e) => setRateLimit(Number(e.target.value))}
+            className="w-32 px-3 py-2 text-sm border border-gray-300 rounded-md bg-white text-gray-900"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={createMutation.isPending || scopes.length === 0}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Create key
+        </button>
+      </form>
+
+      {createdKey && (
+        <div className="p-4 bg-green-50 border border-green-100 rounded-md text-sm text-green-800 space-y-2">
+          <p>
+            Copy this key now. It is stored hashed and won&apos;t be shown
+            again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="px-2 py-1 bg-white border border-green-200 rounded font-mono text-xs text-gray-900 break-all">
+              {createdKey}
+            </code>
+            <button
+              onClick={() => navigator.clipboard.writeText(createdKey)}
+              className="text-blue-600 hover:text-blue-700"
+            >
+              Copy
+            </button>
+            <button
+              onClick={() => setCreatedKey(null)}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ApiKeyRow({ apiKey }: { apiKey: ApiKeySummary }) {
+  const revokeMutation = useRevokeApiKey();
+
+  return (
+    <tr className={apiKey.revokedAt ? "text-gray-400" : "text-gray-900"}>
+      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+        {apiKey.name}
+        <div className="font-mono text-xs text-gray-500">
+          {apiKey.prefix}…
+        </div>
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm">
+        {apiKey.scopes.join(", ")}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm">
+        {apiKey.rateLimit}/min
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm">
+        {formatDate(apiKey.createdAt)}
+        <div className="text-xs text-gray-500">{apiKey.createdBy}</div>
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm">
+        {formatDate(apiKey.lastUsedAt)}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+        {apiKey.revokedAt ? (
+          <span title={formatDate(apiKey.revokedAt)}>Revoked</span>
+        ) : (
+          <button
+            onClick={() => revokeMutation.mutate(apiKey._id!)}
+            disabled={revokeMutation.isPending}
+            className="text-red-600 hover:text-red-700 disabled:opacity-50"
+          >
+            Revoke
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export default function ApiKeySettings() {
+  const { data: currentUser } = useCurrentUser();
+  const isAdmin = hasRole(currentUser?.user, "admin");
+  const { data, isLoading, error } = useApiKeys(isAdmin);
+
+  // Only admins can manage keys
+  if (!isAdmin) {
+    return null;
+  }
+
+  const apiKeys = data?.apiKeys || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">API keys</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Let other services read orders and metrics or start syncs by sending
+          a key in an <code>Authorization: Bearer</code> header.
+        </p>
+      </div>
+
+      <CreateApiKeyForm />
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <SpinnerIcon className="h-4 w-4 animate-spin" />
+          Loading API keys...
+        </div>
+      ) : error ? (
+        <div className="text-sm text-red-500">
+          Error loading API keys: {error.message}
+        </div>
+      ) : apiKeys.length === 0 ? (
+        <div className="text-sm text-gray-500">No API keys yet.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[800px]">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Scopes
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rate limit
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Created
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Last used
+                </th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {apiKeys.map((apiKey) => (
+                <ApiKeyRow key={apiKey._id} apiKey={apiKey} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
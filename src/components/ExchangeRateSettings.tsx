@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { useCurrentUser } from "@/hooks/useAuth";
+import {
+  useDeleteExchangeRate,
+  useExchangeRates,
+  useSetExchangeRate,
+} from "@/hooks/useExchangeRates";
+import { SpinnerIcon } from "@/components/icons";
+import { hasRole } from "@/lib/access";
+import { ExchangeRate } from "@/types/exchange-rate";
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function ExchangeRateForm({ base }: { base: string }) {
+  const [currency, setCurrency] = useState("");
+  const [rate, setRate] = useState("");
+  const setMutation = useSetExchangeRate();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setMutation.mutate(
+      { currency: currency.trim().toUpperCase(), rate: rate.trim() },
+      {
+        onSuccess: () => {
+          setCurrency("");
+          setRate("");
+        },
+      }
+    );
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-col gap-3 sm:flex-row sm:items-end"
+    >
+      <label className="flex flex-col gap-1 text-sm text-gray-700">
+        Currency
+        <input
+          type="text"
+          required
+          maxLength={3}
+          pattern="[A-Za-z]{3}"
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          placeholder="EUR"
+          className="w-24 px-3 py-2 text-sm border border-gray-300 rounded-md bg-white text-gray-900 uppercase"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-sm text-gray-700">
+        Units per 1 {base}
+        <input
+          type="text"
+          required
+          inputMode="decimal"
+          pattern="\d+(\.\d+)?"
+          value={rate}
+          onChange={(e) => setRate(e.target.value)}
+          placeholder="0.92"
+          className="w-32 px-3 py-2 text-sm border border-gray-300 rounded-md bg-white text-gray-900"
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={setMutation.isPending}
+        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Save rate
+      </button>
+    </form>
+  );
+}
+
+function ExchangeRateRow({
+  exchangeRate,
+  base,
+}: {
+  exchangeRate: ExchangeRate;
+  base: string;
+}) {
+  const deleteMutation = useDeleteExchangeRate();
+
+  return (
+    <tr className="text-gray-900">
+      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+        {exchangeRate._id}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono">
+        {exchangeRate.rate}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm">
+        {formatDate(exchangeRate.updatedAt)}
+        <div className="text-xs text-gray-500">
+          {exchangeRate.updatedBy || "Seeded"}
+        </div>
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+        {exchangeRate._id !== base && (
+          <button
+            onClick={() => deleteMutation.mutate(exchangeRate._id)}
+            disabled={deleteMutation.isPending}
+            className="text-red-600 hover:text-red-700 disabled:opacity-50"
+          >
+            Remove
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export default function ExchangeRateSettings() {
+  const { data: currentUser } = useCurrentUser();
+  const { data, isLoading, error } = useExchangeRates();
+
+  // Only admins can change rates
+  if (!hasRole(currentUser?.user, "admin")) {
+    return null;
+  }
+
+  const base = data?.base || "USD";
+  const exchangeRates = data?.exchangeRates || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Exchange rates</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Used to convert dashboard metrics to the reporting currency. Orders
+          in a currency without a rate are left out of converted totals.
+        </p>
+      </div>
+
+      <ExchangeRateForm base={base} />
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <SpinnerIcon className="h-4 w-4 animate-spin" />
+          Loading exchange rates...
+        </div>
+      ) : error ? (
+        <div className="text-sm text-red-500">
+          Error loading exchange rates: {error.message}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[600px]">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Currency
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Per 1 {base}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Updated
+                </th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {exchangeRates.map((exchangeRate) => (
+                <ExchangeRateRow
+                  key={exchangeRate._id}
+                  exchangeRate={exchangeRate}
+                  base={base}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
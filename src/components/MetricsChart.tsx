@@ -1,9 +1,99 @@
 "use client";
 
-import { useMetrics } from "@/hooks/useMetrics";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { useMetrics, useMetricsParams } from "@/hooks/useMetrics";
+import {
+  DEFAULT_METRICS_GRANULARITY,
+  DEFAULT_METRICS_RANGE,
+  METRICS_COMPARISONS,
+  METRICS_GRANULARITIES,
+  METRICS_RANGE_PRESETS,
+} from "@/lib/metrics-query";
+import { formatMoney } from "@/lib/money";
+import {
+  MetricsComparison,
+  MetricsGranularity,
+  MetricsParams,
+  MetricsRangePreset,
+  MetricsSummary,
+} from "@/types/order";
+
+const RANGE_LABELS: Record<MetricsRangePreset | "custom", string> = {
+  today: "Today",
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+  mtd: "Month to date",
+  qtd: "Quarter to date",
+  ytd: "Year to date",
+  custom: "Custom",
+};
+
+const GRANULARITY_LABELS: Record<MetricsGranularity, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+const COMPARISON_LABELS: Record<MetricsComparison, string> = {
+  previous: "Previous period",
+  year: "Same period last year",
+};
+
+const selectClassName =
+  "px-3 py-2 text-sm border border-gray-300 rounded-md bg-white text-gray-900";
+
+// Days and period starts are already in the store's timezone, so they are
+// formatted as UTC to keep them from shifting
+function formatDay(day: string, options: Intl.DateTimeFormatOptions) {
+  return new Date(day).toLocaleDateString("en-US", {
+    ...options,
+    timeZone: "UTC",
+  });
+}
+
+function formatPeriod(date: string, granularity: MetricsGranularity) {
+  if (granularity === "month") {
+    return formatDay(date, { month: "short", year: "numeric" });
+  }
+  const day = formatDay(date, { month: "short", day: "numeric" });
+  return granularity === "week" ? `Week of ${day}` : day;
+}
+
+function formatRange(range: { from: string; to: string }) {
+  const options: Intl.DateTimeFormatOptions = {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  };
+  const from = formatDay(range.from, options);
+  return range.from === range.to
+    ? from
+    : `${from} – ${formatDay(range.to, options)}`;
+}
+
+function ChangeBadge({ change }: { change: number | null }) {
+  if (change === null) {
+    return <span className="text-sm text-gray-400">—</span>;
+  }
+  const rounded = Math.round(change * 10) / 10;
+  const color =
+    rounded > 0
+      ? "text-green-600"
+      : rounded < 0
+        ? "text-red-600"
+        : "text-gray-500";
+  return (
+    <span className={`text-sm font-medium ${color}`}>
+      {rounded > 0 ? "+" : ""}
+      {rounded.toFixed(1)}%
+    </span>
+  );
+}
 
 export default function MetricsChart() {
-  const { data, isLoading, error } = useMetrics(30);
+  const [params, setParams] = useMetricsParams();
+  const { data, isLoading, error } = useMetrics(params);
+  const { data: exchangeRatesData } = useExchangeRates();
 
   const metrics = data?.metrics || [];
   const summary = data?.summary || {
@@ -12,13 +102,153 @@ export default function MetricsChart() {
     totalShipping: 0,
     averageOrderValue: 0,
   };
+  const range = params.range || DEFAULT_METRICS_RANGE;
+  const granularity =
+    data?.granularity || params.granularity || DEFAULT_METRICS_GRANULARITY;
+  const comparison = data?.comparison;
+  // Unset reports in the store's currency
+  const currency = data?.currency || params.currency;
+  const currencies = Array.from(
+    new Set([
+      ...(currency ? [currency] : []),
+      ...(exchangeRatesData?.exchangeRates.map((rate) => rate._id) || []),
+    ])
+  ).sort();
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
+    return formatMoney(amount, currency);
+  };
+  const summaryCards: {
+    key: keyof MetricsSummary;
+    label: string;
+    format: (value: number) => string;
+  }[] = [
+    { key: "totalOrders", label: "Total Orders", format: String },
+    { key: "totalRevenue", label: "Total Revenue", format: formatCurrency },
+    { key: "totalShipping", label: "Total Shipping", format: formatCurrency },
+    {
+      key: "averageOrderValue",
+      label: "Avg Order Value",
+      format: formatCurrency,
+    },
+  ];
+
+  const handleRangeChange = (value: MetricsParams["range"]) => {
+    // A custom range starts from the days currently shown
+    setParams(
+      value === "custom"
+        ? { range: value, from: data?.from, to: data?.to }
+        : { range: value }
+    );
   };
 
+  const controls = (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Range
+          <select
+            value={range}
+            onChange={(e) =>
+              handleRangeChange(e.target.value as MetricsParams["range"])
+            }
+            className={selectClassName}
+          >
+            {[...METRICS_RANGE_PRESETS, "custom" as const].map((preset) => (
+              <option key={preset} value={preset}>
+                {RANGE_LABELS[preset]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {range === "custom" && (
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="date"
+              aria-label="From"
+              value={params.from || ""}
+              max={params.to}
+              onChange={(e) => setParams({ from: e.target.value || undefined })}
+              className={selectClassName}
+            />
+            to
+            <input
+              type="date"
+              aria-label="To"
+              value={params.to || ""}
+              min={params.from}
+              onChange={(e) => setParams({ to: e.target.value || undefined })}
+              className={selectClassName}
+            />
+          </div>
+        )}
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Group by
+          <select
+            value={params.granularity || DEFAULT_METRICS_GRANULARITY}
+            onChange={(e) =>
+              setParams({
+                granularity: e.target.value as MetricsGranularity,
+              })
+            }
+            className={selectClassName}
+          >
+            {METRICS_GRANULARITIES.map((option) => (
+              <option key={option} value={option}>
+                {GRANULARITY_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Compare to
+          <select
+            value={params.compare || ""}
+            onChange={(e) =>
+              setParams({
+                compare: (e.target.value || undefined) as
+                  | MetricsComparison
+                  | undefined,
+              })
+            }
+            className={selectClassName}
+          >
+            <option value="">None</option>
+            {METRICS_COMPARISONS.map((option) => (
+              <option key={option} value={option}>
+                {COMPARISON_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Currency
+          <select
+            value={currency || ""}
+            onChange={(e) => setParams({ currency: e.target.value })}
+            className={selectClassName}
+          >
+            {currencies.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {data && (
+        <p className="text-sm text-gray-500">
+          {formatRange(data)} ({data.timezone})
+        </p>
+      )}
+      {data && data.missingRates.length > 0 && (
+        <p className="text-sm text-amber-700">
+          Orders in {data.missingRates.join(", ")} are left out: no exchange
+          rate to {data.currency}.
+        </p>
+      )}
+    </div>
+  );
+
   const maxValue =
     metrics.length > 0
       ? Math.max(
@@ -31,6 +261,8 @@ export default function MetricsChart() {
   if (isLoading) {
     return (
       <div className="space-y-6">
+        {controls}
+
         {/* Summary Cards Skeleton */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           {Array.from({ length: 4 }).map((_, index) => (
@@ -82,6 +314,7 @@ export default function MetricsChart() {
   if (error) {
     return (
       <div className="space-y-6">
+        {controls}
         <div className="bg-white p-8 rounded-lg shadow-sm border border-gray-200 text-center text-red-500">
           Error loading metrics: {error.message}
         </div>
@@ -91,31 +324,28 @@ export default function MetricsChart() {
 
   return (
     <div className="space-y-6">
+      {controls}
+
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
-          <div className="text-sm text-gray-600 mb-1">Total Orders</div>
-          <div className="text-2xl font-semibold text-gray-900">
-            {summary.totalOrders}
-          </div>
-        </div>
-        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
-          <div className="text-sm text-gray-600 mb-1">Total Revenue</div>
-          <div className="text-2xl font-semibold text-gray-900">
-            {formatCurrency(summary.totalRevenue)}
-          </div>
-        </div>
-        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
-          <div className="text-sm text-gray-600 mb-1">Total Shipping</div>
-          <div className="text-2xl font-semibold text-gray-900">
-            {formatCurrency(summary.totalShipping)}
-          </div>
-        </div>
-        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
-          <div className="text-sm text-gray-600 mb-1">Avg Order Value</div>
-          <div className="text-2xl font-semibold text-gray-900">
-            {formatCurrency(summary.averageOrderValue)}
+        {summaryCards.map((card) => (
+          <div
+            key={card.key}
+            className="bg-white p-6 rounded-lg shadow-sm border border-gray-200"
+          >
+            <div className="text-sm text-gray-600 mb-1">{card.label}</div>
+            <div className="text-2xl font-semibold text-gray-900">
+              {card.format(summary[card.key])}
+            </div>
+            {comparison && (
+              <div className="mt-2 flex items-center gap-2">
+                <ChangeBadge change={comparison.changes[card.key]} />
+                <span className="text-xs text-gray-500">
+                  vs {formatRange(comparison)}
+                </span>
+              </div>
+            )}
           </div>
-        </div>
+        ))}
       </div>
 
       <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
@@ -125,11 +355,8 @@ export default function MetricsChart() {
         <div className="space-y-2">
           {metrics.map((metric) => (
             <div key={metric.date} className="flex items-center gap-4">
-              <div className="w-24 text-sm text-gray-600">
-                {new Date(metric.date).toLocaleDateString("en-US", {
-                  month: "short",
-                  day: "numeric",
-                })}
+              <div className="w-28 text-sm text-gray-600">
+                {formatPeriod(metric.date, granularity)}
               </div>
               <div className="flex-1">
                 <div className="flex items-center gap-2">
@@ -162,11 +389,8 @@ export default function MetricsChart() {
         <div className="space-y-2">
           {metrics.map((metric) => (
             <div key={metric.date} className="flex items-center gap-4">
-              <div className="w-24 text-sm text-gray-600">
-                {new Date(metric.date).toLocaleDateString("en-US", {
-                  month: "short",
-                  day: "numeric",
-                })}
+              <div className="w-28 text-sm text-gray-600">
+                {formatPeriod(metric.date, granularity)}
               </div>
               <div className="flex-1">
                 <div className="flex items-center gap-2">
@@ -193,11 +417,8 @@ export default function MetricsChart() {
         <div className="space-y-2">
           {metrics.map((metric) => (
             <div key={metric.date} className="flex items-center gap-4">
-              <div className="w-24 text-sm text-gray-600">
-                {new Date(metric.date).toLocaleDateString("en-US", {
-                  month: "short",
-                  day: "numeric",
-                })}
+              <div className="w-28 text-sm text-gray-600">
+                {formatPeriod(metric.date, granularity)}
               </div>
               <div className="flex-1">
                 <div className="flex items-center gap-2">
@@ -1,10 +1,91 @@
 "use client";
 
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useCurrentUser, useLogout } from "@/hooks/useAuth";
+import { useShops, useSwitchShop } from "@/hooks/useShops";
+import { hasRole } from "@/lib/access";
+
+function StoreSwitcher() {
+  const pathname = usePathname();
+  const router = useRouter();
+  const { data } = useShops();
+  const switchShop = useSwitchShop();
+
+  // Nothing to switch between with a single store
+  if (!data || data.shops.length < 2) {
+    return null;
+  }
+
+  const handleChange = (shopId: string) => {
+    switchShop(shopId);
+    // An open order belongs to the previous store
+    if (pathname.startsWith("/orders/")) {
+      router.push("/orders");
+    }
+  };
+
+  return (
+    <select
+      aria-label="Store"
+      value={data.currentShopId || ""}
+      onChange={(e) => handleChange(e.target.value)}
+      className="px-3 py-1.5 border border-gray-300 rounded-md bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      {data.shops.map((shop) => (
+        <option key={shop._id} value={shop._id}>
+          {shop.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function UserMenu() {
+  const router = useRouter();
+  const { data } = useCurrentUser();
+  const logoutMutation = useLogout();
+
+  // The session expired or was revoked
+  useEffect(() => {
+    if (data && !data.user) {
+      router.replace("/login");
+    }
+  }, [data, router]);
+
+  if (!data?.user) {
+    return null;
+  }
+
+  const handleLogout = () => {
+    logoutMutation.mutate(undefined, {
+      onSuccess: () => router.replace("/login"),
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className="text-gray-700">
+        {data.user.name || data.user.email}
+        <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600">
+          {data.user.role}
+        </span>
+      </span>
+      <button
+        onClick={handleLogout}
+        disabled={logoutMutation.isPending}
+        className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
 
 export default function Navigation() {
   const pathname = usePathname();
+  const { data } = useCurrentUser();
 
   const isActive = (path: string) => pathname === path;
 
@@ -37,8 +118,44 @@ export default function Navigation() {
               >
                 Orders
               </Link>
+              <Link
+                href="/sync"
+                className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                  isActive("/sync")
+                    ? "border-blue-500 text-gray-900"
+                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                }`}
+              >
+                Sync History
+              </Link>
+              {hasRole(data?.user, "admin") && (
+                <Link
+                  href="/admin/webhooks"
+                  className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                    isActive("/admin/webhooks")
+                      ? "border-blue-500 text-gray-900"
+                      : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                  }`}
+                >
+                  Webhooks
+                </Link>
+              )}
+              <Link
+                href="/settings"
+                className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                  isActive("/settings")
+                    ? "border-blue-500 text-gray-900"
+                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                }`}
+              >
+                Settings
+              </Link>
             </div>
           </div>
+          <div className="flex items-center gap-6">
+            <StoreSwitcher />
+            <UserMenu />
+          </div>
         </div>
       </div>
     </nav>
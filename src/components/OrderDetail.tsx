@@ -1,16 +1,115 @@
 "use client";
 
-import { useOrder, useResyncOrder } from "@/hooks/useOrder";
+import { useCurrentUser } from "@/hooks/useAuth";
+import { useOrder, useOrderEvents, useResyncOrder } from "@/hooks/useOrder";
 import Link from "next/link";
 import { SyncIcon, SpinnerIcon } from "@/components/icons";
+import { hasRole } from "@/lib/access";
+import { formatMoney, multiplyMoney } from "@/lib/money";
+import { OrderEventSource } from "@/types/order-event";
 
 interface OrderDetailProps {
   orderId: string;
 }
 
+const FIELD_LABELS: Record<string, string> = {
+  financial_status: "Financial status",
+  fulfillment_status: "Fulfillment status",
+  total_price: "Total",
+  subtotal_price: "Subtotal",
+  total_tax: "Tax",
+  "total_shipping_price_set.shop_money.amount": "Shipping",
+  line_items: "Items",
+};
+
+const SOURCE_LABELS: Record<OrderEventSource, string> = {
+  incremental: "Incremental sync",
+  bulk: "Bulk sync",
+  webhook: "Webhook",
+  resync: "Manual re-sync",
+};
+
+function fieldLabel(field: string) {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const label = field.replace(/\./g, " ").replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function OrderTimeline({ orderId }: { orderId: string }) {
+  const { data, isLoading, error } = useOrderEvents(orderId);
+  const events = data?.events || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">History</h2>
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <SpinnerIcon className="h-4 w-4 animate-spin" />
+          Loading history...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-500">
+          Error loading history: {error.message}
+        </p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No changes recorded since this order was first synced.
+        </p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+          {events.map((event) => (
+            <li key={event._id} className="ml-4">
+              <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500"></div>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium text-gray-900">
+                  {SOURCE_LABELS[event.source]}
+                </span>
+                {event.topic && (
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                    {event.topic}
+                  </span>
+                )}
+                <span
+                  className="text-gray-500"
+                  title={`Updated in Shopify ${new Date(
+                    event.orderUpdatedAt
+                  ).toLocaleString("en-US")}`}
+                >
+                  {new Date(event.at).toLocaleString("en-US", {
+                    month: "short",
+                    day: "numeric",
+                    year: "numeric",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </span>
+              </div>
+              <ul className="mt-2 space-y-1 text-sm">
+                {event.changes.map((change) => (
+                  <li key={change.field} className="text-gray-700">
+                    <span className="text-gray-500">
+                      {fieldLabel(change.field)}:
+                    </span>{" "}
+                    <span className="line-through text-gray-400">
+                      {change.from ?? "—"}
+                    </span>{" "}
+                    → <span className="text-gray-900">{change.to ?? "—"}</span>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
 export default function OrderDetail({ orderId }: OrderDetailProps) {
   const { data, isLoading, error } = useOrder(orderId);
   const resyncMutation = useResyncOrder();
+  const { data: currentUser } = useCurrentUser();
+  const canResync = hasRole(currentUser?.user, "operator");
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
@@ -23,10 +122,7 @@ export default function OrderDetail({ orderId }: OrderDetailProps) {
   };
 
   const formatCurrency = (amount: string, currency = "USD") => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency,
-    }).format(parseFloat(amount));
+    return formatMoney(amount, currency);
   };
 
   if (isLoading) {
@@ -78,6 +174,9 @@ export default function OrderDetail({ orderId }: OrderDetailProps) {
     );
   }
 
+  // The total in the currency the customer paid in
+  const presentmentTotal = order.total_price_set?.presentment_money;
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -93,6 +192,21 @@ export default function OrderDetail({ orderId }: OrderDetailProps) {
           </div>
           <div className="flex flex-col gap-2 items-end">
             <div className="flex gap-2">
+              {order.deletedAt && (
+                <span className="px-3 py-1 text-sm font-medium rounded-full bg-gray-100 text-gray-700">
+                  Deleted in Shopify
+                </span>
+              )}
+              {order.cancelled_at && (
+                <span className="px-3 py-1 text-sm font-medium rounded-full bg-red-100 text-red-800">
+                  Cancelled
+                </span>
+              )}
+              {order.closed_at && (
+                <span className="px-3 py-1 text-sm font-medium rounded-full bg-gray-100 text-gray-700">
+                  Archived
+                </span>
+              )}
               <span
                 className={`px-3 py-1 text-sm font-medium rounded-full capitalize ${
                   order.financial_status === "paid"
@@ -122,23 +236,25 @@ export default function OrderDetail({ orderId }: OrderDetailProps) {
                       {order.syncError}
                     </span>
                   )}
-                  <button
-                    onClick={() => resyncMutation.mutate(orderId)}
-                    disabled={resyncMutation.isPending}
-                    className="px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
-                  >
-                    {resyncMutation.isPending ? (
-                      <>
-                        <SpinnerIcon className="h-3 w-3 animate-spin" />
-                        Syncing...
-                      </>
-                    ) : (
-                      <>
-                        <SyncIcon className="h-3 w-3" />
-                        Re-sync
-                      </>
-                    )}
-                  </button>
+                  {canResync && (
+                    <button
+                      onClick={() => resyncMutation.mutate(orderId)}
+                      disabled={resyncMutation.isPending}
+                      className="px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                    >
+                      {resyncMutation.isPending ? (
+                        <>
+                          <SpinnerIcon className="h-3 w-3 animate-spin" />
+                          Syncing...
+                        </>
+                      ) : (
+                        <>
+                          <SyncIcon className="h-3 w-3" />
+                          Re-sync
+                        </>
+                      )}
+                    </button>
+                  )}
                 </div>
               )}
               {order.syncStatus === "pending" && (
@@ -209,7 +325,7 @@ export default function OrderDetail({ orderId }: OrderDetailProps) {
                     </p>
                     <p className="text-sm text-gray-500">
                       {formatCurrency(
-                        (parseFloat(item.price) * item.quantity).toString(),
+                        multiplyMoney(item.price, item.quantity),
                         order.currency
                       )}
                     </p>
@@ -218,6 +334,9 @@ export default function OrderDetail({ orderId }: OrderDetailProps) {
               ))}
             </div>
           </div>
+
+          {/* Change History */}
+          <OrderTimeline orderId={orderId} />
         </div>
 
         {/* Sidebar */}
@@ -318,6 +437,18 @@ export default function OrderDetail({ orderId }: OrderDetailProps) {
                   {formatCurrency(order.total_price, order.currency)}
                 </span>
               </div>
+              {presentmentTotal &&
+                presentmentTotal.currency_code !== order.currency && (
+                  <div className="flex justify-between text-gray-500">
+                    <span>Paid by customer</span>
+                    <span>
+                      {formatCurrency(
+                        presentmentTotal.amount,
+                        presentmentTotal.currency_code
+                      )}
+                    </span>
+                  </div>
+                )}
             </div>
           </div>
         </div>
@@ -1,20 +1,90 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import Link from "next/link";
-import { useOrders, useSyncOrders, useBulkSyncStatus } from "@/hooks/useOrders";
+import {
+  useOrders,
+  useOrderListParams,
+  useSyncOrders,
+  useBulkSyncStatus,
+} from "@/hooks/useOrders";
+import { useCurrentUser } from "@/hooks/useAuth";
 import { useResyncOrder } from "@/hooks/useOrder";
+import { hasRole } from "@/lib/access";
+import { formatMoney } from "@/lib/money";
+import { hasOrderFilters } from "@/lib/order-query";
 import {
   ClockIcon,
   SearchIcon,
   SpinnerIcon,
   SyncIcon,
 } from "@/components/icons";
-import { Order } from "@/types/order";
+import {
+  Order,
+  OrderListParams,
+  OrderSortKey,
+  PaginationMode,
+} from "@/types/order";
 
 interface OrderListProps {
-  initialPage?: number;
   initialLimit?: number;
+  paginationMode?: PaginationMode;
+}
+
+const FINANCIAL_STATUS_OPTIONS = [
+  { value: "paid", label: "Paid" },
+  { value: "pending", label: "Pending" },
+  { value: "authorized", label: "Authorized" },
+  { value: "partially_paid", label: "Partially paid" },
+  { value: "refunded", label: "Refunded" },
+  { value: "partially_refunded", label: "Partially refunded" },
+  { value: "voided", label: "Voided" },
+];
+
+const FULFILLMENT_STATUS_OPTIONS = [
+  { value: "fulfilled", label: "Fulfilled" },
+  { value: "unfulfilled", label: "Unfulfilled" },
+  { value: "partially_fulfilled", label: "Partially fulfilled" },
+];
+
+const SYNC_STATUS_OPTIONS = [
+  { value: "success", label: "Synced" },
+  { value: "pending", label: "Syncing" },
+  { value: "failed", label: "Failed" },
+];
+
+const SORT_OPTIONS: { value: OrderSortKey; label: string }[] = [
+  { value: "created_at", label: "Date created" },
+  { value: "updated_at", label: "Last updated" },
+  { value: "order_number", label: "Order number" },
+  { value: "total_price", label: "Total" },
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface FilterSelectProps {
+  label: string;
+  value?: string[];
+  options: { value: string; label: string }[];
+  onChange: (value: string[] | undefined) => void;
+}
+
+function FilterSelect({ label, value, options, onChange }: FilterSelectProps) {
+  return (
+    <select
+      aria-label={label}
+      value={value?.[0] || ""}
+      onChange={(e) => onChange(e.target.value ? [e.target.value] : undefined)}
+      className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      <option value="">{label}: All</option>
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
 }
 
 interface OrderRowProps {
@@ -25,6 +95,8 @@ interface OrderRowProps {
 
 function OrderRow({ order, formatDate, formatCurrency }: OrderRowProps) {
   const resyncMutation = useResyncOrder();
+  const { data: currentUser } = useCurrentUser();
+  const canResync = hasRole(currentUser?.user, "operator");
 
   const getSyncStatusBadge = () => {
     if (!order.syncStatus) {
@@ -55,17 +127,19 @@ function OrderRow({ order, formatDate, formatCurrency }: OrderRowProps) {
             <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
               ✗ Failed
             </span>
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                resyncMutation.mutate(order.id);
-              }}
-              disabled={resyncMutation.isPending}
-              className="text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
-              title={order.syncError || "Re-sync order"}
-            >
-              <SyncIcon className="h-3 w-3" />
-            </button>
+            {canResync && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  resyncMutation.mutate(order.id);
+                }}
+                disabled={resyncMutation.isPending}
+                className="text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                title={order.syncError || "Re-sync order"}
+              >
+                <SyncIcon className="h-3 w-3" />
+              </button>
+            )}
           </div>
         );
       default:
@@ -117,14 +191,23 @@ function OrderRow({ order, formatDate, formatCurrency }: OrderRowProps) {
 }
 
 export default function OrderList({
-  initialPage = 1,
   initialLimit = 10,
+  paginationMode = "cursor",
 }: OrderListProps) {
-  const [page, setPage] = useState(initialPage);
-  const [limit, setLimit] = useState(initialLimit);
-  const [searchQuery, setSearchQuery] = useState("");
-  const { data, isLoading, error } = useOrders(page, limit);
+  const [params, setParams] = useOrderListParams();
+  const page = params.page || 1;
+  const limit = params.limit || initialLimit;
+  const [searchInput, setSearchInput] = useState(params.q || "");
+  const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { data, isLoading, error } = useOrders(
+    paginationMode === "cursor"
+      ? { ...params, page: undefined, limit, pagination: "cursor" }
+      : { ...params, after: undefined, before: undefined, page, limit }
+  );
   const syncMutation = useSyncOrders();
+  const { data: currentUser } = useCurrentUser();
+  // Viewers can browse orders but not start syncs
+  const canSync = hasRole(currentUser?.user, "operator");
   const {
     data: bulkStatusData,
     isFetching: isFetchingBulkStatus,
@@ -133,34 +216,52 @@ export default function OrderList({
 
   const bulkStatus = bulkStatusData?.status || "idle";
   const isBulkPending = bulkStatus === "pending" || isFinalizing;
-  const isBulkFailed = bulkStatus === "failed" || bulkStatus === "canceled";
+  const isBulkFailed = bulkStatus === "failed";
   const isCheckingBulkStatus = isFetchingBulkStatus && !bulkStatusData;
 
   // Show loading overlay only for incremental sync (not bulk)
   const isIncrementalSyncing = syncMutation.isPending && !isBulkPending;
 
-  const allOrders = data?.orders || [];
-  const pagination = data?.pagination || {
-    page: 1,
-    limit: 10,
-    total: 0,
-    totalPages: 0,
+  const orders = data?.orders || [];
+  const pagination = data?.pagination;
+
+  const isFiltered = hasOrderFilters(params);
+
+  const firstPage: Partial<OrderListParams> = {
+    page: undefined,
+    after: undefined,
+    before: undefined,
   };
 
-  // Filter orders based on search query
-  const filteredOrders = allOrders.filter((order) => {
-    if (!searchQuery.trim()) return true;
-    const query = searchQuery.toLowerCase();
-    return (
-      order.order_number.toString().includes(query) ||
-      order.email?.toLowerCase().includes(query) ||
-      order.customer?.first_name?.toLowerCase().includes(query) ||
-      order.customer?.last_name?.toLowerCase().includes(query) ||
-      order.id.toLowerCase().includes(query)
-    );
-  });
-
-  const orders = filteredOrders;
+  // Any filter change starts again from the first page
+  const updateFilters = (updates: Partial<OrderListParams>) => {
+    setParams({ ...updates, ...firstPage });
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearchInput(value);
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+    searchTimeoutRef.current = setTimeout(() => {
+      updateFilters({ q: value.trim() || undefined });
+    }, SEARCH_DEBOUNCE_MS);
+  };
+
+  const clearFilters = () => {
+    setSearchInput("");
+    setParams({
+      q: undefined,
+      financialStatus: undefined,
+      fulfillmentStatus: undefined,
+      syncStatus: undefined,
+      currency: undefined,
+      country: undefined,
+      createdFrom: undefined,
+      createdTo: undefined,
+      ...firstPage,
+    });
+  };
 
   const handleSync = () => {
     if (syncMutation.isPending || isBulkPending) return;
@@ -178,10 +279,7 @@ export default function OrderList({
   };
 
   const formatCurrency = (amount: string, currency = "USD") => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency,
-    }).format(parseFloat(amount));
+    return formatMoney(amount, currency);
   };
 
   return (
@@ -191,12 +289,9 @@ export default function OrderList({
           <div className="relative">
             <input
               type="text"
-              placeholder="Search orders..."
-              value={searchQuery}
-              onChange={(e) => {
-                setSearchQuery(e.target.value);
-                setPage(1);
-              }}
+              placeholder="Search orders, emails, SKUs..."
+              value={searchInput}
+              onChange={(e) => handleSearchChange(e.target.value)}
               className="w-full sm:w-64 pl-10 pr-4 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
             <SearchIcon className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
@@ -205,7 +300,7 @@ export default function OrderList({
             {/* Search Input */}
 
             <div className="flex items-center gap-4">
-              {!isBulkPending && !isCheckingBulkStatus && (
+              {canSync && !isBulkPending && !isCheckingBulkStatus && (
                 <button
                   onClick={handleSync}
                   disabled={
@@ -237,10 +332,9 @@ export default function OrderList({
               <label className="text-sm text-gray-600">Items per page:</label>
               <select
                 value={limit}
-                onChange={(e) => {
-                  setLimit(Number(e.target.value));
-                  setPage(1);
-                }}
+                onChange={(e) =>
+                  setParams({ limit: Number(e.target.value), ...firstPage })
+                }
                 className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value={10}>10</option>
@@ -251,6 +345,114 @@ export default function OrderList({
             </div>
           </div>
         </div>
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <FilterSelect
+            label="Payment"
+            value={params.financialStatus}
+            options={FINANCIAL_STATUS_OPTIONS}
+            onChange={(financialStatus) => updateFilters({ financialStatus })}
+          />
+          <FilterSelect
+            label="Fulfillment"
+            value={params.fulfillmentStatus}
+            options={FULFILLMENT_STATUS_OPTIONS}
+            onChange={(fulfillmentStatus) =>
+              updateFilters({ fulfillmentStatus })
+            }
+          />
+          <FilterSelect
+            label="Sync"
+            value={params.syncStatus}
+            options={SYNC_STATUS_OPTIONS}
+            onChange={(syncStatus) => updateFilters({ syncStatus })}
+          />
+          <input
+            type="text"
+            key={`currency-${params.currency?.join(",") || ""}`}
+            placeholder="Currency"
+            aria-label="Currency"
+            defaultValue={params.currency?.join(",") || ""}
+            onBlur={(e) =>
+              updateFilters({
+                currency: e.target.value.trim()
+                  ? e.target.value.toUpperCase().split(",")
+                  : undefined,
+              })
+            }
+            className="w-24 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            key={`country-${params.country?.join(",") || ""}`}
+            placeholder="Country"
+            aria-label="Country"
+            defaultValue={params.country?.join(",") || ""}
+            onBlur={(e) =>
+              updateFilters({
+                country: e.target.value.trim()
+                  ? e.target.value.split(",")
+                  : undefined,
+              })
+            }
+            className="w-32 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="date"
+              aria-label="Created from"
+              value={params.createdFrom || ""}
+              onChange={(e) =>
+                updateFilters({ createdFrom: e.target.value || undefined })
+              }
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span>to</span>
+            <input
+              type="date"
+              aria-label="Created to"
+              value={params.createdTo || ""}
+              onChange={(e) =>
+                updateFilters({ createdTo: e.target.value || undefined })
+              }
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex items-center gap-2 sm:ml-auto">
+            <label className="text-sm text-gray-600">Sort by:</label>
+            <select
+              value={params.sort || "created_at"}
+              onChange={(e) =>
+                updateFilters({ sort: e.target.value as OrderSortKey })
+              }
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() =>
+                updateFilters({
+                  direction: params.direction === "asc" ? "desc" : "asc",
+                })
+              }
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              title="Toggle sort direction"
+            >
+              {params.direction === "asc" ? "↑ Asc" : "↓ Desc"}
+            </button>
+          </div>
+          {isFiltered && (
+            <button
+              onClick={clearFilters}
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
       </div>
 
       {isIncrementalSyncing && (
@@ -284,15 +486,14 @@ export default function OrderList({
         <div className="px-6 py-3 bg-blue-50 border-b border-blue-100 text-sm text-blue-800 flex items-center gap-2">
           <ClockIcon className="h-4 w-4 text-blue-500 animate-spin" />
           <span>
-            Bulk sync in progress. This may take a few minutes. You can still
-            view existing orders below.
+            Sync in progress. You can still view existing orders below.
           </span>
         </div>
       )}
 
       {isBulkFailed && !isCheckingBulkStatus && (
         <div className="px-6 py-3 bg-red-50 border-b border-red-100 text-sm text-red-800 flex items-center gap-2">
-          <span>Bulk sync {bulkStatus}. Please try syncing again.</span>
+          <span>Sync failed. Please try syncing again.</span>
         </div>
       )}
 
@@ -371,39 +572,43 @@ export default function OrderList({
           ) : isBulkFailed ? (
             <div className="flex flex-col items-center gap-3">
               <div className="px-6 py-3 bg-red-50 border border-red-100 rounded-md text-sm text-red-800 flex items-center gap-2">
-                <span>Bulk sync {bulkStatus}. Please try again.</span>
+                <span>Sync failed. Please try again.</span>
               </div>
-              <button
-                onClick={handleSync}
-                disabled={syncMutation.isPending}
-                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-              >
-                <SyncIcon className="h-4 w-4" />
-                Retry Sync
-              </button>
+              {canSync && (
+                <button
+                  onClick={handleSync}
+                  disabled={syncMutation.isPending}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                >
+                  <SyncIcon className="h-4 w-4" />
+                  Retry Sync
+                </button>
+              )}
             </div>
-          ) : searchQuery ? (
-            <div>No orders found matching your search.</div>
+          ) : isFiltered ? (
+            <div>No orders found matching your filters.</div>
           ) : (
             <>
               <div>No orders yet. Sync from Shopify to get started.</div>
-              <button
-                onClick={handleSync}
-                disabled={syncMutation.isPending}
-                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center gap-2"
-              >
-                {syncMutation.isPending ? (
-                  <>
-                    <SpinnerIcon className="animate-spin h-4 w-4" />
-                    Syncing...
-                  </>
-                ) : (
-                  <>
-                    <SyncIcon className="h-4 w-4" />
-                    Sync from Shopify
-                  </>
-                )}
-              </button>
+              {canSync && (
+                <button
+                  onClick={handleSync}
+                  disabled={syncMutation.isPending}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center gap-2"
+                >
+                  {syncMutation.isPending ? (
+                    <>
+                      <SpinnerIcon className="animate-spin h-4 w-4" />
+                      Syncing...
+                    </>
+                  ) : (
+                    <>
+                      <SyncIcon className="h-4 w-4" />
+                      Sync from Shopify
+                    </>
+                  )}
+                </button>
+              )}
             </>
           )}
         </div>
@@ -509,31 +714,64 @@ export default function OrderList({
           </div>
 
           <div className="px-6 py-4 border-t border-gray-200 flex flex-col sm:flex-row items-center justify-between gap-4">
-            <div className="text-sm text-gray-600">
-              Showing{" "}
-              {searchQuery ? filteredOrders.length : (page - 1) * limit + 1} to{" "}
-              {searchQuery
-                ? filteredOrders.length
-                : Math.min(page * limit, pagination.total)}{" "}
-              of {searchQuery ? filteredOrders.length : pagination.total} orders
-            </div>
-            {!searchQuery && (
-              <div className="flex gap-2">
-                <button
-                  onClick={() => setPage(page - 1)}
-                  disabled={page === 1}
-                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  Previous
-                </button>
-                <button
-                  onClick={() => setPage(page + 1)}
-                  disabled={page >= pagination.totalPages}
-                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  Next
-                </button>
-              </div>
+            {pagination?.mode === "cursor" ? (
+              <>
+                <div className="text-sm text-gray-600">
+                  Showing {orders.length} of about{" "}
+                  {pagination.estimatedTotal.toLocaleString("en-US")}
+                  {pagination.estimatedTotalCapped ? "+" : ""} orders
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() =>
+                      setParams({
+                        before: pagination.prevCursor || undefined,
+                        after: undefined,
+                      })
+                    }
+                    disabled={!pagination.prevCursor}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Previous
+                  </button>
+                  <button
+                    onClick={() =>
+                      setParams({
+                        after: pagination.nextCursor || undefined,
+                        before: undefined,
+                      })
+                    }
+                    disabled={!pagination.nextCursor}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Next
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="text-sm text-gray-600">
+                  Showing {(page - 1) * limit + 1} to{" "}
+                  {Math.min(page * limit, pagination?.total || 0)} of{" "}
+                  {pagination?.total || 0} orders
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setParams({ page: page - 1 })}
+                    disabled={page === 1}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Previous
+                  </button>
+                  <button
+                    onClick={() => setParams({ page: page + 1 })}
+                    disabled={page >= (pagination?.totalPages || 0)}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Next
+                  </button>
+                </div>
+              </>
             )}
           </div>
         </>
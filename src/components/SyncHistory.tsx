@@ -0,0 +1,374 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { SyncRunFilters, useSyncRun, useSyncRuns } from "@/hooks/useSyncRuns";
+import { SpinnerIcon } from "@/components/icons";
+import {
+  SyncRunMethod,
+  SyncRunStatus,
+  SyncRunSummary,
+  SyncRunTrigger,
+} from "@/types/sync-run";
+
+const METHOD_OPTIONS: { value: SyncRunMethod; label: string }[] = [
+  { value: "incremental", label: "Incremental" },
+  { value: "bulk", label: "Bulk" },
+  { value: "webhook", label: "Webhook" },
+  { value: "resync", label: "Single order" },
+];
+
+const TRIGGER_OPTIONS: { value: SyncRunTrigger; label: string }[] = [
+  { value: "manual", label: "Manual" },
+  { value: "schedule", label: "Schedule" },
+  { value: "webhook", label: "Webhook" },
+];
+
+const STATUS_BADGES: Record<SyncRunStatus, string> = {
+  running: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const PAGE_SIZE = 20;
+
+function formatDate(dateString?: string) {
+  if (!dateString) return "—";
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function formatDuration(run: SyncRunSummary) {
+  if (!run.finishedAt) return "—";
+  const seconds = Math.round(
+    (new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) /
+      1000
+  );
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function methodLabel(method: SyncRunMethod) {
+  return METHOD_OPTIONS.find((o) => o.value === method)?.label || method;
+}
+
+function OrderLinks({ orderIds }: { orderIds: string[] }) {
+  return (
+    <div className="flex flex-wrap gap-2 max-h-48 overflow-y-auto">
+      {orderIds.map((orderId) => (
+        <Link
+          key={orderId}
+          href={`/orders/${orderId}`}
+          className="px-2 py-1 text-xs font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100"
+        >
+          {orderId}
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+function SyncRunDetail({ id, onClose }: { id: string; onClose: () => void }) {
+  const { data, isLoading, error } = useSyncRun(id);
+  const run = data?.run;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Run details</h2>
+        <button
+          onClick={onClose}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Close
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <SpinnerIcon className="h-4 w-4 animate-spin" />
+          Loading run...
+        </div>
+      ) : error ? (
+        <div className="text-sm text-red-500">
+          Error loading run: {error.message}
+        </div>
+      ) : run ? (
+        <>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+            <div>
+              <dt className="text-gray-500">Method</dt>
+              <dd className="text-gray-900 font-medium">
+                {methodLabel(run.method)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Trigger</dt>
+              <dd className="text-gray-900 capitalize">{run.trigger}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Started</dt>
+              <dd className="text-gray-900">{formatDate(run.startedAt)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Finished</dt>
+              <dd className="text-gray-900">{formatDate(run.finishedAt)}</dd>
+            </div>
+            {run.jobId && (
+              <div>
+                <dt className="text-gray-500">Job ID</dt>
+                <dd className="text-gray-900 break-all">{run.jobId}</dd>
+              </div>
+            )}
+            {run.operationId && (
+              <div>
+                <dt className="text-gray-500">Bulk operation</dt>
+                <dd className="text-gray-900 break-all">{run.operationId}</dd>
+              </div>
+            )}
+          </dl>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">
+              Changed orders ({run.counts.new + run.counts.updated})
+            </h3>
+            {run.changedOrderIds.length > 0 ? (
+              <>
+                <OrderLinks orderIds={run.changedOrderIds} />
+                {run.changedOrderIdsTruncated && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    Showing the first {run.changedOrderIds.length} orders
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">No orders changed.</p>
+            )}
+          </div>
+
+          {run.failedOrderIds.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">
+                Failed orders ({run.counts.failed})
+              </h3>
+              <OrderLinks orderIds={run.failedOrderIds} />
+            </div>
+          )}
+
+          {run.errors.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Errors</h3>
+              <ul className="text-xs text-red-700 bg-red-50 border border-red-200 rounded-md p-3 space-y-1 max-h-64 overflow-y-auto">
+                {run.errors.map((runError, index) => (
+                  <li key={index} className="break-all">
+                    {runError}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+export default function SyncHistory() {
+  const [filters, setFilters] = useState<SyncRunFilters>({});
+  const [page, setPage] = useState(1);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const { data, isLoading, error } = useSyncRuns(filters, page, PAGE_SIZE);
+
+  const runs = data?.runs || [];
+  const pagination = data?.pagination || {
+    page: 1,
+    limit: PAGE_SIZE,
+    total: 0,
+    totalPages: 0,
+  };
+
+  const updateFilters = (update: SyncRunFilters) => {
+    setFilters((current) => ({ ...current, ...update }));
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-6 border-b border-gray-200 flex flex-col gap-4 sm:flex-row">
+          <select
+            aria-label="Method"
+            value={filters.method || ""}
+            onChange={(e) =>
+              updateFilters({
+                method: (e.target.value as SyncRunMethod) || undefined,
+              })
+            }
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white"
+          >
+            <option value="">All methods</option>
+            {METHOD_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Trigger"
+            value={filters.trigger || ""}
+            onChange={(e) =>
+              updateFilters({
+                trigger: (e.target.value as SyncRunTrigger) || undefined,
+              })
+            }
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white"
+          >
+            <option value="">All triggers</option>
+            {TRIGGER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {isLoading ? (
+          <div className="p-8 flex items-center justify-center gap-2 text-sm text-gray-500">
+            <SpinnerIcon className="h-4 w-4 animate-spin" />
+            Loading sync runs...
+          </div>
+        ) : error ? (
+          <div className="p-8 text-center text-red-500">
+            Error loading sync runs: {error.message}
+          </div>
+        ) : runs.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            No sync runs recorded yet.
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[900px]">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Started
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Method
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Trigger
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Duration
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      New
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Updated
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Unchanged
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Failed
+                    </th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {runs.map((run) => (
+                    <tr key={run._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDate(run.startedAt)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {methodLabel(run.method)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 capitalize">
+                        {run.trigger}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${
+                            STATUS_BADGES[run.status]
+                          }`}
+                        >
+                          {run.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDuration(run)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {run.counts.new}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {run.counts.updated}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                        {run.counts.unchanged}
+                      </td>
+                      <td
+                        className={`px-6 py-4 whitespace-nowrap text-sm text-right ${
+                          run.counts.failed > 0
+                            ? "text-red-600 font-medium"
+                            : "text-gray-500"
+                        }`}
+                      >
+                        {run.counts.failed}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                        <button
+                          onClick={() => setOpenId(run._id!)}
+                          className="text-blue-600 hover:text-blue-700"
+                        >
+                          View
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-200 flex flex-col sm:flex-row items-center justify-between gap-4">
+              <div className="text-sm text-gray-600">
+                {pagination.total} run{pagination.total !== 1 ? "s" : ""}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page === 1}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pagination.totalPages}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {openId && <SyncRunDetail id={openId} onClose={() => setOpenId(null)} />}
+    </div>
+  );
+}
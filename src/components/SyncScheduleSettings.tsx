@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { useCurrentUser } from "@/hooks/useAuth";
+import {
+  useSyncSchedule,
+  useUpdateSyncSchedule,
+} from "@/hooks/useSyncSchedule";
+import { SpinnerIcon } from "@/components/icons";
+import { hasRole } from "@/lib/access";
+import { SyncSchedule } from "@/types/schedule";
+
+const INTERVAL_OPTIONS = [
+  { value: 5, label: "Every 5 minutes" },
+  { value: 15, label: "Every 15 minutes" },
+  { value: 30, label: "Every 30 minutes" },
+  { value: 60, label: "Every hour" },
+  { value: 180, label: "Every 3 hours" },
+  { value: 360, label: "Every 6 hours" },
+  { value: 720, label: "Every 12 hours" },
+  { value: 1440, label: "Every day" },
+];
+
+function formatDate(dateString?: string) {
+  if (!dateString) return "—";
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function ScheduleForm({ schedule }: { schedule: SyncSchedule }) {
+  const [intervalMinutes, setIntervalMinutes] = useState(
+    schedule.intervalMinutes
+  );
+  const updateMutation = useUpdateSyncSchedule();
+  const { data: currentUser } = useCurrentUser();
+  const canEdit = hasRole(currentUser?.user, "admin");
+
+  // Keep a custom interval set through the API selectable
+  const options = INTERVAL_OPTIONS.some(
+    (option) => option.value === schedule.intervalMinutes
+  )
+    ? INTERVAL_OPTIONS
+    : [
+        ...INTERVAL_OPTIONS,
+        {
+          value: schedule.intervalMinutes,
+          label: `Every ${schedule.intervalMinutes} minutes`,
+        },
+      ];
+
+  return (
+    <div className="space-y-6">
+      {canEdit ? (
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Sync interval
+            <select
+              value={intervalMinutes}
+              onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white text-gray-900"
+            >
+              {options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => updateMutation.mutate({ intervalMinutes })}
+            disabled={
+              updateMutation.isPending ||
+              intervalMinutes === schedule.intervalMinutes
+            }
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save interval
+          </button>
+          <button
+            onClick={() =>
+              updateMutation.mutate({
+                intervalMinutes,
+                paused: !schedule.paused,
+              })
+            }
+            disabled={updateMutation.isPending}
+            className={`px-4 py-2 text-sm font-medium rounded-md disabled:opacity-50 disabled:cursor-not-allowed ${
+              schedule.paused
+                ? "text-white bg-blue-600 hover:bg-blue-700"
+                : "text-gray-700 bg-white border border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            {schedule.paused ? "Resume" : "Pause"}
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Only admins can change the schedule.
+        </p>
+      )}
+
+      <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+        <div>
+          <dt className="text-gray-500">Status</dt>
+          <dd className="mt-1">
+            <span
+              className={`px-2 py-1 text-xs font-medium rounded-full ${
+                schedule.paused
+                  ? "bg-gray-100 text-gray-800"
+                  : "bg-green-100 text-green-800"
+              }`}
+            >
+              {schedule.paused ? "Paused" : "Active"}
+            </span>
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Next run</dt>
+          <dd className="mt-1 text-gray-900">
+            {schedule.paused ? "—" : formatDate(schedule.nextRunAt)}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Last run</dt>
+          <dd className="mt-1 text-gray-900">
+            {formatDate(schedule.lastRunAt)}
+            {schedule.lastOutcome === "skipped" && (
+              <span className="ml-2 text-xs text-gray-500">
+                (skipped, a sync was already running)
+              </span>
+            )}
+          </dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
+
+export default function SyncScheduleSettings() {
+  const { data, isLoading, error } = useSyncSchedule();
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Automatic sync</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Runs the same incremental sync as the &quot;Sync from Shopify&quot;
+          button on a fixed interval.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <SpinnerIcon className="h-4 w-4 animate-spin" />
+          Loading schedule...
+        </div>
+      ) : error ? (
+        <div className="text-sm text-red-500">
+          Error loading schedule: {error.message}
+        </div>
+      ) : data ? (
+        <ScheduleForm
+          key={`${data.schedule.intervalMinutes}-${data.schedule.updatedAt}`}
+          schedule={data.schedule}
+        />
+      ) : null}
+    </div>
+  );
+}
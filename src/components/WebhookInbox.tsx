@@ -0,0 +1,320 @@
+"use client";
+
+import { useState } from "react";
+import {
+  useReplayWebhooks,
+  useWebhookInbox,
+  useWebhookInboxEntry,
+} from "@/hooks/useWebhookInbox";
+import { SpinnerIcon, SyncIcon } from "@/components/icons";
+import { WebhookInboxStatus } from "@/types/webhook";
+
+const STATUS_TABS: { value: WebhookInboxStatus | undefined; label: string }[] =
+  [
+    { value: "failed", label: "Failed" },
+    { value: "pending", label: "Pending" },
+    { value: "processed", label: "Processed" },
+    { value: undefined, label: "All" },
+  ];
+
+const STATUS_BADGES: Record<WebhookInboxStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  processing: "bg-blue-100 text-blue-800",
+  processed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const PAGE_SIZE = 20;
+
+function formatDate(dateString?: string) {
+  if (!dateString) return "—";
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function formatRawBody(rawBody: string) {
+  try {
+    return JSON.stringify(JSON.parse(rawBody), null, 2);
+  } catch {
+    return rawBody;
+  }
+}
+
+function WebhookDetail({ id, onClose }: { id: string; onClose: () => void }) {
+  const { data, isLoading, error } = useWebhookInboxEntry(id);
+  const replayMutation = useReplayWebhooks();
+  const entry = data?.entry;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Delivery details
+        </h2>
+        <div className="flex items-center gap-3">
+          {entry && entry.status !== "processing" && (
+            <button
+              onClick={() => replayMutation.mutate({ id })}
+              disabled={replayMutation.isPending}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <SyncIcon className="h-4 w-4" />
+              Replay
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <SpinnerIcon className="h-4 w-4 animate-spin" />
+          Loading delivery...
+        </div>
+      ) : error ? (
+        <div className="text-sm text-red-500">
+          Error loading delivery: {error.message}
+        </div>
+      ) : entry ? (
+        <>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+            <div>
+              <dt className="text-gray-500">Topic</dt>
+              <dd className="text-gray-900 font-medium">{entry.topic}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Webhook ID</dt>
+              <dd className="text-gray-900 break-all">
+                {entry.webhookId || "—"}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Received</dt>
+              <dd className="text-gray-900">{formatDate(entry.receivedAt)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Attempts</dt>
+              <dd className="text-gray-900">{entry.attempts}</dd>
+            </div>
+            {entry.lastError && (
+              <div className="sm:col-span-2">
+                <dt className="text-gray-500">Last error</dt>
+                <dd className="text-red-700 break-all">{entry.lastError}</dd>
+              </div>
+            )}
+          </dl>
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Headers</h3>
+            <pre className="text-xs bg-gray-50 border border-gray-200 rounded-md p-3 overflow-x-auto">
+              {JSON.stringify(entry.headers, null, 2)}
+            </pre>
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Raw body</h3>
+            <pre className="text-xs bg-gray-50 border border-gray-200 rounded-md p-3 overflow-x-auto max-h-96">
+              {formatRawBody(entry.rawBody)}
+            </pre>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+export default function WebhookInbox() {
+  const [status, setStatus] = useState<WebhookInboxStatus | undefined>(
+    "failed"
+  );
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const { data, isLoading, error } = useWebhookInbox(status, page, PAGE_SIZE);
+  const replayMutation = useReplayWebhooks();
+
+  const entries = data?.entries || [];
+  const pagination = data?.pagination || {
+    page: 1,
+    limit: PAGE_SIZE,
+    total: 0,
+    totalPages: 0,
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-6 border-b border-gray-200 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex gap-2">
+            {STATUS_TABS.map((tab) => (
+              <button
+                key={tab.label}
+                onClick={() => {
+                  setStatus(tab.value);
+                  setPage(1);
+                  setSelectedIds([]);
+                }}
+                className={`px-3 py-1.5 text-sm font-medium rounded-md ${
+                  status === tab.value
+                    ? "bg-blue-600 text-white"
+                    : "text-gray-700 bg-white border border-gray-300 hover:bg-gray-50"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                replayMutation.mutate({ ids: selectedIds });
+                setSelectedIds([]);
+              }}
+              disabled={selectedIds.length === 0 || replayMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Replay selected ({selectedIds.length})
+            </button>
+            <button
+              onClick={() => replayMutation.mutate({ status: "failed" })}
+              disabled={replayMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <SyncIcon className="h-4 w-4" />
+              Replay all failed
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="p-8 flex items-center justify-center gap-2 text-sm text-gray-500">
+            <SpinnerIcon className="h-4 w-4 animate-spin" />
+            Loading deliveries...
+          </div>
+        ) : error ? (
+          <div className="p-8 text-center text-red-500">
+            Error loading deliveries: {error.message}
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            No webhook deliveries{status ? ` with status "${status}"` : ""}.
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[900px]">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 w-10"></th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Topic
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Received
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Attempts
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Last error
+                    </th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {entries.map((entry) => (
+                    <tr key={entry._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <input
+                          type="checkbox"
+                          aria-label="Select delivery"
+                          checked={selectedIds.includes(entry._id!)}
+                          disabled={entry.status === "processing"}
+                          onChange={() => toggleSelected(entry._id!)}
+                        />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {entry.topic}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(entry.receivedAt)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${
+                            STATUS_BADGES[entry.status]
+                          }`}
+                        >
+                          {entry.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {entry.attempts}
+                      </td>
+                      <td
+                        className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate"
+                        title={entry.lastError}
+                      >
+                        {entry.lastError || "—"}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                        <button
+                          onClick={() => setOpenId(entry._id!)}
+                          className="text-blue-600 hover:text-blue-700"
+                        >
+                          View
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-200 flex flex-col sm:flex-row items-center justify-between gap-4">
+              <div className="text-sm text-gray-600">
+                {pagination.total} deliver
+                {pagination.total !== 1 ? "ies" : "y"}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page === 1}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pagination.totalPages}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {openId && <WebhookDetail id={openId} onClose={() => setOpenId(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { ApiKeyScope, ApiKeySummary } from "@/types/api-key";
+
+interface ApiKeysResponse {
+  apiKeys: ApiKeySummary[];
+}
+
+interface CreateApiKeyResponse {
+  apiKey: ApiKeySummary;
+  // Only returned once, when the key is created
+  key: string;
+}
+
+export function useApiKeys(enabled = true) {
+  return useQuery<ApiKeysResponse>({
+    queryKey: ["apiKeys"],
+    queryFn: async () => {
+      const response = await fetch("/api/api-keys");
+      if (!response.ok) {
+        throw new Error("Failed to fetch API keys");
+      }
+      return response.json();
+    },
+    enabled,
+  });
+}
+
+export function useCreateApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    CreateApiKeyResponse,
+    Error,
+    { name: string; scopes: ApiKeyScope[]; rateLimit?: number }
+  >({
+    mutationFn: async (input) => {
+      const response = await fetch("/api/api-keys", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create API key");
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["apiKeys"] });
+      toast.success("API key created");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create API key");
+    },
+  });
+}
+
+export function useRevokeApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ apiKey: ApiKeySummary }, Error, string>({
+    mutationFn: async (id) => {
+      const response = await fetch(`/api/api-keys/${id}`, {
+        method: "DELETE",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to revoke API key");
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["apiKeys"] });
+      toast.success("API key revoked");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to revoke API key");
+    },
+  });
+}
@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { UserSummary } from "@/types/user";
+
+interface CurrentUserResponse {
+  user: UserSummary | null;
+}
+
+export function useCurrentUser() {
+  return useQuery<CurrentUserResponse>({
+    queryKey: ["currentUser"],
+    queryFn: async () => {
+      const response = await fetch("/api/auth/me");
+      // Signed out or the session expired
+      if (response.status === 401) {
+        return { user: null };
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch current user");
+      }
+      return response.json();
+    },
+    staleTime: 5 * 60_000,
+  });
+}
+
+export function useLogin() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    { user: UserSummary },
+    Error,
+    { email: string; password: string }
+  >({
+    mutationFn: async (credentials) => {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(credentials),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to sign in");
+      }
+
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["currentUser"], { user: data.user });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to sign in");
+    },
+  });
+}
+
+export function useLogout() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, void>({
+    mutationFn: async () => {
+      const response = await fetch("/api/auth/logout", { method: "POST" });
+      if (!response.ok) {
+        throw new Error("Failed to sign out");
+      }
+    },
+    onSuccess: () => {
+      // Nothing cached should outlive the session
+      queryClient.clear();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to sign out");
+    },
+  });
+}
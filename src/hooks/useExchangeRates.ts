@@ -0,0 +1,91 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { ExchangeRate } from "@/types/exchange-rate";
+
+interface ExchangeRatesResponse {
+  // Currency every rate is relative to
+  base: string;
+  exchangeRates: ExchangeRate[];
+}
+
+export function useExchangeRates() {
+  return useQuery<ExchangeRatesResponse>({
+    queryKey: ["exchangeRates"],
+    queryFn: async () => {
+      const response = await fetch("/api/exchange-rates");
+      if (!response.ok) {
+        throw new Error("Failed to fetch exchange rates");
+      }
+      return response.json();
+    },
+  });
+}
+
+export function useSetExchangeRate() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    { exchangeRate: ExchangeRate },
+    Error,
+    { currency: string; rate: string }
+  >({
+    mutationFn: async ({ currency, rate }) => {
+      const response = await fetch(
+        `/api/exchange-rates/${encodeURIComponent(currency)}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ rate }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save exchange rate");
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["exchangeRates"] });
+      // Converted totals depend on the rates
+      queryClient.invalidateQueries({ queryKey: ["metrics"] });
+      toast.success("Exchange rate saved");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save exchange rate");
+    },
+  });
+}
+
+export function useDeleteExchangeRate() {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean }, Error, string>({
+    mutationFn: async (currency) => {
+      const response = await fetch(
+        `/api/exchange-rates/${encodeURIComponent(currency)}`,
+        { method: "DELETE" }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to remove exchange rate");
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["exchangeRates"] });
+      queryClient.invalidateQueries({ queryKey: ["metrics"] });
+      toast.success("Exchange rate removed");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to remove exchange rate");
+    },
+  });
+}
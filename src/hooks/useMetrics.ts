@@ -1,21 +1,49 @@
 import { useQuery } from "@tanstack/react-query";
-import { OrderMetrics } from "@/types/order";
+import { useCallback, useMemo } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  parseMetricsParams,
+  toMetricsSearchParams,
+} from "@/lib/metrics-query";
+import {
+  MetricsComparison,
+  MetricsGranularity,
+  MetricsParams,
+  MetricsSummary,
+  OrderMetrics,
+} from "@/types/order";
 
 interface MetricsResponse {
+  // Inclusive days the metrics cover
+  from: string;
+  to: string;
+  granularity: MetricsGranularity;
   metrics: OrderMetrics[];
-  summary: {
-    totalOrders: number;
-    totalRevenue: number;
-    totalShipping: number;
-    averageOrderValue: number;
+  // IANA timezone the days are bucketed in
+  timezone: string;
+  // Currency the amounts are reported in
+  currency: string;
+  // Currencies left out of the amounts for lack of an exchange rate
+  missingRates: string[];
+  summary: MetricsSummary;
+  // Only when a comparison was asked for
+  comparison?: {
+    compare: MetricsComparison;
+    from: string;
+    to: string;
+    summary: MetricsSummary;
+    // Percentage change per summary field, null when the earlier value is 0
+    changes: Record<keyof MetricsSummary, number | null>;
   };
 }
 
-export function useMetrics(days: number = 30) {
+// Without a currency, amounts are reported in the store's currency
+export function useMetrics(params: MetricsParams = {}) {
   return useQuery<MetricsResponse>({
-    queryKey: ["metrics", days],
+    queryKey: ["metrics", params],
     queryFn: async () => {
-      const response = await fetch(`/api/metrics?days=${days}`);
+      const searchParams = toMetricsSearchParams(params);
+      const response = await fetch(`/api/metrics?${searchParams}`);
       if (!response.ok) {
         throw new Error("Failed to fetch metrics");
       }
@@ -24,3 +52,33 @@ export function useMetrics(days: number = 30) {
   });
 }
 
+/**
+ * Read and update the dashboard's range, granularity, comparison and
+ * currency kept in the page URL
+ */
+export function useMetricsParams(): [
+  MetricsParams,
+  (updates: Partial<MetricsParams>) => void,
+] {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const params = useMemo(
+    () => parseMetricsParams(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+
+  const setParams = useCallback(
+    (updates: Partial<MetricsParams>) => {
+      const next = toMetricsSearchParams({ ...params, ...updates });
+      const query = next.toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [params, pathname, router]
+  );
+
+  return [params, setParams];
+}
@@ -1,11 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import toast from "react-hot-toast";
 import { Order } from "@/types/order";
+import { OrderEvent } from "@/types/order-event";
 
 interface OrderResponse {
   order: Order;
 }
 
+interface OrderEventsResponse {
+  events: OrderEvent[];
+}
+
 export function useOrder(id: string) {
   return useQuery<OrderResponse>({
     queryKey: ["order", id],
@@ -20,6 +25,20 @@ export function useOrder(id: string) {
   });
 }
 
+export function useOrderEvents(id: string) {
+  return useQuery<OrderEventsResponse>({
+    queryKey: ["orderEvents", id],
+    queryFn: async () => {
+      const response = await fetch(`/api/orders/${id}/events`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch order history");
+      }
+      return response.json();
+    },
+    enabled: !!id,
+  });
+}
+
 export function useResyncOrder() {
   const queryClient = useQueryClient();
 
@@ -45,6 +64,7 @@ export function useResyncOrder() {
       if (data.success) {
         // Invalidate queries to refresh data
         queryClient.invalidateQueries({ queryKey: ["order", orderId] });
+        queryClient.invalidateQueries({ queryKey: ["orderEvents", orderId] });
         queryClient.invalidateQueries({ queryKey: ["orders"] });
         queryClient.invalidateQueries({ queryKey: ["metrics"] });
         toast.success("Order synced successfully");
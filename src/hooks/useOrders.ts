@@ -1,40 +1,76 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import toast from "react-hot-toast";
-import { Order } from "@/types/order";
+import {
+  parseOrderListParams,
+  toOrderListSearchParams,
+} from "@/lib/order-query";
+import {
+  CursorPagination,
+  Order,
+  OrderListParams,
+  PagePagination,
+} from "@/types/order";
 
 interface OrdersResponse {
   orders: Order[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
+  pagination: PagePagination | CursorPagination;
 }
 
 interface SyncResponse {
   success: boolean;
-  synced?: number;
-  new?: number;
-  updated?: number;
   status?: string;
-  method?: "bulk" | "incremental";
-  operationId?: string;
-  isFirstSync?: boolean;
+  jobId?: string;
+  error?: string;
 }
 
 interface BulkStatusResponse {
-  status: "idle" | "pending" | "completed" | "failed" | "canceled";
+  status: "idle" | "pending" | "failed";
+  jobId?: string;
   operationId?: string;
+  method?: "bulk" | "incremental";
   synced?: number;
+  new?: number;
+  updated?: number;
+  error?: string;
+}
+
+function syncSuccessMessage(data: BulkStatusResponse) {
+  if (!data.synced || data.synced === 0) {
+    return "You're up to date. No new orders.";
+  }
+
+  // Ensure we have valid numbers (handle undefined/null)
+  const newCount = data.new ?? 0;
+  const updatedCount = data.updated ?? 0;
+
+  const parts: string[] = [];
+  if (newCount > 0) {
+    parts.push(`${newCount} new`);
+  }
+  if (updatedCount > 0) {
+    parts.push(`${updatedCount} updated`);
+  }
+
+  if (parts.length > 0) {
+    return `Successfully synced ${parts.join(" and ")} order${
+      data.synced !== 1 ? "s" : ""
+    } from Shopify`;
+  }
+
+  // Fallback to total count if new/updated not available or both are 0
+  return `Successfully synced ${data.synced} order${
+    data.synced !== 1 ? "s" : ""
+  } from Shopify`;
 }
 
-export function useOrders(page: number = 1, limit: number = 20) {
+export function useOrders(params: OrderListParams = {}) {
   return useQuery<OrdersResponse>({
-    queryKey: ["orders", page, limit],
+    queryKey: ["orders", params],
     queryFn: async () => {
-      const response = await fetch(`/api/orders?page=${page}&limit=${limit}`);
+      const query = toOrderListSearchParams(params).toString();
+      const response = await fetch(`/api/orders?${query}`);
       if (!response.ok) {
         throw new Error("Failed to fetch orders");
       }
@@ -43,6 +79,37 @@ export function useOrders(page: number = 1, limit: number = 20) {
   });
 }
 
+/**
+ * Read and update the order list params kept in the page URL, so a filtered
+ * view can be shared as a link
+ */
+export function useOrderListParams(): [
+  OrderListParams,
+  (updates: Partial<OrderListParams>) => void,
+] {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const params = useMemo(
+    () => parseOrderListParams(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+
+  const setParams = useCallback(
+    (updates: Partial<OrderListParams>) => {
+      const next = toOrderListSearchParams({ ...params, ...updates });
+      const query = next.toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [params, pathname, router]
+  );
+
+  return [params, setParams];
+}
+
 export function useBulkSyncStatus() {
   const queryClient = useQueryClient();
   const BULK_TOAST_ID = "bulk-sync-status";
@@ -81,14 +148,16 @@ export function useBulkSyncStatus() {
 
   // Watch for status changes and handle notifications
   useEffect(() => {
-    const status = query.data?.status;
-    const synced = query.data?.synced;
-    const operationId = query.data?.operationId;
+    const data = query.data;
+    const status = data?.status;
+    const synced = data?.synced;
+    const jobId = data?.jobId;
+    const operationId = data?.operationId;
 
-    if (!status) return;
+    if (!data || !status) return;
 
     // Create a unique key for this state to track if we've already processed it
-    const stateKey = `${status}-${operationId || ""}-${synced ?? ""}`;
+    const stateKey = `${status}-${jobId || ""}-${operationId || ""}`;
 
     // Skip if we've already processed this exact state
     if (lastProcessedStateRef.current === stateKey) {
@@ -101,9 +170,12 @@ export function useBulkSyncStatus() {
 
     if (status === "pending") {
       // Show loading toast for pending status (updates existing toast if present)
-      toast.loading("Bulk sync in progress. This may take a few minutes.", {
-        id: BULK_TOAST_ID,
-      });
+      toast.loading(
+        operationId
+          ? "Bulk sync in progress. This may take a few minutes."
+          : "Syncing orders from Shopify...",
+        { id: BULK_TOAST_ID }
+      );
       lastProcessedStateRef.current = stateKey;
       previousStatusRef.current = status;
     } else if (status === "idle" && synced !== undefined && synced > 0) {
@@ -117,8 +189,7 @@ export function useBulkSyncStatus() {
         queryClient.invalidateQueries({ queryKey: ["orders"] });
         queryClient.invalidateQueries({ queryKey: ["metrics"] });
 
-        const message = `Successfully synced ${synced} orders from Shopify`;
-        toast.success(message, { id: BULK_TOAST_ID });
+        toast.success(syncSuccessMessage(data), { id: BULK_TOAST_ID });
       } else {
         // Just refresh data without showing toast (page reload scenario)
         queryClient.invalidateQueries({ queryKey: ["orders"] });
@@ -143,10 +214,10 @@ export function useBulkSyncStatus() {
       }
       lastProcessedStateRef.current = stateKey;
       previousStatusRef.current = status;
-    } else if (status === "failed" || status === "canceled") {
+    } else if (status === "failed") {
       // Show error toast
       isFinalizingRef.current = false;
-      toast.error(`Bulk sync ${status}. Please try again.`, {
+      toast.error(data.error || "Sync failed. Please try again.", {
         id: BULK_TOAST_ID,
       });
       // Reset status after showing error
@@ -160,12 +231,7 @@ export function useBulkSyncStatus() {
       lastProcessedStateRef.current = stateKey;
       previousStatusRef.current = status;
     }
-  }, [
-    query.data?.status,
-    query.data?.synced,
-    query.data?.operationId,
-    queryClient,
-  ]);
+  }, [query.data, queryClient]);
 
   return {
     ...query,
@@ -177,35 +243,6 @@ export function useSyncOrders() {
   const queryClient = useQueryClient();
   const BULK_TOAST_ID = "bulk-sync-status";
 
-  const successMessage = (data: SyncResponse) => {
-    if (!data.synced || data.synced === 0) {
-      return "You're up to date. No new orders.";
-    }
-
-    // Ensure we have valid numbers (handle undefined/null)
-    const newCount = data.new ?? 0;
-    const updatedCount = data.updated ?? 0;
-
-    const parts: string[] = [];
-    if (newCount > 0) {
-      parts.push(`${newCount} new`);
-    }
-    if (updatedCount > 0) {
-      parts.push(`${updatedCount} updated`);
-    }
-
-    if (parts.length > 0) {
-      return `Successfully synced ${parts.join(" and ")} order${
-        data.synced !== 1 ? "s" : ""
-      } from Shopify`;
-    }
-
-    // Fallback to total count if new/updated not available or both are 0
-    return `Successfully synced ${data.synced} order${
-      data.synced !== 1 ? "s" : ""
-    } from Shopify`;
-  };
-
   return useMutation<SyncResponse, Error>({
     mutationFn: async () => {
       const response = await fetch("/api/orders", {
@@ -235,19 +272,13 @@ export function useSyncOrders() {
       return data as SyncResponse;
     },
     onSuccess: (data) => {
-      if (data.status === "pending") {
-        // Bulk sync started - invalidate status query to start polling
+      if (data.status === "pending" && data.success) {
+        // Sync job queued - invalidate status query to start polling
         queryClient.invalidateQueries({ queryKey: ["bulkSyncStatus"] });
-        toast.loading("Bulk sync started. This may take a few minutes.", {
+        toast.loading("Syncing orders from Shopify...", {
           id: BULK_TOAST_ID,
         });
-        return;
       }
-
-      // Incremental sync completed immediately
-      queryClient.invalidateQueries({ queryKey: ["orders"] });
-      queryClient.invalidateQueries({ queryKey: ["metrics"] });
-      toast.success(successMessage(data));
     },
     onError: (error) => {
       toast.error(error.message || "Failed to sync orders");
@@ -0,0 +1,37 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ShopSummary } from "@/types/shop";
+
+// Read by the API routes to pick the shop (see resolveRequestShop)
+const SHOP_COOKIE = "shop";
+const SHOP_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+interface ShopsResponse {
+  shops: ShopSummary[];
+  currentShopId: string | null;
+}
+
+export function useShops() {
+  return useQuery<ShopsResponse>({
+    queryKey: ["shops"],
+    queryFn: async () => {
+      const response = await fetch("/api/shops");
+      if (!response.ok) {
+        throw new Error("Failed to fetch shops");
+      }
+      return response.json();
+    },
+  });
+}
+
+/**
+ * Switch the store that the orders list, detail and metrics are scoped to
+ */
+export function useSwitchShop() {
+  const queryClient = useQueryClient();
+
+  return (shopId: string) => {
+    document.cookie = `${SHOP_COOKIE}=${encodeURIComponent(shopId)}; path=/; max-age=${SHOP_COOKIE_MAX_AGE}; samesite=lax`;
+    // Everything cached so far belongs to the previous store
+    queryClient.resetQueries();
+  };
+}
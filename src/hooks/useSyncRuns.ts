@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  SyncRun,
+  SyncRunMethod,
+  SyncRunSummary,
+  SyncRunTrigger,
+} from "@/types/sync-run";
+
+interface SyncRunsResponse {
+  runs: SyncRunSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface SyncRunFilters {
+  method?: SyncRunMethod;
+  trigger?: SyncRunTrigger;
+}
+
+export function useSyncRuns(
+  filters: SyncRunFilters,
+  page: number = 1,
+  limit: number = 20
+) {
+  return useQuery<SyncRunsResponse>({
+    queryKey: ["syncRuns", filters, page, limit],
+    queryFn: async () => {
+      const searchParams = new URLSearchParams({
+        page: String(page),
+        limit: String(limit),
+      });
+      if (filters.method) searchParams.set("method", filters.method);
+      if (filters.trigger) searchParams.set("trigger", filters.trigger);
+      const response = await fetch(`/api/sync/runs?${searchParams}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch sync runs");
+      }
+      return response.json();
+    },
+    // Keep running syncs up to date
+    refetchInterval: 30_000,
+  });
+}
+
+export function useSyncRun(id: string | null) {
+  return useQuery<{ run: SyncRun }>({
+    queryKey: ["syncRun", id],
+    queryFn: async () => {
+      const response = await fetch(`/api/sync/runs/${id}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch sync run");
+      }
+      return response.json();
+    },
+    enabled: !!id,
+  });
+}
@@ -0,0 +1,61 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { SyncSchedule } from "@/types/schedule";
+
+interface SyncScheduleResponse {
+  schedule: SyncSchedule;
+}
+
+export function useSyncSchedule() {
+  return useQuery<SyncScheduleResponse>({
+    queryKey: ["syncSchedule"],
+    queryFn: async () => {
+      const response = await fetch("/api/settings/sync-schedule");
+      if (!response.ok) {
+        throw new Error("Failed to fetch sync schedule");
+      }
+      return response.json();
+    },
+    // Keep last/next run times current while the page is open
+    refetchInterval: 30_000,
+  });
+}
+
+export function useUpdateSyncSchedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    SyncScheduleResponse,
+    Error,
+    { intervalMinutes?: number; paused?: boolean }
+  >({
+    mutationFn: async (update) => {
+      const response = await fetch("/api/settings/sync-schedule", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(update),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update sync schedule");
+      }
+
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["syncSchedule"], data);
+      toast.success(
+        data.schedule.paused
+          ? "Automatic sync paused"
+          : `Automatic sync every ${data.schedule.intervalMinutes} minutes`
+      );
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update sync schedule");
+    },
+  });
+}
@@ -0,0 +1,103 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import {
+  WebhookInboxEntry,
+  WebhookInboxStatus,
+  WebhookInboxSummary,
+} from "@/types/webhook";
+
+interface WebhookInboxResponse {
+  entries: WebhookInboxSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+interface ReplayResponse {
+  success: boolean;
+  replayed: number;
+}
+
+export function useWebhookInbox(
+  status: WebhookInboxStatus | undefined,
+  page: number = 1,
+  limit: number = 20
+) {
+  return useQuery<WebhookInboxResponse>({
+    queryKey: ["webhookInbox", status, page, limit],
+    queryFn: async () => {
+      const searchParams = new URLSearchParams({
+        page: String(page),
+        limit: String(limit),
+      });
+      if (status) searchParams.set("status", status);
+      const response = await fetch(`/api/admin/webhooks?${searchParams}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch webhook deliveries");
+      }
+      return response.json();
+    },
+  });
+}
+
+export function useWebhookInboxEntry(id: string | null) {
+  return useQuery<{ entry: WebhookInboxEntry }>({
+    queryKey: ["webhookInboxEntry", id],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/webhooks/${id}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch webhook delivery");
+      }
+      return response.json();
+    },
+    enabled: !!id,
+  });
+}
+
+export function useReplayWebhooks() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    ReplayResponse,
+    Error,
+    { id: string } | { ids: string[] } | { status: "failed" }
+  >({
+    mutationFn: async (selection) => {
+      const response =
+        "id" in selection
+          ? await fetch(`/api/admin/webhooks/${selection.id}/replay`, {
+              method: "POST",
+            })
+          : await fetch("/api/admin/webhooks/replay", {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+              },
+              body: JSON.stringify(selection),
+            });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to replay webhooks");
+      }
+
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["webhookInbox"] });
+      queryClient.invalidateQueries({ queryKey: ["webhookInboxEntry"] });
+      toast.success(
+        `Queued ${data.replayed} deliver${
+          data.replayed !== 1 ? "ies" : "y"
+        } for replay`
+      );
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to replay webhooks");
+    },
+  });
+}
@@ -0,0 +1,25 @@
+export async function register() {
+  // Background processing only runs in the Node.js server runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Every shop's credentials are stored encrypted
+    const { assertTokenEncryptionConfigured } = await import(
+      "@/lib/token-encryption"
+    );
+    assertTokenEncryptionConfigured();
+
+    // Migrations run in the background; data is usable before they finish
+    const { runMigrations } = await import("@/lib/migrations");
+    runMigrations().catch((error) => {
+      console.error("Error running migrations:", error);
+    });
+
+    const { startWebhookInboxWorker } = await import("@/lib/webhooks");
+    startWebhookInboxWorker();
+
+    const { startJobWorker } = await import("@/lib/job-worker");
+    startJobWorker();
+
+    const { startScheduler } = await import("@/lib/scheduler");
+    startScheduler();
+  }
+}
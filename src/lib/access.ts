@@ -0,0 +1,25 @@
+import { UserRole } from "@/types/user";
+
+/**
+ * Access rules shared by the proxy, API routes and the UI. Kept free of
+ * server-only imports so client components can use them too.
+ */
+
+export const SESSION_COOKIE = "session";
+
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+/**
+ * Whether a user's role includes `role`; each role can do everything the
+ * roles below it can
+ */
+export function hasRole(
+  user: { role: UserRole } | null | undefined,
+  role: UserRole
+): boolean {
+  return !!user && ROLE_RANK[user.role] >= ROLE_RANK[role];
+}
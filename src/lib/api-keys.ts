@@ -0,0 +1,167 @@
+import { createHash, randomBytes } from "crypto";
+import { ObjectId } from "mongodb";
+import { getDb } from "./mongodb";
+import { consumeRateLimit, RateLimitResult } from "./rate-limit";
+import { ApiKey, ApiKeyScope, ApiKeySummary } from "@/types/api-key";
+
+type ApiKeyDocument = Omit<ApiKey, "_id"> & { _id?: ObjectId };
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  "orders:read",
+  "metrics:read",
+  "sync:write",
+];
+export const DEFAULT_API_KEY_RATE_LIMIT = 60;
+export const MAX_API_KEY_RATE_LIMIT = 6000;
+
+const KEY_PREFIX = "ppk_";
+const DISPLAY_PREFIX_LENGTH = 12;
+const RATE_LIMIT_WINDOW_MS = 60_000;
+// lastUsedAt is only rewritten once a minute per key
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+let apiKeyIndexesReady: Promise<string> | null = null;
+
+async function getApiKeysCollection() {
+  const db = await getDb();
+  const apiKeysCollection = db.collection<ApiKeyDocument>("api_keys");
+
+  if (!apiKeyIndexesReady) {
+    apiKeyIndexesReady = apiKeysCollection
+      .createIndex({ keyHash: 1 }, { unique: true })
+      .catch((error) => {
+        apiKeyIndexesReady = null;
+        throw error;
+      });
+  }
+  await apiKeyIndexesReady;
+
+  return apiKeysCollection;
+}
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function toApiKeySummary(apiKey: ApiKeyDocument): ApiKeySummary {
+  return {
+    _id: apiKey._id?.toString(),
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    rateLimit: apiKey.rateLimit,
+    shopId: apiKey.shopId,
+    createdBy: apiKey.createdBy,
+    createdAt: apiKey.createdAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt,
+  };
+}
+
+/**
+ * Create an API key. The key itself is only returned here; just its hash is
+ * stored.
+ */
+export async function createApiKey(input: {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimit?: number;
+  shopId: string;
+  createdBy: string;
+}): Promise<{ apiKey: ApiKeySummary; key: string }> {
+  const apiKeysCollection = await getApiKeysCollection();
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const apiKey: ApiKeyDocument = {
+    name: input.name,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashKey(key),
+    scopes: input.scopes,
+    rateLimit: input.rateLimit ?? DEFAULT_API_KEY_RATE_LIMIT,
+    shopId: input.shopId,
+    createdBy: input.createdBy,
+    createdAt: new Date().toISOString(),
+  };
+
+  const result = await apiKeysCollection.insertOne(apiKey);
+  return {
+    apiKey: toApiKeySummary({ ...apiKey, _id: result.insertedId }),
+    key,
+  };
+}
+
+/**
+ * List a shop's API keys, newest first, including revoked ones
+ */
+export async function listApiKeys(shopId: string): Promise<ApiKeySummary[]> {
+  const apiKeysCollection = await getApiKeysCollection();
+  const apiKeys = await apiKeysCollection
+    .find({ shopId })
+    .sort({ createdAt: -1 })
+    .toArray();
+  return apiKeys.map(toApiKeySummary);
+}
+
+/**
+ * Revoke one of a shop's keys. Returns null if it doesn't exist; revoking
+ * twice keeps the first revocation time.
+ */
+export async function revokeApiKey(
+  shopId: string,
+  id: string
+): Promise<ApiKeySummary | null> {
+  if (!ObjectId.isValid(id)) return null;
+  const apiKeysCollection = await getApiKeysCollection();
+  const _id = new ObjectId(id);
+
+  await apiKeysCollection.updateOne(
+    { _id, shopId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date().toISOString() } }
+  );
+  const apiKey = await apiKeysCollection.findOne({ _id, shopId });
+  return apiKey ? toApiKeySummary(apiKey) : null;
+}
+
+/**
+ * Look up an active key from a bearer token and record that it was used.
+ * Returns null for unknown or revoked keys.
+ */
+export async function authenticateApiKey(
+  key: string
+): Promise<ApiKeySummary | null> {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+  const apiKeysCollection = await getApiKeysCollection();
+  const apiKey = await apiKeysCollection.findOne({
+    keyHash: hashKey(key),
+    revokedAt: { $exists: false },
+  });
+  if (!apiKey) return null;
+
+  const now = new Date();
+  const staleBefore = new Date(
+    now.getTime() - LAST_USED_RESOLUTION_MS
+  ).toISOString();
+  await apiKeysCollection.updateOne(
+    {
+      _id: apiKey._id,
+      $or: [
+        { lastUsedAt: { $exists: false } },
+        { lastUsedAt: { $lt: staleBefore } },
+      ],
+    },
+    { $set: { lastUsedAt: now.toISOString() } }
+  );
+  return toApiKeySummary({ ...apiKey, lastUsedAt: now.toISOString() });
+}
+
+/**
+ * Count a request against the key's per-minute limit
+ */
+export async function consumeApiKeyRateLimit(
+  apiKey: ApiKeySummary
+): Promise<RateLimitResult> {
+  return consumeRateLimit(
+    `api-key:${apiKey._id}`,
+    apiKey.rateLimit,
+    RATE_LIMIT_WINDOW_MS
+  );
+}
@@ -0,0 +1,51 @@
+import { ObjectId } from "mongodb";
+import { getDb } from "./mongodb";
+import { getShopId } from "./shop-context";
+import { AuditLogEntry } from "@/types/audit";
+
+type AuditLogDocument = Omit<AuditLogEntry, "_id"> & { _id?: ObjectId };
+
+/**
+ * Record a deletion or privacy action. Entries reference customers and orders
+ * by id only and never hold the personal data itself.
+ */
+export async function recordAuditEvent(
+  event: Omit<AuditLogEntry, "_id" | "at">
+): Promise<void> {
+  const db = await getDb();
+  const auditCollection = db.collection<AuditLogDocument>("audit_log");
+
+  await auditCollection.insertOne({
+    ...event,
+    at: new Date().toISOString(),
+  });
+}
+
+/**
+ * List the current shop's audit log entries, newest first
+ */
+export async function listAuditEvents(page: number = 1, limit: number = 50) {
+  const db = await getDb();
+  const auditCollection = db.collection<AuditLogDocument>("audit_log");
+
+  const filter = { shopDomain: getShopId() };
+  const total = await auditCollection.countDocuments(filter);
+  const entries = await auditCollection
+    .find(filter)
+    .sort({ at: -1 })
+    .skip((page - 1) * limit)
+    .limit(limit)
+    .toArray();
+
+  return {
+    entries: entries.map(
+      (entry): AuditLogEntry => ({ ...entry, _id: entry._id?.toString() })
+    ),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
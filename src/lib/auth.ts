@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hasRole, SESSION_COOKIE } from "./access";
+import { authenticateApiKey, consumeApiKeyRateLimit } from "./api-keys";
+import { getSessionUser, SESSION_TTL_SECONDS } from "./sessions";
+import { ApiKeyScope, ApiKeySummary } from "@/types/api-key";
+import { UserRole, UserSummary } from "@/types/user";
+
+/**
+ * Who may call a route: signed-in users with at least a role, and also API
+ * keys with `scope` when one is given
+ */
+export type RouteAccess = UserRole | { role: UserRole; scope?: ApiKeyScope };
+
+/**
+ * The user signed in with the request's session cookie
+ */
+export async function getRequestUser(
+  request: NextRequest
+): Promise<UserSummary | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? getSessionUser(token) : null;
+}
+
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: SESSION_TTL_SECONDS,
+    path: "/",
+  });
+}
+
+/**
+ * Wrap a route handler so it only runs for signed-in users with at least
+ * `role`. Responds 401 without a valid session and 403 for a lower role.
+ */
+export function withRole<C>(
+  role: UserRole,
+  handler: (
+    request: NextRequest,
+    context: C,
+    user: UserSummary
+  ) => Promise<Response>
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    let user: UserSummary | null;
+    try {
+      user = await getRequestUser(request);
+    } catch (error) {
+      console.error("Error checking session:", error);
+      return NextResponse.json(
+        { error: "Failed to check session" },
+        { status: 500 }
+      );
+    }
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+    if (!hasRole(user, role)) {
+      return NextResponse.json(
+        { error: "You don't have permission to do this" },
+        { status: 403 }
+      );
+    }
+    return handler(request, context, user);
+  };
+}
+
+/**
+ * The API key from an `Authorization: Bearer <key>` header
+ */
+export function getBearerToken(request: NextRequest): string | null {
+  const match = request.headers
+    .get("authorization")
+    ?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Like withRole, but also lets in requests carrying an API key with `scope`,
+ * which is passed to the handler. Key requests are rate limited per key and
+ * answer 429 once the key's per-minute limit is used up.
+ */
+export function withRoleOrApiKey<C>(
+  role: UserRole,
+  scope: ApiKeyScope,
+  handler: (
+    request: NextRequest,
+    context: C,
+    apiKey?: ApiKeySummary
+  ) => Promise<Response>
+) {
+  const withSession = withRole(role, (request: NextRequest, context: C) =>
+    handler(request, context)
+  );
+
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const token = getBearerToken(request);
+    if (!token) {
+      return withSession(request, context);
+    }
+
+    let apiKey: ApiKeySummary | null;
+    try {
+      apiKey = await authenticateApiKey(token);
+    } catch (error) {
+      console.error("Error checking API key:", error);
+      return NextResponse.json(
+        { error: "Failed to check API key" },
+        { status: 500 }
+      );
+    }
+
+    if (!apiKey) {
+      return NextResponse.json({ error: "Invalid API key" }, { status: 401 });
+    }
+    if (!apiKey.scopes.includes(scope)) {
+      return NextResponse.json(
+        { error: `API key is missing the ${scope} scope` },
+        { status: 403 }
+      );
+    }
+
+    let rateLimit: Awaited<ReturnType<typeof consumeApiKeyRateLimit>>;
+    try {
+      rateLimit = await consumeApiKeyRateLimit(apiKey);
+    } catch (error) {
+      console.error("Error checking API key rate limit:", error);
+      return NextResponse.json(
+        { error: "Failed to check API key" },
+        { status: 500 }
+      );
+    }
+
+    const headers = {
+      "X-RateLimit-Limit": String(rateLimit.limit),
+      "X-RateLimit-Remaining": String(rateLimit.remaining),
+      "X-RateLimit-Reset": String(
+        Math.ceil(rateLimit.resetAt.getTime() / 1000)
+      ),
+    };
+    if (!rateLimit.allowed) {
+      const retryAfter = Math.ceil(
+        (rateLimit.resetAt.getTime() - Date.now()) / 1000
+      );
+      return NextResponse.json(
+        { error: "API key rate limit exceeded" },
+        {
+          status: 429,
+          headers: { ...headers, "Retry-After": String(retryAfter) },
+        }
+      );
+    }
+
+    const response = await handler(request, context, apiKey);
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
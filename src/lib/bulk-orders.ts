@@ -0,0 +1,140 @@
+import {
+  normalizeGraphQLLineItem,
+  normalizeGraphQLOrder,
+  parseShopifyId,
+} from "./order-mapping";
+import { Order, OrderLineItem } from "@/types/order";
+
+/**
+ * A JSONL row from a bulk operation. Nested connections (e.g. lineItems) are
+ * written as their own rows after the parent, linked by __parentId.
+ */
+interface BulkRow {
+  __typename?: string;
+  __parentId?: string;
+  id?: string;
+  [key: string]: unknown;
+}
+
+interface PendingOrder {
+  row: BulkRow;
+  lineItems: BulkRow[];
+}
+
+export interface BulkOrderHandlers {
+  // Receives reassembled orders in batches of at most batchSize
+  onOrders: (orders: Order[]) => Promise<void>;
+  // Receives line items whose order was already handed to onOrders
+  onLateLineItems: (
+    lineItemsByOrder: Map<string, OrderLineItem[]>
+  ) => Promise<void>;
+}
+
+export const BULK_ORDER_BATCH_SIZE = 500;
+
+/**
+ * Parse a JSONL stream line by line without buffering the whole body. Throws
+ * on a line that isn't valid JSON rather than skipping it, so the caller
+ * fails and retries instead of dropping the orders it held.
+ */
+export async function* readJsonLines<T = unknown>(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let lineNumber = 0;
+
+  const parseLine = (line: string): T | undefined => {
+    lineNumber++;
+    if (!line.trim()) return undefined;
+    try {
+      return JSON.parse(line) as T;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid bulk data on line ${lineNumber}: ${reason}`);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const parsed = parseLine(line);
+        if (parsed !== undefined) yield parsed;
+      }
+    }
+
+    buffer += decoder.decode();
+    const parsed = parseLine(buffer);
+    if (parsed !== undefined) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function buildOrder({ row, lineItems }: PendingOrder): Order {
+  return normalizeGraphQLOrder({
+    ...row,
+    lineItems: { edges: lineItems.map((node) => ({ node })) },
+  });
+}
+
+/**
+ * Reattach child rows to their orders and hand orders over in batches, so
+ * memory stays bounded however large the bulk file is. Returns the number of
+ * orders read.
+ */
+export async function reassembleBulkOrders(
+  rows: AsyncIterable<BulkRow>,
+  handlers: BulkOrderHandlers,
+  batchSize: number = BULK_ORDER_BATCH_SIZE
+): Promise<number> {
+  const pending = new Map<string, PendingOrder>();
+  const lateLineItems = new Map<string, OrderLineItem[]>();
+  let orderCount = 0;
+
+  const flush = async () => {
+    if (pending.size > 0) {
+      const orders = Array.from(pending.values(), buildOrder);
+      pending.clear();
+      await handlers.onOrders(orders);
+    }
+    if (lateLineItems.size > 0) {
+      const lineItems = new Map(lateLineItems);
+      lateLineItems.clear();
+      await handlers.onLateLineItems(lineItems);
+    }
+  };
+
+  for await (const row of rows) {
+    if (row.__typename === "Order" && row.id) {
+      // Children follow their parent, so a new order means the earlier ones
+      // are usually complete and can be written
+      if (pending.size >= batchSize) {
+        await flush();
+      }
+      pending.set(row.id, { row, lineItems: [] });
+      orderCount++;
+    } else if (row.__typename === "LineItem" && row.__parentId) {
+      const parent = pending.get(row.__parentId);
+      if (parent) {
+        parent.lineItems.push(row);
+      } else {
+        const orderId = parseShopifyId(row.__parentId);
+        const lineItems = lateLineItems.get(orderId) || [];
+        lineItems.push(normalizeGraphQLLineItem(row));
+        lateLineItems.set(orderId, lineItems);
+      }
+    }
+  }
+
+  await flush();
+  return orderCount;
+}
@@ -0,0 +1,859 @@
+import { randomUUID } from "crypto";
+import {
+  AnyBulkWriteOperation,
+  Decimal128,
+  Document,
+  MongoBulkWriteError,
+  MongoServerError,
+} from "mongodb";
+import { enqueueJob } from "./jobs";
+import { acquireLock, releaseLock } from "./locks";
+import { DEFAULT_CURRENCY } from "./money";
+import { getDb } from "./mongodb";
+import { getShopId, runWithShop } from "./shop-context";
+import { getShopTimezone, listShops } from "./shops";
+import { MetricsGranularity, OrderMetrics } from "@/types/order";
+
+/**
+ * Pre-aggregated daily metrics.
+ *
+ * `daily_metrics` holds one document per shop, day (in the shop's timezone)
+ * and currency. `order_metrics` records what each order currently adds to
+ * it, so when an order changes, is deleted or moves to another day, its old
+ * values are subtracted before the new ones are added. Swapping an order's
+ * entry is a compare-and-set, so concurrent writers (a sync and a webhook)
+ * apply each change exactly once.
+ *
+ * The swap also records the change as pending on the entry. The daily
+ * documents remember which changes they already applied, so a pending change
+ * can be applied again safely: by the next write to the same order, or by
+ * finishStaleDailyMetricsChanges if the process died half way.
+ *
+ * A rebuild recomputes everything from the orders, so it holds the shop's
+ * metrics lock while it runs. Writers add the orders they changed to the
+ * shop's dirty list and apply the list whenever they get the lock, so
+ * orders written during a rebuild are applied on top of it afterwards.
+ */
+
+interface OrderContribution {
+  day: string;
+  currency: string;
+  orderCount: number;
+  grossRevenue: Decimal128;
+  tax: Decimal128;
+  shipping: Decimal128;
+  discounts: Decimal128;
+  refunds: Decimal128;
+  itemsSold: number;
+}
+
+interface PendingChange {
+  id: string;
+  previous: OrderContribution | null;
+  next: OrderContribution | null;
+  since: string;
+}
+
+interface OrderMetricsEntry {
+  // `<shopId>:<orderId>`
+  _id: string;
+  shopId: string;
+  orderId: string;
+  // Null only while the change removing the order is pending
+  contribution: OrderContribution | null;
+  pending?: PendingChange;
+}
+
+interface DirtyOrdersDocument {
+  // The shop's id
+  _id: string;
+  orderIds: string[];
+}
+
+interface DailyMetricsDocument {
+  // `<shopId>:<day>:<currency>`
+  _id: string;
+  shopId: string;
+  day: string;
+  currency: string;
+  orderCount: number;
+  grossRevenue: Decimal128;
+  tax: Decimal128;
+  shipping: Decimal128;
+  discounts: Decimal128;
+  refunds: Decimal128;
+  itemsSold: number;
+  // Changes already applied, kept for a day in case a slow writer retries
+  appliedChanges?: { id: string; at: string }[];
+  updatedAt: string;
+}
+
+/**
+ * Metrics for a date range per day, week or month, totalled in the database
+ */
+export interface MetricsAggregate {
+  periods: OrderMetrics[];
+  totalOrders: number;
+  totalRevenue: number;
+  totalShipping: number;
+  averageOrderValue: number;
+}
+
+const AMOUNT_FIELDS = [
+  "grossRevenue",
+  "tax",
+  "shipping",
+  "discounts",
+  "refunds",
+] as const;
+const COUNT_FIELDS = ["orderCount", "itemsSold"] as const;
+
+const DECIMAL_ZERO = Decimal128.fromString("0");
+const DUPLICATE_KEY_ERROR = 11000;
+// Attempts to swap an order's entry when other writers keep changing it
+const MAX_SWAP_ATTEMPTS = 5;
+// Pending changes older than this are assumed to belong to a dead process
+const STALE_CHANGE_MS = 60_000;
+// How long daily documents remember applied changes. Older pending changes
+// can't be applied safely and are left to a rebuild.
+const APPLIED_CHANGE_TTL_MS = 24 * 60 * 60_000;
+// How long a writer or a rebuild may hold the shop's metrics lock. A rebuild
+// of a large shop can take a while; writers only apply their dirty orders.
+const WRITER_LOCK_TTL_MS = 60_000;
+const REBUILD_LOCK_TTL_MS = 60 * 60_000;
+
+let dailyMetricsIndexesReady: Promise<string[]> | null = null;
+
+async function getCollections() {
+  const db = await getDb();
+  const dailyMetricsCollection =
+    db.collection<DailyMetricsDocument>("daily_metrics");
+  const entriesCollection = db.collection<OrderMetricsEntry>("order_metrics");
+  const dirtyOrdersCollection = db.collection<DirtyOrdersDocument>(
+    "daily_metrics_dirty"
+  );
+
+  if (!dailyMetricsIndexesReady) {
+    dailyMetricsIndexesReady = Promise.all([
+      dailyMetricsCollection.createIndex({ shopId: 1, day: 1 }),
+      entriesCollection.createIndex({ shopId: 1 }),
+      entriesCollection.createIndex(
+        { "pending.since": 1 },
+        { partialFilterExpression: { pending: { $exists: true } } }
+      ),
+    ]).catch((error) => {
+      dailyMetricsIndexesReady = null;
+      throw error;
+    });
+  }
+  await dailyMetricsIndexesReady;
+
+  return {
+    db,
+    dailyMetricsCollection,
+    entriesCollection,
+    dirtyOrdersCollection,
+  };
+}
+
+// Amounts are Decimal128, or strings in orders stored before the money
+// migration; missing or malformed ones count as zero
+function toDecimal(field: string) {
+  return {
+    $convert: {
+      input: field,
+      to: "decimal",
+      onError: DECIMAL_ZERO,
+      onNull: DECIMAL_ZERO,
+    },
+  };
+}
+
+/**
+ * Stages turning order documents into `{ orderId, deleted, contribution }`.
+ * The incremental update and the rebuild share them so both count an order
+ * the same way.
+ */
+function buildContributionStages(timeZone: string): Document[] {
+  return [
+    {
+      $project: {
+        _id: 0,
+        orderId: "$id",
+        deleted: { $ne: [{ $type: "$deletedAt" }, "missing"] },
+        contribution: {
+          day: {
+            $dateToString: {
+              format: "%Y-%m-%d",
+              date: {
+                $dateFromString: {
+                  dateString: "$created_at",
+                  onError: null,
+                  onNull: null,
+                },
+              },
+              timezone: timeZone,
+            },
+          },
+          currency: { $ifNull: ["$currency", DEFAULT_CURRENCY] },
+          orderCount: { $literal: 1 },
+          grossRevenue: toDecimal("$total_price"),
+          tax: toDecimal("$total_tax"),
+          shipping: toDecimal("$total_shipping_price_set.shop_money.amount"),
+          discounts: toDecimal("$total_discounts"),
+          refunds: toDecimal("$total_refunded"),
+          itemsSold: { $sum: "$line_items.quantity" },
+        },
+      },
+    },
+  ];
+}
+
+/**
+ * Stages converting `{ date, currency, orderCount, revenue, shippingCost }`
+ * rows to the reporting currency and adding them up per day. `rates` are
+ * units per USD (see exchange-rates.ts); rows in other currencies are left
+ * out.
+ */
+export function buildCurrencyConversionStages(
+  rates: Record<string, string>,
+  reportingCurrency: string
+): Document[] {
+  const reportingRate = Decimal128.fromString(rates[reportingCurrency]);
+  const currencies = Object.keys(rates);
+
+  return [
+    { $match: { currency: { $in: currencies } } },
+    {
+      $addFields: {
+        // Units of the reporting currency per unit of the row's currency
+        factor: {
+          $switch: {
+            branches: currencies.map((currency) => ({
+              case: { $eq: ["$currency", currency] },
+              then: {
+                $divide: [
+                  reportingRate,
+                  Decimal128.fromString(rates[currency]),
+                ],
+              },
+            })),
+          },
+        },
+      },
+    },
+    {
+      $group: {
+        _id: "$date",
+        orderCount: { $sum: "$orderCount" },
+        revenue: { $sum: { $multiply: ["$revenue", "$factor"] } },
+        shippingCost: { $sum: { $multiply: ["$shippingCost", "$factor"] } },
+      },
+    },
+    { $addFields: { date: "$_id" } },
+  ];
+}
+
+/**
+ * Stages adding up daily rows into weeks (starting Monday) or months, keyed
+ * by the period's first day
+ */
+function buildPeriodStages(granularity: MetricsGranularity): Document[] {
+  if (granularity === "day") return [];
+  return [
+    {
+      $group: {
+        _id: {
+          $dateToString: {
+            format: "%Y-%m-%d",
+            date: {
+              $dateTrunc: {
+                date: { $dateFromString: { dateString: "$date" } },
+                unit: granularity,
+                ...(granularity === "week" && { startOfWeek: "monday" }),
+              },
+            },
+          },
+        },
+        orderCount: { $sum: "$orderCount" },
+        revenue: { $sum: "$revenue" },
+        shippingCost: { $sum: "$shippingCost" },
+      },
+    },
+    { $addFields: { date: "$_id" } },
+  ];
+}
+
+/**
+ * Stages totalling `{ date, orderCount, revenue, shippingCost }` rows (one
+ * per day, decimal amounts) into a single MetricsAggregate with one entry
+ * per `granularity` period
+ */
+export function buildMetricsTotalsStages(
+  granularity: MetricsGranularity = "day"
+): Document[] {
+  return [
+    ...buildPeriodStages(granularity),
+    { $sort: { date: 1 } },
+    {
+      $group: {
+        _id: null,
+        periods: {
+          $push: {
+            date: "$date",
+            orderCount: "$orderCount",
+            revenue: { $toDouble: "$revenue" },
+            shippingCost: { $toDouble: "$shippingCost" },
+          },
+        },
+        totalOrders: { $sum: "$orderCount" },
+        totalRevenue: { $sum: "$revenue" },
+        totalShipping: { $sum: "$shippingCost" },
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        periods: 1,
+        totalOrders: 1,
+        totalRevenue: { $toDouble: "$totalRevenue" },
+        totalShipping: { $toDouble: "$totalShipping" },
+        averageOrderValue: {
+          $toDouble: { $divide: ["$totalRevenue", "$totalOrders"] },
+        },
+      },
+    },
+  ];
+}
+
+function getDailyMetricsId(shopId: string, contribution: OrderContribution) {
+  return `${shopId}:${contribution.day}:${contribution.currency}`;
+}
+
+function negate(amount: Decimal128): Decimal128 {
+  const value = amount.toString();
+  return Decimal128.fromString(
+    value.startsWith("-") ? value.slice(1) : `-${value}`
+  );
+}
+
+function isSameContribution(
+  a: OrderContribution | null,
+  b: OrderContribution | null
+): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  if (error instanceof MongoBulkWriteError) {
+    const writeErrors = error.writeErrors;
+    return (Array.isArray(writeErrors) ? writeErrors : [writeErrors]).every(
+      (writeError) => writeError.code === DUPLICATE_KEY_ERROR
+    );
+  }
+  return (
+    error instanceof MongoServerError && error.code === DUPLICATE_KEY_ERROR
+  );
+}
+
+/**
+ * Move an order's daily metrics from `previous` to `next`. Each daily
+ * document applies a change once, however often this runs for it.
+ */
+async function applyContributionChange(
+  shopId: string,
+  change: PendingChange
+): Promise<void> {
+  const { dailyMetricsCollection } = await getCollections();
+  const { id, previous, next } = change;
+  const updatedAt = new Date().toISOString();
+  const appliedChanges = { id, at: change.since };
+  const operations: AnyBulkWriteOperation<DailyMetricsDocument>[] = [];
+
+  if (previous) {
+    const $inc: Record<string, number | Decimal128> = {};
+    for (const field of AMOUNT_FIELDS) $inc[field] = negate(previous[field]);
+    for (const field of COUNT_FIELDS) $inc[field] = -previous[field];
+    operations.push({
+      updateOne: {
+        filter: {
+          _id: getDailyMetricsId(shopId, previous),
+          "appliedChanges.id": { $ne: id },
+        },
+        update: { $inc, $set: { updatedAt }, $push: { appliedChanges } },
+      },
+    });
+  }
+
+  if (next) {
+    const $inc: Record<string, number | Decimal128> = {};
+    for (const field of [...AMOUNT_FIELDS, ...COUNT_FIELDS]) {
+      $inc[field] = next[field];
+    }
+    operations.push({
+      updateOne: {
+        filter: {
+          _id: getDailyMetricsId(shopId, next),
+          "appliedChanges.id": { $ne: id },
+        },
+        update: {
+          $inc,
+          $set: { updatedAt },
+          $push: { appliedChanges },
+          $setOnInsert: { shopId, day: next.day, currency: next.currency },
+        },
+        upsert: true,
+      },
+    });
+  }
+
+  if (operations.length === 0) return;
+  try {
+    await dailyMetricsCollection.bulkWrite(operations, { ordered: false });
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) throw error;
+    // Either another writer created the document at the same moment, or it
+    // exists with the change already applied. Once it exists, a duplicate
+    // key can only mean the latter.
+    try {
+      await dailyMetricsCollection.bulkWrite(operations, { ordered: false });
+    } catch (retryError) {
+      if (!isDuplicateKeyError(retryError)) throw retryError;
+    }
+  }
+}
+
+/**
+ * Apply an entry's pending change to the daily documents, then clear it.
+ * Safe to run again, or at the same time as another writer, after a crash
+ * at any point.
+ */
+async function finishPendingChange(entry: OrderMetricsEntry): Promise<void> {
+  const change = entry.pending;
+  if (!change) return;
+  const { dailyMetricsCollection, entriesCollection } = await getCollections();
+  const forgetBefore = new Date(
+    Date.now() - APPLIED_CHANGE_TTL_MS
+  ).toISOString();
+  if (change.since < forgetBefore) {
+    console.error(
+      `Daily metrics change ${change.id} for order ${entry.orderId} of ${entry.shopId} is too old to apply; waiting for a rebuild`
+    );
+    return;
+  }
+
+  await applyContributionChange(entry.shopId, change);
+
+  if (change.next) {
+    await entriesCollection.updateOne(
+      { _id: entry._id, "pending.id": change.id },
+      { $unset: { pending: "" } }
+    );
+  } else {
+    await entriesCollection.deleteOne({
+      _id: entry._id,
+      "pending.id": change.id,
+    });
+  }
+
+  const dailyIds = [change.previous, change.next]
+    .filter((contribution) => contribution !== null)
+    .map((contribution) => getDailyMetricsId(entry.shopId, contribution));
+  await dailyMetricsCollection.updateMany(
+    { _id: { $in: dailyIds } },
+    { $pull: { appliedChanges: { at: { $lt: forgetBefore } } } }
+  );
+}
+
+/**
+ * Replace an order's entry if it still holds `previous` and has no pending
+ * change, recording the change as pending. Returns null when another writer
+ * changed it first.
+ */
+async function swapOrderEntry(
+  shopId: string,
+  orderId: string,
+  previous: OrderContribution | null,
+  next: OrderContribution | null,
+  exists: boolean
+): Promise<OrderMetricsEntry | null> {
+  const { entriesCollection } = await getCollections();
+  const entry: OrderMetricsEntry = {
+    _id: `${shopId}:${orderId}`,
+    shopId,
+    orderId,
+    contribution: next,
+    pending: {
+      id: randomUUID(),
+      previous,
+      next,
+      since: new Date().toISOString(),
+    },
+  };
+
+  if (!exists) {
+    try {
+      await entriesCollection.insertOne(entry);
+      return entry;
+    } catch (error) {
+      if (isDuplicateKeyError(error)) return null;
+      throw error;
+    }
+  }
+
+  const result = await entriesCollection.updateOne(
+    { _id: entry._id, contribution: previous, pending: { $exists: false } },
+    { $set: { contribution: next, pending: entry.pending } }
+  );
+  return result.matchedCount === 1 ? entry : null;
+}
+
+async function updateOrderDailyMetrics(
+  shopId: string,
+  orderId: string,
+  next: OrderContribution | null,
+  stored: OrderMetricsEntry | null
+): Promise<void> {
+  const { entriesCollection } = await getCollections();
+  let entry = stored;
+
+  for (let attempt = 0; attempt < MAX_SWAP_ATTEMPTS; attempt++) {
+    // Finish an earlier change first, e.g. one left by a crashed process
+    if (entry?.pending) {
+      await finishPendingChange(entry);
+    } else {
+      const previous = entry?.contribution ?? null;
+      if (isSameContribution(previous, next)) {
+        return;
+      }
+      const swapped = await swapOrderEntry(
+        shopId,
+        orderId,
+        previous,
+        next,
+        entry !== null
+      );
+      if (swapped) {
+        await finishPendingChange(swapped);
+        return;
+      }
+    }
+
+    entry = await entriesCollection.findOne({ _id: `${shopId}:${orderId}` });
+  }
+
+  console.error(
+    `Gave up updating daily metrics for order ${orderId} of ${shopId}; rebuild the rollup to repair it`
+  );
+}
+
+/**
+ * Finish changes left pending by processes that died between updating an
+ * order's entry and the daily documents, across all shops
+ */
+export async function finishStaleDailyMetricsChanges(): Promise<{
+  finished: number;
+  rebuilds: number;
+}> {
+  const { entriesCollection } = await getCollections();
+  const staleBefore = new Date(Date.now() - STALE_CHANGE_MS).toISOString();
+
+  let finished = 0;
+  const forgetBefore = new Date(
+    Date.now() - APPLIED_CHANGE_TTL_MS
+  ).toISOString();
+  const cursor = entriesCollection.find({
+    "pending.since": { $gte: forgetBefore, $lt: staleBefore },
+  });
+  for await (const entry of cursor) {
+    await finishPendingChange(entry);
+    finished++;
+  }
+
+  // Too old to apply safely, so rebuild those shops instead
+  const expiredShopIds = await entriesCollection.distinct("shopId", {
+    "pending.since": { $lt: forgetBefore },
+  });
+  for (const shopId of expiredShopIds) {
+    await enqueueRebuild(shopId);
+  }
+
+  return { finished, rebuilds: expiredShopIds.length };
+}
+
+function getMetricsLockName(shopId: string): string {
+  return `daily-metrics:${shopId}`;
+}
+
+/**
+ * Bring the daily metrics in line with the stored copies of some orders
+ */
+async function applyOrders(
+  shopId: string,
+  orderIds: string[],
+  timeZone: string
+): Promise<void> {
+  const { db, entriesCollection } = await getCollections();
+
+  const rows = await db
+    .collection("orders")
+    .aggregate<{
+      orderId: string;
+      deleted: boolean;
+      contribution: OrderContribution;
+    }>([
+      { $match: { shopId, id: { $in: orderIds } } },
+      ...buildContributionStages(timeZone),
+    ])
+    .toArray();
+  // Deleted orders, purged orders and orders without a valid date count
+  // for nothing
+  const nextByOrder = new Map(
+    rows
+      .filter((row) => !row.deleted && row.contribution.day)
+      .map((row) => [row.orderId, row.contribution])
+  );
+
+  const entries = await entriesCollection
+    .find({ _id: { $in: orderIds.map((id) => `${shopId}:${id}`) } })
+    .toArray();
+  const storedByOrder = new Map(
+    entries.map((entry) => [entry.orderId, entry])
+  );
+
+  await Promise.all(
+    orderIds.map((orderId) =>
+      updateOrderDailyMetrics(
+        shopId,
+        orderId,
+        nextByOrder.get(orderId) ?? null,
+        storedByOrder.get(orderId) ?? null
+      )
+    )
+  );
+}
+
+/**
+ * Apply the shop's dirty orders while holding its metrics lock. If someone
+ * else holds it, they apply them after releasing it.
+ */
+async function applyDirtyOrders(
+  shopId: string,
+  timeZone: string
+): Promise<void> {
+  const { dirtyOrdersCollection } = await getCollections();
+  const lockName = getMetricsLockName(shopId);
+  const owner = randomUUID();
+
+  while (await acquireLock(lockName, owner, WRITER_LOCK_TTL_MS)) {
+    try {
+      const dirty = await dirtyOrdersCollection.findOne({ _id: shopId });
+      if (dirty && dirty.orderIds.length > 0) {
+        await applyOrders(shopId, dirty.orderIds, timeZone);
+        await dirtyOrdersCollection.updateOne(
+          { _id: shopId },
+          { $pullAll: { orderIds: dirty.orderIds } }
+        );
+      }
+    } finally {
+      await releaseLock(lockName, owner);
+    }
+    // Orders added while the lock was held are ours to apply
+    const remaining = await dirtyOrdersCollection.countDocuments({
+      _id: shopId,
+      "orderIds.0": { $exists: true },
+    });
+    if (remaining === 0) return;
+  }
+}
+
+/**
+ * Bring the daily metrics in line with the stored copies of some orders of
+ * the current shop. Call after every write that inserts, changes or removes
+ * orders, with the shop's timezone resolved before the write: once the
+ * write is committed, a retry of it is skipped and can't update the metrics.
+ */
+export async function updateDailyMetrics(
+  orderIds: string[],
+  timeZone: string
+): Promise<void> {
+  if (orderIds.length === 0) return;
+  const { dirtyOrdersCollection } = await getCollections();
+  const shopId = getShopId();
+
+  await dirtyOrdersCollection.updateOne(
+    { _id: shopId },
+    { $addToSet: { orderIds: { $each: Array.from(new Set(orderIds)) } } },
+    { upsert: true }
+  );
+  await applyDirtyOrders(shopId, timeZone);
+}
+
+/**
+ * Recompute the current shop's daily metrics from its orders, e.g. after a
+ * backfill or a timezone change. Orders written meanwhile are applied on top
+ * once it is done.
+ */
+export async function rebuildDailyMetrics(): Promise<{
+  orders: number;
+  days: number;
+}> {
+  const { db, dailyMetricsCollection, entriesCollection } =
+    await getCollections();
+  const shopId = getShopId();
+  const timeZone = await getShopTimezone();
+  const lockName = getMetricsLockName(shopId);
+  const owner = randomUUID();
+
+  // Waits for a writer applying its orders; the job is retried
+  if (!(await acquireLock(lockName, owner, REBUILD_LOCK_TTL_MS))) {
+    throw new Error(`Daily metrics of ${shopId} are being updated`);
+  }
+  try {
+    await entriesCollection.deleteMany({ shopId });
+    await dailyMetricsCollection.deleteMany({ shopId });
+
+    await db
+      .collection("orders")
+      .aggregate([
+        { $match: { shopId, deletedAt: { $exists: false } } },
+        ...buildContributionStages(timeZone),
+        { $match: { "contribution.day": { $ne: null } } },
+        {
+          $project: {
+            _id: { $concat: [shopId, ":", "$orderId"] },
+            shopId: { $literal: shopId },
+            orderId: 1,
+            contribution: 1,
+          },
+        },
+        { $merge: { into: "order_metrics", whenMatched: "replace" } },
+      ])
+      .toArray();
+
+    const sums: Document = {};
+    for (const field of [...AMOUNT_FIELDS, ...COUNT_FIELDS]) {
+      sums[field] = { $sum: `$contribution.${field}` };
+    }
+    await entriesCollection
+      .aggregate([
+        { $match: { shopId } },
+        {
+          $group: {
+            _id: {
+              day: "$contribution.day",
+              currency: "$contribution.currency",
+            },
+            ...sums,
+          },
+        },
+        {
+          $addFields: {
+            _id: { $concat: [shopId, ":", "$_id.day", ":", "$_id.currency"] },
+            shopId: { $literal: shopId },
+            day: "$_id.day",
+            currency: "$_id.currency",
+            updatedAt: new Date().toISOString(),
+          },
+        },
+        { $merge: { into: "daily_metrics", whenMatched: "replace" } },
+      ])
+      .toArray();
+  } finally {
+    await releaseLock(lockName, owner);
+  }
+  await applyDirtyOrders(shopId, timeZone);
+
+  return {
+    orders: await entriesCollection.countDocuments({ shopId }),
+    days: await dailyMetricsCollection.countDocuments({ shopId }),
+  };
+}
+
+/**
+ * Queue a rebuild of the current shop's daily metrics. Only one rebuild per
+ * shop is queued or running at a time.
+ */
+export async function enqueueDailyMetricsRebuild() {
+  return enqueueRebuild(getShopId());
+}
+
+function enqueueRebuild(shopId: string) {
+  return enqueueJob(
+    "metrics.rebuild",
+    {},
+    { dedupeKey: `metrics.rebuild:${shopId}`, shopId }
+  );
+}
+
+/**
+ * Queue a rebuild for every shop, so installs from before the rollup have
+ * their existing orders counted
+ */
+export async function enqueueDailyMetricsRebuildForAllShops(): Promise<{
+  queued: number;
+}> {
+  let queued = 0;
+  for (const shop of await listShops()) {
+    const { created } = await runWithShop(shop, enqueueDailyMetricsRebuild);
+    if (created) queued++;
+  }
+  return { queued };
+}
+
+/**
+ * Currencies the current shop has daily metrics in from `firstDay` to
+ * `lastDay` (inclusive)
+ */
+export async function listDailyMetricsCurrencies(
+  firstDay: string,
+  lastDay: string
+): Promise<string[]> {
+  const { dailyMetricsCollection } = await getCollections();
+  return dailyMetricsCollection.distinct("currency", {
+    shopId: getShopId(),
+    day: { $gte: firstDay, $lte: lastDay },
+    orderCount: { $gt: 0 },
+  });
+}
+
+/**
+ * The current shop's daily metrics from `firstDay` to `lastDay` (inclusive),
+ * converted to the reporting currency with `rates` and grouped by
+ * `granularity`
+ */
+export async function aggregateDailyMetrics(
+  firstDay: string,
+  lastDay: string,
+  rates: Record<string, string>,
+  reportingCurrency: string,
+  granularity: MetricsGranularity = "day"
+): Promise<MetricsAggregate | undefined> {
+  const { dailyMetricsCollection } = await getCollections();
+
+  const [aggregate] = await dailyMetricsCollection
+    .aggregate<MetricsAggregate>([
+      {
+        $match: {
+          shopId: getShopId(),
+          day: { $gte: firstDay, $lte: lastDay },
+          // Days whose orders all moved elsewhere
+          orderCount: { $gt: 0 },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          date: "$day",
+          currency: 1,
+          orderCount: 1,
+          revenue: "$grossRevenue",
+          shippingCost: "$shipping",
+        },
+      },
+      ...buildCurrencyConversionStages(rates, reportingCurrency),
+      ...buildMetricsTotalsStages(granularity),
+    ])
+    .toArray();
+  return aggregate;
+}
@@ -0,0 +1,123 @@
+import { Collection, MongoServerError } from "mongodb";
+import { getDb } from "./mongodb";
+import seedRates from "@/data/exchange-rates.json";
+import { ExchangeRate } from "@/types/exchange-rate";
+
+// Every rate is the number of units of a currency per 1 USD
+export const EXCHANGE_RATE_BASE = "USD";
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+let exchangeRatesReady: Promise<void> | null = null;
+
+/**
+ * Fill an empty table from src/data/exchange-rates.json, so a fresh install
+ * can report in any of the common currencies
+ */
+async function seedExchangeRates(
+  collection: Collection<ExchangeRate>
+): Promise<void> {
+  if ((await collection.estimatedDocumentCount()) > 0) return;
+
+  const now = new Date().toISOString();
+  try {
+    await collection.insertMany(
+      Object.entries(seedRates as Record<string, string>).map(
+        ([currency, rate]) => ({ _id: currency, rate, updatedAt: now })
+      ),
+      { ordered: false }
+    );
+  } catch (error) {
+    // Another instance seeded it first
+    if (
+      !(error instanceof MongoServerError) ||
+      error.code !== DUPLICATE_KEY_ERROR
+    ) {
+      throw error;
+    }
+  }
+}
+
+async function getExchangeRatesCollection() {
+  const db = await getDb();
+  const collection = db.collection<ExchangeRate>("exchange_rates");
+
+  if (!exchangeRatesReady) {
+    exchangeRatesReady = seedExchangeRates(collection).catch((error) => {
+      exchangeRatesReady = null;
+      throw error;
+    });
+  }
+  await exchangeRatesReady;
+
+  return collection;
+}
+
+export function isCurrencyCode(value: string): boolean {
+  return /^[A-Z]{3}$/.test(value);
+}
+
+export async function listExchangeRates(): Promise<ExchangeRate[]> {
+  const collection = await getExchangeRatesCollection();
+  return collection.find().sort({ _id: 1 }).toArray();
+}
+
+/**
+ * Add or change the rate of a currency
+ */
+export async function setExchangeRate(
+  currency: string,
+  rate: string,
+  updatedBy: string
+): Promise<ExchangeRate> {
+  const collection = await getExchangeRatesCollection();
+  const exchangeRate = {
+    _id: currency,
+    rate,
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+  };
+  await collection.replaceOne({ _id: currency }, exchangeRate, {
+    upsert: true,
+  });
+  return exchangeRate;
+}
+
+export async function deleteExchangeRate(currency: string): Promise<boolean> {
+  const collection = await getExchangeRatesCollection();
+  const result = await collection.deleteOne({ _id: currency });
+  return result.deletedCount > 0;
+}
+
+/**
+ * The rates needed to convert amounts in `currencies` to `reportingCurrency`,
+ * keyed by currency. Currencies without a rate are listed in `missing`; if
+ * the reporting currency itself has none, only its own amounts convert.
+ */
+export async function getConversionRates(
+  currencies: string[],
+  reportingCurrency: string
+): Promise<{ rates: Record<string, string>; missing: string[] }> {
+  const collection = await getExchangeRatesCollection();
+  const known = await collection
+    .find({ _id: { $in: [...currencies, reportingCurrency] } })
+    .toArray();
+  const rateByCurrency = new Map(known.map((r) => [r._id, r.rate]));
+
+  const rates: Record<string, string> = {};
+  const missing: string[] = [];
+  const reportingRate = rateByCurrency.get(reportingCurrency);
+  for (const currency of currencies) {
+    const rate = rateByCurrency.get(currency);
+    if (currency === reportingCurrency) {
+      rates[currency] = reportingRate ?? "1";
+    } else if (rate && reportingRate) {
+      rates[currency] = rate;
+    } else {
+      missing.push(currency);
+    }
+  }
+  rates[reportingCurrency] = reportingRate ?? "1";
+
+  return { rates, missing };
+}
@@ -0,0 +1,24 @@
+import { rebuildDailyMetrics } from "./daily-metrics";
+import { JobOutcome, runBulkFinalizeJob, runOrdersSyncJob } from "./sync";
+import { Job, JobType } from "@/types/job";
+
+export type JobHandler = (job: Job) => Promise<JobOutcome>;
+
+const handlers = new Map<JobType, JobHandler>();
+
+/**
+ * Register the handler that runs jobs of a type
+ */
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+export function getJobHandler(type: JobType): JobHandler | undefined {
+  return handlers.get(type);
+}
+
+registerJobHandler("orders.sync", runOrdersSyncJob);
+registerJobHandler("orders.bulk", runBulkFinalizeJob);
+registerJobHandler("metrics.rebuild", async () => ({
+  result: await rebuildDailyMetrics(),
+}));
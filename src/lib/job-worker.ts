@@ -0,0 +1,105 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { getJobHandler, JobHandler } from "./job-handlers";
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  heartbeatJob,
+  JOB_LEASE_MS,
+  rescheduleJob,
+} from "./jobs";
+import { runWithShop } from "./shop-context";
+import { getShop } from "./shops";
+import { Job } from "@/types/job";
+
+const JOB_POLL_INTERVAL_MS = 5_000;
+const JOB_HEARTBEAT_INTERVAL_MS = JOB_LEASE_MS / 4;
+const JOB_BATCH_SIZE = 10;
+
+const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+// Jobs queued for a shop run in that shop's context
+async function runHandler(handler: JobHandler, job: Job) {
+  if (!job.shopId) {
+    return handler(job);
+  }
+  const shop = await getShop(job.shopId);
+  if (!shop) {
+    throw new Error(`Shop ${job.shopId} not found`);
+  }
+  return runWithShop(shop, () => handler(job));
+}
+
+async function runJob(job: Job): Promise<void> {
+  const handler = getJobHandler(job.type);
+
+  // Keep the lease alive while the handler runs
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job._id!, workerId).catch((error) => {
+      console.error(`Error extending lease for job ${job._id}:`, error);
+    });
+  }, JOB_HEARTBEAT_INTERVAL_MS);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job type ${job.type}`);
+    }
+    const outcome = await runHandler(handler, job);
+    if ("rescheduleInMs" in outcome) {
+      await rescheduleJob(job._id!, workerId, outcome.rescheduleInMs);
+    } else {
+      await completeJob(job._id!, workerId, outcome.result);
+    }
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(`Error running job ${job._id} (${job.type}):`, error);
+    await failJob(job, workerId, errorMessage);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+let isProcessingJobs = false;
+
+/**
+ * Run due jobs one after another until none are left (or `limit` ran)
+ */
+export async function processJobs(
+  limit = JOB_BATCH_SIZE
+): Promise<{ ran: number }> {
+  // Avoid overlapping runs within the same process
+  if (isProcessingJobs) {
+    return { ran: 0 };
+  }
+  isProcessingJobs = true;
+
+  let ran = 0;
+  try {
+    for (; ran < limit; ran++) {
+      const job = await claimNextJob(workerId);
+      if (!job) break;
+      await runJob(job);
+    }
+  } finally {
+    isProcessingJobs = false;
+  }
+
+  return { ran };
+}
+
+let jobWorkerTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Poll for due jobs in the background. Leases make it safe to run a worker
+ * in every server instance.
+ */
+export function startJobWorker(): void {
+  if (jobWorkerTimer) return;
+  jobWorkerTimer = setInterval(() => {
+    processJobs().catch((error) => {
+      console.error("Error running job worker:", error);
+    });
+  }, JOB_POLL_INTERVAL_MS);
+}
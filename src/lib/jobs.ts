@@ -0,0 +1,277 @@
+import { MongoServerError, ObjectId } from "mongodb";
+import { getDb } from "./mongodb";
+import { Job, JobType } from "@/types/job";
+
+/**
+ * Queued and running jobs carry `activeKey` (their dedupeKey). A partial
+ * unique index on it means at most one active job per key, across instances.
+ */
+type JobDocument = Omit<Job, "_id"> & { _id?: ObjectId; activeKey?: string };
+
+export const JOB_LEASE_MS = 2 * 60_000;
+const JOB_BASE_BACKOFF_MS = 30_000;
+const JOB_MAX_BACKOFF_MS = 30 * 60_000;
+const DUPLICATE_KEY_ERROR = 11000;
+
+let jobIndexesReady: Promise<string[]> | null = null;
+
+async function getJobsCollection() {
+  const db = await getDb();
+  const jobsCollection = db.collection<JobDocument>("jobs");
+
+  if (!jobIndexesReady) {
+    jobIndexesReady = Promise.all([
+      jobsCollection.createIndex(
+        { activeKey: 1 },
+        {
+          unique: true,
+          partialFilterExpression: { activeKey: { $exists: true } },
+        }
+      ),
+      jobsCollection.createIndex({ status: 1, runAt: 1 }),
+      jobsCollection.createIndex({ shopId: 1, type: 1, createdAt: -1 }),
+    ]).catch((error) => {
+      jobIndexesReady = null;
+      throw error;
+    });
+  }
+  await jobIndexesReady;
+
+  return jobsCollection;
+}
+
+function serializeJob(job: JobDocument): Job {
+  const serialized: Job & { activeKey?: string } = {
+    ...job,
+    _id: job._id?.toString(),
+  };
+  delete serialized.activeKey;
+  return serialized;
+}
+
+/**
+ * Queue a job. With a dedupeKey, returns the already queued or running job
+ * for that key instead of adding another one.
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown> = {},
+  options: {
+    dedupeKey?: string;
+    runAt?: Date;
+    maxAttempts?: number;
+    shopId?: string;
+  } = {}
+): Promise<{ job: Job; created: boolean }> {
+  const jobsCollection = await getJobsCollection();
+  const now = new Date().toISOString();
+
+  const job: JobDocument = {
+    type,
+    payload,
+    shopId: options.shopId,
+    status: "queued",
+    dedupeKey: options.dedupeKey,
+    activeKey: options.dedupeKey,
+    attempts: 0,
+    maxAttempts: options.maxAttempts ?? 3,
+    runAt: options.runAt?.toISOString() || now,
+    createdAt: now,
+  };
+  if (!options.dedupeKey) {
+    delete job.dedupeKey;
+    delete job.activeKey;
+  }
+  if (!options.shopId) {
+    delete job.shopId;
+  }
+
+  try {
+    const result = await jobsCollection.insertOne(job);
+    return {
+      job: serializeJob({ ...job, _id: result.insertedId }),
+      created: true,
+    };
+  } catch (error) {
+    if (
+      error instanceof MongoServerError &&
+      error.code === DUPLICATE_KEY_ERROR
+    ) {
+      const existing = await jobsCollection.findOne({
+        activeKey: options.dedupeKey,
+      });
+      if (existing) {
+        return { job: serializeJob(existing), created: false };
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lease the next due job. Running jobs whose lease expired (the worker died
+ * or stopped heartbeating) are picked up again.
+ */
+export async function claimNextJob(workerId: string): Promise<Job | null> {
+  const jobsCollection = await getJobsCollection();
+  const now = new Date();
+
+  const job = await jobsCollection.findOneAndUpdate(
+    {
+      $or: [
+        { status: "queued", runAt: { $lte: now.toISOString() } },
+        { status: "running", leaseExpiresAt: { $lt: now.toISOString() } },
+      ],
+    },
+    {
+      $set: {
+        status: "running",
+        lockedBy: workerId,
+        leaseExpiresAt: new Date(now.getTime() + JOB_LEASE_MS).toISOString(),
+        heartbeatAt: now.toISOString(),
+        startedAt: now.toISOString(),
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAt: 1 }, returnDocument: "after" }
+  );
+
+  return job ? serializeJob(job) : null;
+}
+
+/**
+ * Extend a running job's lease. Returns false if the lease was lost to
+ * another worker.
+ */
+export async function heartbeatJob(
+  id: string,
+  workerId: string
+): Promise<boolean> {
+  const jobsCollection = await getJobsCollection();
+  const now = new Date();
+
+  const result = await jobsCollection.updateOne(
+    { _id: new ObjectId(id), status: "running", lockedBy: workerId },
+    {
+      $set: {
+        heartbeatAt: now.toISOString(),
+        leaseExpiresAt: new Date(now.getTime() + JOB_LEASE_MS).toISOString(),
+      },
+    }
+  );
+  return result.matchedCount > 0;
+}
+
+export async function completeJob(
+  id: string,
+  workerId: string,
+  result: Record<string, unknown> = {}
+): Promise<void> {
+  const jobsCollection = await getJobsCollection();
+  await jobsCollection.updateOne(
+    { _id: new ObjectId(id), lockedBy: workerId },
+    {
+      $set: {
+        status: "completed",
+        result,
+        finishedAt: new Date().toISOString(),
+      },
+      $unset: {
+        activeKey: "",
+        lockedBy: "",
+        leaseExpiresAt: "",
+        lastError: "",
+      },
+    }
+  );
+}
+
+/**
+ * Put a running job back in the queue without counting the attempt, e.g.
+ * while waiting on a Shopify bulk operation
+ */
+export async function rescheduleJob(
+  id: string,
+  workerId: string,
+  delayMs: number
+): Promise<void> {
+  const jobsCollection = await getJobsCollection();
+  await jobsCollection.updateOne(
+    { _id: new ObjectId(id), lockedBy: workerId },
+    {
+      $set: {
+        status: "queued",
+        runAt: new Date(Date.now() + delayMs).toISOString(),
+      },
+      $inc: { attempts: -1 },
+      $unset: { lockedBy: "", leaseExpiresAt: "" },
+    }
+  );
+}
+
+// Exponential backoff: 30s, 1m, 2m, ... capped at 30m
+function getBackoffMs(attempts: number): number {
+  return Math.min(
+    JOB_BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0),
+    JOB_MAX_BACKOFF_MS
+  );
+}
+
+/**
+ * Record a failed attempt, retrying with backoff until maxAttempts
+ */
+export async function failJob(
+  job: Job,
+  workerId: string,
+  errorMessage: string
+): Promise<void> {
+  const jobsCollection = await getJobsCollection();
+  const isExhausted = job.attempts >= job.maxAttempts;
+
+  await jobsCollection.updateOne(
+    { _id: new ObjectId(job._id), lockedBy: workerId },
+    isExhausted
+      ? {
+          $set: {
+            status: "failed",
+            lastError: errorMessage,
+            finishedAt: new Date().toISOString(),
+          },
+          $unset: { activeKey: "", lockedBy: "", leaseExpiresAt: "" },
+        }
+      : {
+          $set: {
+            status: "queued",
+            lastError: errorMessage,
+            runAt: new Date(
+              Date.now() + getBackoffMs(job.attempts)
+            ).toISOString(),
+          },
+          $unset: { lockedBy: "", leaseExpiresAt: "" },
+        }
+  );
+}
+
+export async function getJob(shopId: string, id: string): Promise<Job | null> {
+  if (!ObjectId.isValid(id)) return null;
+  const jobsCollection = await getJobsCollection();
+  const job = await jobsCollection.findOne({ _id: new ObjectId(id), shopId });
+  return job ? serializeJob(job) : null;
+}
+
+/**
+ * Get a shop's most recent jobs of the given types, newest first
+ */
+export async function getLatestJobs(
+  shopId: string,
+  types: JobType[],
+  limit: number = 1
+): Promise<Job[]> {
+  const jobsCollection = await getJobsCollection();
+  const jobs = await jobsCollection
+    .find({ shopId, type: { $in: types } })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
+  return jobs.map(serializeJob);
+}
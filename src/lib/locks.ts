@@ -0,0 +1,50 @@
+import { MongoServerError } from "mongodb";
+import { getDb } from "./mongodb";
+
+interface LockDocument {
+  _id: string;
+  owner: string;
+  expiresAt: Date;
+}
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Take a named lock shared by every instance using the database. Locks expire
+ * after `ttlMs` so a crashed holder can't block others forever. Returns false
+ * if another owner holds it.
+ */
+export async function acquireLock(
+  name: string,
+  owner: string,
+  ttlMs: number
+): Promise<boolean> {
+  const db = await getDb();
+  const locksCollection = db.collection<LockDocument>("locks");
+  const now = new Date();
+
+  try {
+    // Matches a free (expired) lock or one we already hold; otherwise the
+    // upsert collides with the existing holder's _id
+    await locksCollection.updateOne(
+      { _id: name, $or: [{ expiresAt: { $lte: now } }, { owner }] },
+      { $set: { owner, expiresAt: new Date(now.getTime() + ttlMs) } },
+      { upsert: true }
+    );
+    return true;
+  } catch (error) {
+    if (
+      error instanceof MongoServerError &&
+      error.code === DUPLICATE_KEY_ERROR
+    ) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function releaseLock(name: string, owner: string): Promise<void> {
+  const db = await getDb();
+  const locksCollection = db.collection<LockDocument>("locks");
+  await locksCollection.deleteOne({ _id: name, owner });
+}
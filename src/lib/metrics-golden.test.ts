@@ -0,0 +1,248 @@
+import { Decimal128 } from "mongodb";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addDays, getZonedDay, getZonedStartOfDay, listDays } from "./timezone";
+import { Order, OrderMetrics } from "@/types/order";
+import { Shop } from "@/types/shop";
+
+/**
+ * Golden tests for the metrics aggregation pipeline. The fixture orders are
+ * run through the in-memory calculation it replaced, which must give the
+ * golden numbers below, and through the pipeline, which must give the same.
+ * The pipeline half needs a MongoDB server: set MONGODB_TEST_URI to run it.
+ */
+
+const SHOP_ID = "golden-metrics.myshopify.com";
+const OTHER_SHOP_ID = "other-golden-metrics.myshopify.com";
+// The range spans the start of daylight saving time in New York
+const TIME_ZONE = "America/New_York";
+const FROM = "2026-03-07";
+const TO = "2026-03-09";
+
+interface FixtureOrder {
+  id: string;
+  shopId?: string;
+  created_at: string;
+  total_price?: string;
+  shipping?: string;
+  currency?: string;
+  deletedAt?: string;
+  // Stored as Decimal128, like orders written after the money migration
+  decimal?: boolean;
+}
+
+const FIXTURE_ORDERS: FixtureOrder[] = [
+  // 23:59:59 on Mar 6 in New York, before the range
+  { id: "1", created_at: "2026-03-07T04:59:59.000Z", total_price: "999" },
+  {
+    id: "2",
+    created_at: "2026-03-07T05:00:00.000Z",
+    total_price: "19.99",
+    shipping: "5.00",
+  },
+  // No shipping line
+  {
+    id: "3",
+    created_at: "2026-03-07T23:30:00.000Z",
+    total_price: "0.10",
+    decimal: true,
+  },
+  // Still Mar 7 in New York
+  {
+    id: "4",
+    created_at: "2026-03-08T04:30:00.000Z",
+    total_price: "0.20",
+    shipping: "0.10",
+  },
+  {
+    id: "5",
+    created_at: "2026-03-08T12:00:00.000Z",
+    total_price: "100",
+    shipping: "7.5",
+    decimal: true,
+  },
+  // 23:59 on Mar 8 after the clocks went forward
+  {
+    id: "6",
+    created_at: "2026-03-09T03:59:00.000Z",
+    total_price: "50.05",
+    shipping: "0",
+    currency: "USD",
+  },
+  // No total at all
+  { id: "7", created_at: "2026-03-09T15:00:00.000Z" },
+  {
+    id: "8",
+    created_at: "2026-03-09T16:00:00.000Z",
+    total_price: "42",
+    deletedAt: "2026-03-09T17:00:00.000Z",
+  },
+  {
+    id: "9",
+    shopId: OTHER_SHOP_ID,
+    created_at: "2026-03-09T16:00:00.000Z",
+    total_price: "42",
+  },
+  // Midnight on Mar 10 in New York, after the range
+  { id: "10", created_at: "2026-03-10T04:00:00.000Z", total_price: "999" },
+];
+
+const GOLDEN_METRICS: OrderMetrics[] = [
+  { date: "2026-03-07", orderCount: 3, revenue: 20.29, shippingCost: 5.1 },
+  { date: "2026-03-08", orderCount: 2, revenue: 150.05, shippingCost: 7.5 },
+  { date: "2026-03-09", orderCount: 1, revenue: 0, shippingCost: 0 },
+];
+
+const GOLDEN_SUMMARY = {
+  totalOrders: 6,
+  totalRevenue: 170.34,
+  totalShipping: 12.6,
+  averageOrderValue: 28.39,
+};
+
+/**
+ * The calculation getMetricsFromDb used before the aggregation pipeline:
+ * load the orders, then parse floats and group them by day in JavaScript
+ */
+function computeMetricsInMemory(
+  orders: FixtureOrder[],
+  from: string,
+  to: string,
+  timeZone: string
+) {
+  const startISO = getZonedStartOfDay(from, timeZone).toISOString();
+  const endISO = getZonedStartOfDay(addDays(to, 1), timeZone).toISOString();
+  const matched = orders.filter(
+    (order) =>
+      (order.shopId ?? SHOP_ID) === SHOP_ID &&
+      order.created_at >= startISO &&
+      order.created_at < endISO &&
+      !order.deletedAt
+  );
+
+  const metricsByDate = new Map<string, OrderMetrics>(
+    listDays(from, to).map((date) => [
+      date,
+      { date, orderCount: 0, revenue: 0, shippingCost: 0 },
+    ])
+  );
+  for (const order of matched) {
+    const existing = metricsByDate.get(
+      getZonedDay(new Date(order.created_at), timeZone)
+    );
+    if (!existing) continue;
+    existing.orderCount += 1;
+    existing.revenue += parseFloat(order.total_price || "0");
+    existing.shippingCost += parseFloat(order.shipping || "0") || 0;
+  }
+
+  const metrics = Array.from(metricsByDate.values());
+  const totalRevenue = metrics.reduce((sum, m) => sum + m.revenue, 0);
+  const totalShipping = metrics.reduce((sum, m) => sum + m.shippingCost, 0);
+  const totalOrders = metrics.reduce((sum, m) => sum + m.orderCount, 0);
+  return {
+    metrics,
+    summary: {
+      totalOrders,
+      totalRevenue,
+      totalShipping,
+      averageOrderValue: totalOrders > 0 ? totalRevenue / totalOrders : 0,
+    },
+  };
+}
+
+function expectMetricsClose(
+  actual: { metrics: OrderMetrics[]; summary: typeof GOLDEN_SUMMARY },
+  expected: { metrics: OrderMetrics[]; summary: typeof GOLDEN_SUMMARY }
+) {
+  expect(actual.metrics.map((m) => m.date)).toEqual(
+    expected.metrics.map((m) => m.date)
+  );
+  actual.metrics.forEach((metric, index) => {
+    const golden = expected.metrics[index];
+    expect(metric.orderCount).toBe(golden.orderCount);
+    expect(metric.revenue).toBeCloseTo(golden.revenue, 6);
+    expect(metric.shippingCost).toBeCloseTo(golden.shippingCost, 6);
+  });
+  expect(actual.summary.totalOrders).toBe(expected.summary.totalOrders);
+  for (const key of [
+    "totalRevenue",
+    "totalShipping",
+    "averageOrderValue",
+  ] as const) {
+    expect(actual.summary[key]).toBeCloseTo(expected.summary[key], 6);
+  }
+}
+
+function toStoredOrder(fixture: FixtureOrder): Order {
+  const amount = (value: string) =>
+    fixture.decimal ? Decimal128.fromString(value) : value;
+  return {
+    id: fixture.id,
+    shopId: fixture.shopId ?? SHOP_ID,
+    order_number: Number(fixture.id),
+    created_at: fixture.created_at,
+    updated_at: fixture.created_at,
+    ...(fixture.total_price !== undefined && {
+      total_price: amount(fixture.total_price),
+    }),
+    ...(fixture.shipping !== undefined && {
+      total_shipping_price_set: {
+        shop_money: { amount: amount(fixture.shipping), currency_code: "USD" },
+      },
+    }),
+    ...(fixture.currency && { currency: fixture.currency }),
+    ...(fixture.deletedAt && { deletedAt: fixture.deletedAt }),
+    line_items: [],
+  } as unknown as Order;
+}
+
+describe("metrics golden fixtures", () => {
+  it("match the in-memory calculation", () => {
+    expectMetricsClose(
+      computeMetricsInMemory(FIXTURE_ORDERS, FROM, TO, TIME_ZONE),
+      { metrics: GOLDEN_METRICS, summary: GOLDEN_SUMMARY }
+    );
+  });
+});
+
+describe.skipIf(!process.env.MONGODB_TEST_URI)("metrics pipeline", () => {
+  const shopIds = [SHOP_ID, OTHER_SHOP_ID];
+
+  beforeAll(async () => {
+    process.env.MONGODB_URI = process.env.MONGODB_TEST_URI;
+    const { getDb } = await import("./mongodb");
+    const ordersCollection = (await getDb()).collection<Order>("orders");
+    await ordersCollection.deleteMany({ shopId: { $in: shopIds } });
+    await ordersCollection.insertMany(FIXTURE_ORDERS.map(toStoredOrder));
+  });
+
+  afterAll(async () => {
+    const { getDb } = await import("./mongodb");
+    const ordersCollection = (await getDb()).collection<Order>("orders");
+    await ordersCollection.deleteMany({ shopId: { $in: shopIds } });
+  });
+
+  it("gives the same numbers as the in-memory calculation", async () => {
+    const { getMetricsFromDb } = await import("./orders");
+    const { runWithShop } = await import("./shop-context");
+
+    const result = await runWithShop({ _id: SHOP_ID } as Shop, () =>
+      getMetricsFromDb({
+        from: FROM,
+        to: TO,
+        timeZone: TIME_ZONE,
+        currency: "USD",
+        granularity: "day",
+      })
+    );
+
+    expectMetricsClose(
+      result,
+      computeMetricsInMemory(FIXTURE_ORDERS, FROM, TO, TIME_ZONE)
+    );
+    expectMetricsClose(result, {
+      metrics: GOLDEN_METRICS,
+      summary: GOLDEN_SUMMARY,
+    });
+  });
+});
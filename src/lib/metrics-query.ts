@@ -0,0 +1,243 @@
+import { addDays, listDays } from "./timezone";
+import {
+  MetricsComparison,
+  MetricsGranularity,
+  MetricsParams,
+  MetricsRangePreset,
+  MetricsSummary,
+} from "@/types/order";
+
+export const METRICS_RANGE_PRESETS: MetricsRangePreset[] = [
+  "today",
+  "7d",
+  "30d",
+  "mtd",
+  "qtd",
+  "ytd",
+];
+export const METRICS_GRANULARITIES: MetricsGranularity[] = [
+  "day",
+  "week",
+  "month",
+];
+export const METRICS_COMPARISONS: MetricsComparison[] = ["previous", "year"];
+
+export const DEFAULT_METRICS_RANGE: MetricsRangePreset = "30d";
+export const DEFAULT_METRICS_GRANULARITY: MetricsGranularity = "day";
+// Longest range the API reports on, about five years
+export const MAX_METRICS_DAYS = 1827;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MetricsRange {
+  // Inclusive `YYYY-MM-DD` days
+  from: string;
+  to: string;
+}
+
+// A real calendar day, e.g. not 2026-02-30
+function isDay(value: string): boolean {
+  return DAY_PATTERN.test(value) && addDays(value, 0) === value;
+}
+
+/**
+ * Parse dashboard metrics params from a query string, dropping invalid
+ * values. Shared by the API route and the client so both read the URL the
+ * same way.
+ */
+export function parseMetricsParams(
+  searchParams: URLSearchParams
+): MetricsParams {
+  const params: MetricsParams = {};
+
+  const range = searchParams.get("range");
+  if (
+    range === "custom" ||
+    METRICS_RANGE_PRESETS.includes(range as MetricsRangePreset)
+  ) {
+    params.range = range as MetricsParams["range"];
+  }
+
+  const from = searchParams.get("from");
+  if (from) params.from = from;
+  const to = searchParams.get("to");
+  if (to) params.to = to;
+  // from and to on their own mean a custom range
+  if (!params.range && (from || to)) params.range = "custom";
+
+  const granularity = searchParams.get("granularity");
+  if (METRICS_GRANULARITIES.includes(granularity as MetricsGranularity)) {
+    params.granularity = granularity as MetricsGranularity;
+  }
+
+  const compare = searchParams.get("compare");
+  if (METRICS_COMPARISONS.includes(compare as MetricsComparison)) {
+    params.compare = compare as MetricsComparison;
+  }
+
+  const currency = searchParams.get("currency")?.trim().toUpperCase();
+  if (currency) params.currency = currency;
+
+  return params;
+}
+
+/**
+ * Serialize metrics params back into a query string, omitting empty values
+ */
+export function toMetricsSearchParams(params: MetricsParams): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  if (params.range) searchParams.set("range", params.range);
+  if (params.range === "custom") {
+    if (params.from) searchParams.set("from", params.from);
+    if (params.to) searchParams.set("to", params.to);
+  }
+  if (params.granularity) searchParams.set("granularity", params.granularity);
+  if (params.compare) searchParams.set("compare", params.compare);
+  if (params.currency) searchParams.set("currency", params.currency);
+
+  return searchParams;
+}
+
+/**
+ * The days a preset covers, ending today
+ */
+export function getPresetRange(
+  preset: MetricsRangePreset,
+  today: string
+): MetricsRange {
+  const [year, month] = today.split("-").map(Number);
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  switch (preset) {
+    case "today":
+      return { from: today, to: today };
+    case "7d":
+      return { from: addDays(today, -6), to: today };
+    case "30d":
+      return { from: addDays(today, -29), to: today };
+    case "mtd":
+      return { from: `${year}-${pad(month)}-01`, to: today };
+    case "qtd": {
+      const quarterStart = Math.floor((month - 1) / 3) * 3 + 1;
+      return { from: `${year}-${pad(quarterStart)}-01`, to: today };
+    }
+    case "ytd":
+      return { from: `${year}-01-01`, to: today };
+  }
+}
+
+/**
+ * The days the params ask for, or null if a custom range is missing a day,
+ * has an invalid one or ends before it starts
+ */
+export function resolveMetricsRange(
+  params: MetricsParams,
+  today: string
+): MetricsRange | null {
+  if (params.range !== "custom") {
+    return getPresetRange(params.range || DEFAULT_METRICS_RANGE, today);
+  }
+  const { from, to } = params;
+  if (!from || !to || !isDay(from) || !isDay(to) || from > to) {
+    return null;
+  }
+  return { from, to };
+}
+
+export function countDays(range: MetricsRange): number {
+  const from = Date.parse(`${range.from}T00:00:00.000Z`);
+  const to = Date.parse(`${range.to}T00:00:00.000Z`);
+  return Math.round((to - from) / DAY_MS) + 1;
+}
+
+// Same month and day in another year; Feb 29 becomes Feb 28
+function shiftYears(day: string, years: number): string {
+  const year = Number(day.slice(0, 4)) + years;
+  const shifted = `${year}-${day.slice(5)}`;
+  return isDay(shifted) ? shifted : `${year}-02-28`;
+}
+
+/**
+ * The range to compare with: the same number of days right before it, or
+ * the same days a year earlier
+ */
+export function getComparisonRange(
+  range: MetricsRange,
+  compare: MetricsComparison
+): MetricsRange {
+  if (compare === "year") {
+    return { from: shiftYears(range.from, -1), to: shiftYears(range.to, -1) };
+  }
+  const length = countDays(range);
+  return {
+    from: addDays(range.from, -length),
+    to: addDays(range.from, -1),
+  };
+}
+
+/**
+ * First day of the week (Monday) or month a day falls in
+ */
+export function getPeriodStart(
+  day: string,
+  granularity: MetricsGranularity
+): string {
+  if (granularity === "month") {
+    return `${day.slice(0, 7)}-01`;
+  }
+  if (granularity === "week") {
+    const weekday = new Date(`${day}T00:00:00.000Z`).getUTCDay();
+    return addDays(day, -((weekday + 6) % 7));
+  }
+  return day;
+}
+
+/**
+ * Start days of every period that overlaps the range
+ */
+export function listPeriods(
+  range: MetricsRange,
+  granularity: MetricsGranularity
+): string[] {
+  const periods = new Set(
+    listDays(range.from, range.to).map((day) =>
+      getPeriodStart(day, granularity)
+    )
+  );
+  return Array.from(periods);
+}
+
+/**
+ * Percentage change from `previous` to `current`, or null when there is
+ * nothing to compare with
+ */
+export function getPercentChange(
+  current: number,
+  previous: number
+): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+export function getSummaryChanges(
+  current: MetricsSummary,
+  previous: MetricsSummary
+): Record<keyof MetricsSummary, number | null> {
+  return {
+    totalOrders: getPercentChange(current.totalOrders, previous.totalOrders),
+    totalRevenue: getPercentChange(
+      current.totalRevenue,
+      previous.totalRevenue
+    ),
+    totalShipping: getPercentChange(
+      current.totalShipping,
+      previous.totalShipping
+    ),
+    averageOrderValue: getPercentChange(
+      current.averageOrderValue,
+      previous.averageOrderValue
+    ),
+  };
+}
@@ -0,0 +1,54 @@
+import { enqueueDailyMetricsRebuildForAllShops } from "./daily-metrics";
+import { getDb } from "./mongodb";
+import {
+  migrateOrderAmounts,
+  migrateOrderSearchTerms,
+  migrateOrderStatuses,
+} from "./orders";
+import { migrateWebhookInboxRetention } from "./webhooks";
+
+interface Migration {
+  id: string;
+  run: () => Promise<Record<string, unknown>>;
+}
+
+interface MigrationDocument {
+  _id: string;
+  result: Record<string, unknown>;
+  completedAt: string;
+}
+
+// Run in order, each once. Reads and writes must work on data from before
+// and after a migration, since they run while the app is serving requests.
+const MIGRATIONS: Migration[] = [
+  { id: "order-amounts-decimal128", run: migrateOrderAmounts },
+  { id: "order-statuses-lowercase", run: migrateOrderStatuses },
+  // Fill the daily_metrics rollup from orders stored before it existed
+  {
+    id: "daily-metrics-initial-rebuild",
+    run: enqueueDailyMetricsRebuildForAllShops,
+  },
+  // Until this finishes, older orders only match a search by id or number
+  { id: "order-search-terms", run: migrateOrderSearchTerms },
+  { id: "webhook-inbox-retention", run: migrateWebhookInboxRetention },
+];
+
+/**
+ * Run the migrations that haven't completed yet. A migration that fails is
+ * retried on the next start.
+ */
+export async function runMigrations(): Promise<void> {
+  const db = await getDb();
+  const migrationsCollection = db.collection<MigrationDocument>("migrations");
+
+  for (const migration of MIGRATIONS) {
+    if (await migrationsCollection.findOne({ _id: migration.id })) continue;
+
+    const result = await migration.run();
+    await migrationsCollection.updateOne(
+      { _id: migration.id },
+      { $set: { result, completedAt: new Date().toISOString() } },
+      { upsert: true }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Money amounts are decimal strings such as "19.99", in a currency given
+ * separately by its ISO 4217 code. Arithmetic works on scaled integers so
+ * amounts never pick up float drift; rounding and formatting follow the
+ * currency's minor units (2 for USD, 0 for JPY, 3 for KWD).
+ */
+
+// Used when an order or shop doesn't say which currency it is in
+export const DEFAULT_CURRENCY = "USD";
+
+const AMOUNT_PATTERN = /^-?\d+(\.\d+)?$/;
+const DEFAULT_CURRENCY_DIGITS = 2;
+
+const currencyDigits = new Map<string, number>();
+const moneyFormatters = new Map<string, Intl.NumberFormat>();
+
+interface ScaledAmount {
+  units: bigint;
+  scale: number;
+}
+
+export function isMoneyAmount(value: string): boolean {
+  return AMOUNT_PATTERN.test(value);
+}
+
+function parseAmount(amount: string): ScaledAmount {
+  if (!isMoneyAmount(amount)) {
+    throw new Error(`Invalid money amount: ${amount}`);
+  }
+  const negative = amount.startsWith("-");
+  const [whole, fraction = ""] = amount.replace("-", "").split(".");
+  const units = BigInt(whole + fraction);
+  return { units: negative ? -units : units, scale: fraction.length };
+}
+
+function rescale(amount: ScaledAmount, scale: number): bigint {
+  return amount.units * BigInt(10) ** BigInt(scale - amount.scale);
+}
+
+function formatAmount({ units, scale }: ScaledAmount): string {
+  const digits = (units < 0 ? -units : units)
+    .toString()
+    .padStart(scale + 1, "0");
+  const whole = digits.slice(0, digits.length - scale);
+  const fraction = scale > 0 ? `.${digits.slice(-scale)}` : "";
+  return `${units < 0 ? "-" : ""}${whole}${fraction}`;
+}
+
+/**
+ * Add up amounts exactly, keeping the most decimal places any of them has
+ */
+export function sumMoney(amounts: string[]): string {
+  const parsed = amounts.map(parseAmount);
+  const scale = Math.max(0, ...parsed.map((amount) => amount.scale));
+  const units = parsed.reduce(
+    (sum, amount) => sum + rescale(amount, scale),
+    BigInt(0)
+  );
+  return formatAmount({ units, scale });
+}
+
+/**
+ * Multiply an amount by a whole quantity exactly, e.g. a line item total
+ */
+export function multiplyMoney(amount: string, quantity: number): string {
+  if (!Number.isInteger(quantity)) {
+    throw new Error(`Invalid quantity: ${quantity}`);
+  }
+  const { units, scale } = parseAmount(amount);
+  return formatAmount({ units: units * BigInt(quantity), scale });
+}
+
+/**
+ * Decimal places a currency uses, e.g. 2 for USD and 0 for JPY. Unknown
+ * currency codes get 2.
+ */
+export function getCurrencyDigits(currency: string): number {
+  let digits = currencyDigits.get(currency);
+  if (digits === undefined) {
+    try {
+      digits =
+        new Intl.NumberFormat("en-US", { style: "currency", currency })
+          .resolvedOptions().maximumFractionDigits ?? DEFAULT_CURRENCY_DIGITS;
+    } catch {
+      digits = DEFAULT_CURRENCY_DIGITS;
+    }
+    currencyDigits.set(currency, digits);
+  }
+  return digits;
+}
+
+/**
+ * Round an amount to the currency's minor units, halves away from zero
+ */
+export function roundMoney(amount: string, currency: string): string {
+  const digits = getCurrencyDigits(currency);
+  const parsed = parseAmount(amount);
+  if (parsed.scale <= digits) {
+    return formatAmount({ units: rescale(parsed, digits), scale: digits });
+  }
+
+  const divisor = BigInt(10) ** BigInt(parsed.scale - digits);
+  const magnitude = parsed.units < 0 ? -parsed.units : parsed.units;
+  const roundUp = magnitude % divisor >= divisor / BigInt(2);
+  const rounded = magnitude / divisor + BigInt(roundUp ? 1 : 0);
+  return formatAmount({
+    units: parsed.units < 0 ? -rounded : rounded,
+    scale: digits,
+  });
+}
+
+function getMoneyFormatter(currency: string): Intl.NumberFormat {
+  let formatter = moneyFormatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    });
+    moneyFormatters.set(currency, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Format an amount in its currency, e.g. "$1,234.50" or "¥1,235". Amounts
+ * that aren't valid decimals, or currencies Intl doesn't know, are shown
+ * as-is.
+ */
+export function formatMoney(
+  amount: string | number,
+  currency: string = DEFAULT_CURRENCY
+): string {
+  // Numbers are already floats, e.g. metrics totals
+  const value =
+    typeof amount === "number"
+      ? amount.toFixed(getCurrencyDigits(currency))
+      : amount;
+  if (!isMoneyAmount(value)) {
+    return `${value} ${currency}`;
+  }
+  try {
+    // Rounded to the currency's minor units first, so the float conversion
+    // is exact for any realistic amount
+    return getMoneyFormatter(currency).format(
+      Number(roundMoney(value, currency))
+    );
+  } catch {
+    return `${roundMoney(value, currency)} ${currency}`;
+  }
+}
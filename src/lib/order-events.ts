@@ -0,0 +1,192 @@
+import { ObjectId } from "mongodb";
+import { getDb } from "./mongodb";
+import { getShopId } from "./shop-context";
+import { Order, OrderLineItem } from "@/types/order";
+import {
+  OrderEvent,
+  OrderEventSource,
+  OrderFieldChange,
+} from "@/types/order-event";
+
+type OrderEventDocument = Omit<OrderEvent, "_id"> & { _id?: ObjectId };
+
+/**
+ * Where a batch of order changes came from, stored with each event
+ */
+export interface OrderEventContext {
+  source: OrderEventSource;
+  runId?: string;
+  topic?: string;
+  webhookId?: string;
+}
+
+// Fields tracked in the change history. updated_at is left out since it
+// changes with every edit.
+const TRACKED_FIELDS = [
+  "financial_status",
+  "fulfillment_status",
+  "cancelled_at",
+  "closed_at",
+  "total_price",
+  "subtotal_price",
+  "total_tax",
+  "total_shipping_price_set.shop_money.amount",
+  "currency",
+  "email",
+  "shipping_address.first_name",
+  "shipping_address.last_name",
+  "shipping_address.address1",
+  "shipping_address.address2",
+  "shipping_address.city",
+  "shipping_address.province",
+  "shipping_address.country",
+  "shipping_address.zip",
+  "customer.id",
+  "customer.email",
+  "customer.first_name",
+  "customer.last_name",
+];
+
+let orderEventIndexesReady: Promise<string> | null = null;
+
+async function getOrderEventsCollection() {
+  const db = await getDb();
+  const orderEventsCollection =
+    db.collection<OrderEventDocument>("order_events");
+
+  if (!orderEventIndexesReady) {
+    orderEventIndexesReady = orderEventsCollection
+      .createIndex({ shopId: 1, orderId: 1, at: -1 })
+      .catch((error) => {
+        orderEventIndexesReady = null;
+        throw error;
+      });
+  }
+  await orderEventIndexesReady;
+
+  return orderEventsCollection;
+}
+
+function readField(order: Order, path: string): string | null {
+  let value: unknown = order;
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object") return null;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value === undefined || value === null || value === ""
+    ? null
+    : String(value);
+}
+
+// Line items are compared as a whole, e.g. "2 × T-Shirt @ 25.00, 1 × Hat @ 5"
+function summarizeLineItems(lineItems: OrderLineItem[] = []): string | null {
+  if (lineItems.length === 0) return null;
+  return lineItems
+    .map((item) => `${item.quantity} × ${item.title} @ ${item.price}`)
+    .join(", ");
+}
+
+/**
+ * List the tracked fields that differ between the stored and the new
+ * version of an order
+ */
+export function diffOrders(before: Order, after: Order): OrderFieldChange[] {
+  const changes: OrderFieldChange[] = [];
+
+  for (const field of TRACKED_FIELDS) {
+    const from = readField(before, field);
+    const to = readField(after, field);
+    if (from !== to) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  const fromLineItems = summarizeLineItems(before.line_items);
+  const toLineItems = summarizeLineItems(after.line_items);
+  if (fromLineItems !== toLineItems) {
+    changes.push({ field: "line_items", from: fromLineItems, to: toLineItems });
+  }
+
+  return changes;
+}
+
+/**
+ * Save the changes found for a batch of orders. Orders without changes are
+ * skipped.
+ */
+export async function recordOrderEvents(
+  entries: { order: Order; changes: OrderFieldChange[] }[],
+  context: OrderEventContext
+): Promise<void> {
+  const events = entries.filter((entry) => entry.changes.length > 0);
+  if (events.length === 0) return;
+
+  const orderEventsCollection = await getOrderEventsCollection();
+  const shopId = getShopId();
+  const now = new Date().toISOString();
+  await orderEventsCollection.insertMany(
+    events.map(({ order, changes }) => ({
+      ...context,
+      shopId,
+      orderId: order.id,
+      changes,
+      orderUpdatedAt: order.updated_at,
+      at: now,
+    }))
+  );
+}
+
+/**
+ * List an order's change history, newest first
+ */
+export async function listOrderEvents(
+  orderId: string,
+  limit: number = 100
+): Promise<OrderEvent[]> {
+  const orderEventsCollection = await getOrderEventsCollection();
+  const events = await orderEventsCollection
+    .find({ shopId: getShopId(), orderId })
+    .sort({ at: -1 })
+    .limit(limit)
+    .toArray();
+
+  return events.map((event) => ({ ...event, _id: event._id?.toString() }));
+}
+
+/**
+ * Remove recorded changes to the given fields, e.g. personal data on
+ * customers/redact. Returns how many events were scrubbed.
+ */
+export async function redactOrderEvents(
+  orderIds: string[],
+  fields: string[]
+): Promise<number> {
+  if (orderIds.length === 0) return 0;
+  const orderEventsCollection = await getOrderEventsCollection();
+  const shopId = getShopId();
+
+  const result = await orderEventsCollection.updateMany(
+    { shopId, orderId: { $in: orderIds } },
+    { $pull: { changes: { field: { $in: fields } } } }
+  );
+  // Drop events that only held personal data
+  await orderEventsCollection.deleteMany({
+    shopId,
+    orderId: { $in: orderIds },
+    changes: { $size: 0 },
+  });
+  return result.modifiedCount;
+}
+
+/**
+ * Remove the history of orders that were purged, or of every order in the
+ * shop
+ */
+export async function deleteOrderEvents(orderIds?: string[]): Promise<number> {
+  const orderEventsCollection = await getOrderEventsCollection();
+  const shopId = getShopId();
+  const result = await orderEventsCollection.deleteMany(
+    orderIds ? { shopId, orderId: { $in: orderIds } } : { shopId }
+  );
+  return result.deletedCount;
+}
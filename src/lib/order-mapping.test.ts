@@ -0,0 +1,317 @@
+import { describe, expect, it } from "vitest";
+import { reassembleBulkOrders } from "./bulk-orders";
+import {
+  buildOrderSelection,
+  normalizeGraphQLOrder,
+  normalizeOrderStatus,
+  normalizeWebhookOrder,
+} from "./order-mapping";
+import { Order } from "@/types/order";
+
+// The same order as the GraphQL Admin API, a bulk operation and an
+// orders/updated webhook send it
+
+const graphQLLineItems = [
+  {
+    id: "gid://shopify/LineItem/11",
+    title: "Sunglasses",
+    quantity: 2,
+    originalUnitPriceSet: { shopMoney: { amount: "25.00" } },
+    variant: { sku: "SUN-1" },
+  },
+  {
+    id: "gid://shopify/LineItem/12",
+    title: "Gift card",
+    quantity: 1,
+    originalUnitPriceSet: { shopMoney: { amount: "50.00" } },
+    variant: null,
+  },
+];
+
+const graphQLOrder = {
+  id: "gid://shopify/Order/1001",
+  name: "#1001",
+  email: "ada@example.com",
+  createdAt: "2026-10-01T12:00:00Z",
+  updatedAt: "2026-10-02T12:30:00Z",
+  cancelledAt: null,
+  closedAt: null,
+  totalPriceSet: {
+    shopMoney: { amount: "110.00", currencyCode: "USD" },
+    presentmentMoney: { amount: "100.00", currencyCode: "EUR" },
+  },
+  subtotalPriceSet: { shopMoney: { amount: "100.00" } },
+  totalTaxSet: { shopMoney: { amount: "8.00" } },
+  totalDiscountsSet: { shopMoney: { amount: "5.00" } },
+  totalRefundedSet: { shopMoney: { amount: "10.00" } },
+  totalShippingPriceSet: {
+    shopMoney: { amount: "7.00", currencyCode: "USD" },
+    presentmentMoney: { amount: "6.30", currencyCode: "EUR" },
+  },
+  shippingAddress: {
+    firstName: "Ada",
+    lastName: "Lovelace",
+    address1: "1 Analytical Way",
+    address2: null,
+    city: "London",
+    province: null,
+    country: "United Kingdom",
+    zip: "N1 1AA",
+  },
+  lineItems: { edges: graphQLLineItems.map((node) => ({ node })) },
+  displayFinancialStatus: "PARTIALLY_REFUNDED",
+  displayFulfillmentStatus: "PARTIALLY_FULFILLED",
+  currencyCode: "USD",
+  presentmentCurrencyCode: "EUR",
+  customer: {
+    id: "gid://shopify/Customer/7",
+    email: "ada@example.com",
+    firstName: "Ada",
+    lastName: "Lovelace",
+  },
+};
+
+const webhookOrder = {
+  id: 1001,
+  name: "#1001",
+  email: "ada@example.com",
+  created_at: "2026-10-01T08:00:00-04:00",
+  updated_at: "2026-10-02T08:30:00-04:00",
+  cancelled_at: null,
+  closed_at: null,
+  total_price: "110.00",
+  subtotal_price: "100.00",
+  total_tax: "8.00",
+  total_discounts: "5.00",
+  total_price_set: {
+    shop_money: { amount: "110.00", currency_code: "USD" },
+    presentment_money: { amount: "100.00", currency_code: "EUR" },
+  },
+  total_shipping_price_set: {
+    shop_money: { amount: "7.00", currency_code: "USD" },
+    presentment_money: { amount: "6.30", currency_code: "EUR" },
+  },
+  shipping_address: {
+    first_name: "Ada",
+    last_name: "Lovelace",
+    address1: "1 Analytical Way",
+    address2: null,
+    city: "London",
+    province: "",
+    country: "United Kingdom",
+    zip: "N1 1AA",
+  },
+  line_items: [
+    { id: 11, title: "Sunglasses", quantity: 2, price: "25.00", sku: "SUN-1" },
+    { id: 12, title: "Gift card", quantity: 1, price: "50.00", sku: null },
+  ],
+  financial_status: "partially_refunded",
+  fulfillment_status: "partial",
+  currency: "USD",
+  presentment_currency: "EUR",
+  customer: {
+    id: 7,
+    email: "ada@example.com",
+    first_name: "Ada",
+    last_name: "Lovelace",
+  },
+  refunds: [
+    {
+      transactions: [
+        { kind: "refund", status: "success", amount: "10.00" },
+        { kind: "refund", status: "failure", amount: "99.00" },
+      ],
+    },
+  ],
+};
+
+const expectedOrder: Order = {
+  id: "1001",
+  order_number: 1001,
+  email: "ada@example.com",
+  created_at: "2026-10-01T12:00:00.000Z",
+  updated_at: "2026-10-02T12:30:00.000Z",
+  total_price: "110.00",
+  subtotal_price: "100.00",
+  total_tax: "8.00",
+  total_discounts: "5.00",
+  total_refunded: "10.00",
+  total_price_set: {
+    shop_money: { amount: "110.00", currency_code: "USD" },
+    presentment_money: { amount: "100.00", currency_code: "EUR" },
+  },
+  total_shipping_price_set: {
+    shop_money: { amount: "7.00", currency_code: "USD" },
+    presentment_money: { amount: "6.30", currency_code: "EUR" },
+  },
+  shipping_address: {
+    first_name: "Ada",
+    last_name: "Lovelace",
+    address1: "1 Analytical Way",
+    city: "London",
+    country: "United Kingdom",
+    zip: "N1 1AA",
+  },
+  line_items: [
+    {
+      id: "11",
+      title: "Sunglasses",
+      quantity: 2,
+      price: "25.00",
+      sku: "SUN-1",
+    },
+    { id: "12", title: "Gift card", quantity: 1, price: "50.00" },
+  ],
+  financial_status: "partially_refunded",
+  fulfillment_status: "partially_fulfilled",
+  currency: "USD",
+  presentment_currency: "EUR",
+  customer: {
+    id: "7",
+    email: "ada@example.com",
+    first_name: "Ada",
+    last_name: "Lovelace",
+  },
+};
+
+async function normalizeBulkRows(rows: Record<string, unknown>[]) {
+  const orders: Order[] = [];
+  async function* toAsync() {
+    yield* rows;
+  }
+  await reassembleBulkOrders(toAsync(), {
+    onOrders: async (batch) => {
+      orders.push(...batch);
+    },
+    onLateLineItems: async () => {},
+  });
+  return orders;
+}
+
+// Bulk operations write line items as their own rows after the order
+function toBulkRows(order: {
+  id: string;
+  lineItems: { edges: { node: object }[] };
+}) {
+  const { lineItems, ...row } = order;
+  return [
+    { __typename: "Order", ...row },
+    ...lineItems.edges.map(({ node }) => ({
+      __typename: "LineItem",
+      __parentId: order.id,
+      ...node,
+    })),
+  ];
+}
+
+describe("order normalization contract", () => {
+  it("is the same from a GraphQL query, a bulk operation and a webhook", async () => {
+    const [bulkOrder] = await normalizeBulkRows(toBulkRows(graphQLOrder));
+
+    expect(normalizeGraphQLOrder(graphQLOrder)).toEqual(expectedOrder);
+    expect(bulkOrder).toEqual(expectedOrder);
+    expect(normalizeWebhookOrder(webhookOrder)).toEqual(expectedOrder);
+  });
+
+  it("agrees on unfulfilled orders, which REST sends without a status", async () => {
+    const graphQL = {
+      ...graphQLOrder,
+      displayFinancialStatus: "PAID",
+      displayFulfillmentStatus: "UNFULFILLED",
+    };
+    const webhook = {
+      ...webhookOrder,
+      financial_status: "paid",
+      fulfillment_status: null,
+    };
+    const [bulkOrder] = await normalizeBulkRows(toBulkRows(graphQL));
+
+    for (const order of [
+      normalizeGraphQLOrder(graphQL),
+      bulkOrder,
+      normalizeWebhookOrder(webhook),
+    ]) {
+      expect(order.financial_status).toBe("paid");
+      expect(order.fulfillment_status).toBe("unfulfilled");
+    }
+  });
+
+  it("fills in missing currencies and amounts the same way", async () => {
+    const graphQL = {
+      ...graphQLOrder,
+      totalPriceSet: {
+        shopMoney: { amount: "110.00" },
+        presentmentMoney: { amount: "100.00" },
+      },
+      totalTaxSet: null,
+      totalRefundedSet: { shopMoney: { amount: "0.0" } },
+    };
+    const webhook = {
+      ...webhookOrder,
+      total_price_set: {
+        shop_money: { amount: "110.00" },
+        presentment_money: { amount: "100.00" },
+      },
+      total_tax: null,
+      refunds: [],
+    };
+    const [bulkOrder] = await normalizeBulkRows(toBulkRows(graphQL));
+    const expected = {
+      ...expectedOrder,
+      total_tax: "0",
+      total_price_set: {
+        shop_money: { amount: "110.00", currency_code: "USD" },
+        presentment_money: { amount: "100.00", currency_code: "EUR" },
+      },
+    };
+
+    expect(normalizeGraphQLOrder(graphQL)).toEqual({
+      ...expected,
+      total_refunded: "0.0",
+    });
+    expect(bulkOrder).toEqual({ ...expected, total_refunded: "0.0" });
+    expect(normalizeWebhookOrder(webhook)).toEqual({
+      ...expected,
+      total_refunded: "0",
+    });
+  });
+
+  it("selects every field the GraphQL normalizer reads", () => {
+    const selection = buildOrderSelection();
+    for (const field of [
+      "totalPriceSet",
+      "presentmentMoney",
+      "displayFulfillmentStatus",
+      "presentmentCurrencyCode",
+      "lineItems(first: 250)",
+      "originalUnitPriceSet",
+      "sku",
+    ]) {
+      expect(selection).toContain(field);
+    }
+  });
+
+  it("selects child connections without page sizes in bulk operations", () => {
+    const selection = buildOrderSelection({ bulk: true });
+    expect(selection).toContain("__typename");
+    expect(selection).not.toContain("(first:");
+  });
+});
+
+describe("normalizeOrderStatus", () => {
+  it("normalizes statuses stored before the field map", () => {
+    expect(normalizeOrderStatus("financial_status", "PAID")).toBe("paid");
+    expect(normalizeOrderStatus("financial_status", undefined)).toBe(
+      undefined
+    );
+    expect(
+      normalizeOrderStatus("fulfillment_status", "PARTIALLY_FULFILLED")
+    ).toBe("partially_fulfilled");
+    expect(normalizeOrderStatus("fulfillment_status", "partial")).toBe(
+      "partially_fulfilled"
+    );
+    expect(normalizeOrderStatus("fulfillment_status", null)).toBe(
+      "unfulfilled"
+    );
+  });
+});
@@ -0,0 +1,553 @@
+import { isMoneyAmount, sumMoney } from "./money";
+import { Order, OrderLineItem } from "@/types/order";
+
+/**
+ * Declarative mapping from Shopify order data to our Order type.
+ *
+ * Every Order field lists where it lives in the GraphQL Admin API (also used
+ * for bulk operations) and in the REST payload sent with webhooks. The
+ * GraphQL selections and the normalizer are both generated from this map, so
+ * adding a field only needs a new entry here.
+ */
+
+type ScalarType =
+  | "id" // Numeric id, GraphQL gids are stripped to the trailing number
+  | "string" // Optional string, empty values become undefined
+  | "text" // Required string, defaults to ""
+  | "money" // Decimal amount as a string, "0" when missing or invalid
+  | "integer"
+  | "orderNumber" // "#1001" -> 1001
+  | "timestamp" // ISO 8601 in UTC
+  | "optionalTimestamp" // ISO 8601 in UTC, undefined when missing
+  | "status"; // Lowercase snake_case, e.g. "PARTIALLY_PAID" -> "partially_paid"
+
+interface ScalarMapping {
+  type: ScalarType;
+  graphql: string;
+  rest: string;
+  // Values that mean the same thing under a different name, after lowercasing
+  aliases?: Record<string, string>;
+  // Used when the source has no value
+  fallback?: string;
+}
+
+interface ObjectMapping {
+  graphql: string;
+  rest: string;
+  fields: FieldMap;
+}
+
+interface ListMapping {
+  // GraphQL connection (edges -> node) in queries, a plain array in REST
+  connection: string;
+  rest: string;
+  fields: FieldMap;
+}
+
+type FieldMapping = ScalarMapping | ObjectMapping | ListMapping;
+type FieldMap = Record<string, FieldMapping>;
+
+export type OrderSource = "graphql" | "rest";
+
+const MONEY_FIELDS: FieldMap = {
+  amount: { type: "money", graphql: "amount", rest: "amount" },
+  currency_code: {
+    type: "string",
+    graphql: "currencyCode",
+    rest: "currency_code",
+  },
+};
+
+const MONEY_SET_FIELDS: FieldMap = {
+  shop_money: {
+    graphql: "shopMoney",
+    rest: "shop_money",
+    fields: MONEY_FIELDS,
+  },
+  presentment_money: {
+    graphql: "presentmentMoney",
+    rest: "presentment_money",
+    fields: MONEY_FIELDS,
+  },
+};
+
+export const ORDER_FIELD_MAP: FieldMap = {
+  id: { type: "id", graphql: "id", rest: "id" },
+  order_number: { type: "orderNumber", graphql: "name", rest: "name" },
+  email: { type: "string", graphql: "email", rest: "email" },
+  created_at: { type: "timestamp", graphql: "createdAt", rest: "created_at" },
+  updated_at: { type: "timestamp", graphql: "updatedAt", rest: "updated_at" },
+  cancelled_at: {
+    type: "optionalTimestamp",
+    graphql: "cancelledAt",
+    rest: "cancelled_at",
+  },
+  // Set when the order is archived (closed) in Shopify
+  closed_at: {
+    type: "optionalTimestamp",
+    graphql: "closedAt",
+    rest: "closed_at",
+  },
+  total_price: {
+    type: "money",
+    graphql: "totalPriceSet.shopMoney.amount",
+    rest: "total_price",
+  },
+  subtotal_price: {
+    type: "money",
+    graphql: "subtotalPriceSet.shopMoney.amount",
+    rest: "subtotal_price",
+  },
+  total_tax: {
+    type: "money",
+    graphql: "totalTaxSet.shopMoney.amount",
+    rest: "total_tax",
+  },
+  total_discounts: {
+    type: "money",
+    graphql: "totalDiscountsSet.shopMoney.amount",
+    rest: "total_discounts",
+  },
+  // REST orders have no refunded total; see sumRestRefunds
+  total_refunded: {
+    type: "money",
+    graphql: "totalRefundedSet.shopMoney.amount",
+    rest: "total_refunded",
+  },
+  total_price_set: {
+    graphql: "totalPriceSet",
+    rest: "total_price_set",
+    fields: MONEY_SET_FIELDS,
+  },
+  total_shipping_price_set: {
+    graphql: "totalShippingPriceSet",
+    rest: "total_shipping_price_set",
+    fields: MONEY_SET_FIELDS,
+  },
+  shipping_address: {
+    graphql: "shippingAddress",
+    rest: "shipping_address",
+    fields: {
+      first_name: { type: "string", graphql: "firstName", rest: "first_name" },
+      last_name: { type: "string", graphql: "lastName", rest: "last_name" },
+      address1: { type: "string", graphql: "address1", rest: "address1" },
+      address2: { type: "string", graphql: "address2", rest: "address2" },
+      city: { type: "string", graphql: "city", rest: "city" },
+      province: { type: "string", graphql: "province", rest: "province" },
+      country: { type: "string", graphql: "country", rest: "country" },
+      zip: { type: "string", graphql: "zip", rest: "zip" },
+    },
+  },
+  line_items: {
+    connection: "lineItems",
+    rest: "line_items",
+    fields: {
+      id: { type: "id", graphql: "id", rest: "id" },
+      title: { type: "text", graphql: "title", rest: "title" },
+      quantity: { type: "integer", graphql: "quantity", rest: "quantity" },
+      price: {
+        type: "money",
+        graphql: "originalUnitPriceSet.shopMoney.amount",
+        rest: "price",
+      },
+      sku: { type: "string", graphql: "variant.sku", rest: "sku" },
+    },
+  },
+  financial_status: {
+    type: "status",
+    graphql: "displayFinancialStatus",
+    rest: "financial_status",
+  },
+  fulfillment_status: {
+    type: "status",
+    graphql: "displayFulfillmentStatus",
+    rest: "fulfillment_status",
+    // REST reports unfulfilled orders as null and partial ones as "partial"
+    aliases: { partial: "partially_fulfilled" },
+    fallback: "unfulfilled",
+  },
+  currency: { type: "string", graphql: "currencyCode", rest: "currency" },
+  presentment_currency: {
+    type: "string",
+    graphql: "presentmentCurrencyCode",
+    rest: "presentment_currency",
+  },
+  customer: {
+    graphql: "customer",
+    rest: "customer",
+    fields: {
+      id: { type: "id", graphql: "id", rest: "id" },
+      email: { type: "string", graphql: "email", rest: "email" },
+      first_name: { type: "string", graphql: "firstName", rest: "first_name" },
+      last_name: { type: "string", graphql: "lastName", rest: "last_name" },
+    },
+  },
+};
+
+export const DEFAULT_CONNECTION_PAGE_SIZE = 250;
+
+function isListMapping(mapping: FieldMapping): mapping is ListMapping {
+  return "connection" in mapping;
+}
+
+function isObjectMapping(mapping: FieldMapping): mapping is ObjectMapping {
+  return "fields" in mapping && !("connection" in mapping);
+}
+
+interface SelectionNode {
+  children: Map<string, SelectionNode>;
+  connection?: boolean;
+}
+
+export interface OrderSelectionOptions {
+  // Page size for nested connections such as lineItems. Bulk operations
+  // ignore it and always return every child.
+  connectionPageSize?: number;
+  // Bulk operations need __typename to tell orders and their children apart
+  bulk?: boolean;
+}
+
+function getChildNode(parent: SelectionNode, path: string): SelectionNode {
+  let node = parent;
+  for (const key of path.split(".")) {
+    let child = node.children.get(key);
+    if (!child) {
+      child = { children: new Map() };
+      node.children.set(key, child);
+    }
+    node = child;
+  }
+  return node;
+}
+
+function addFieldsToSelection(node: SelectionNode, fields: FieldMap) {
+  for (const mapping of Object.values(fields)) {
+    if (isListMapping(mapping)) {
+      const child = getChildNode(node, mapping.connection);
+      child.connection = true;
+      addFieldsToSelection(child, mapping.fields);
+    } else if (isObjectMapping(mapping)) {
+      addFieldsToSelection(getChildNode(node, mapping.graphql), mapping.fields);
+    } else {
+      getChildNode(node, mapping.graphql);
+    }
+  }
+}
+
+function renderSelection(
+  node: SelectionNode,
+  options: OrderSelectionOptions,
+  indent: string
+): string {
+  const lines: string[] = options.bulk ? [`${indent}__typename`] : [];
+
+  for (const [name, child] of node.children) {
+    if (child.children.size === 0) {
+      lines.push(`${indent}${name}`);
+    } else if (child.connection) {
+      const args = options.bulk
+        ? ""
+        : `(first: ${options.connectionPageSize ?? DEFAULT_CONNECTION_PAGE_SIZE})`;
+      const inner = renderSelection(child, options, `${indent}      `);
+      lines.push(
+        `${indent}${name}${args} {\n${indent}  edges {\n${indent}    node {\n${inner}\n${indent}    }\n${indent}  }\n${indent}}`
+      );
+    } else {
+      const inner = renderSelection(
+        child,
+        { ...options, bulk: false },
+        `${indent}  `
+      );
+      lines.push(`${indent}${name} {\n${inner}\n${indent}}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Build the selection set for an Order node from ORDER_FIELD_MAP
+ */
+export function buildOrderSelection(
+  options: OrderSelectionOptions = {},
+  indent = "  "
+): string {
+  const root: SelectionNode = { children: new Map() };
+  addFieldsToSelection(root, ORDER_FIELD_MAP);
+  return renderSelection(root, options, indent);
+}
+
+/**
+ * Build the `OrderFields` fragment shared by the regular order queries
+ */
+export function buildOrderFragment(
+  options: Omit<OrderSelectionOptions, "bulk"> = {}
+): string {
+  return `fragment OrderFields on Order {\n${buildOrderSelection(options)}\n}`;
+}
+
+function readPath(data: unknown, path: string): unknown {
+  let value = data;
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== "";
+}
+
+/**
+ * Strip a GraphQL gid (gid://shopify/Order/123) down to its numeric id
+ */
+export function parseShopifyId(id: unknown): string {
+  return isPresent(id)
+    ? String(id).replace(/^gid:\/\/shopify\/\w+\//, "")
+    : "";
+}
+
+function normalizeTimestamp(value: unknown): string {
+  if (!isPresent(value)) return new Date().toISOString();
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? String(value) : date.toISOString();
+}
+
+function normalizeScalar(mapping: ScalarMapping, value: unknown): unknown {
+  if (!isPresent(value) && mapping.fallback !== undefined) {
+    return mapping.fallback;
+  }
+
+  switch (mapping.type) {
+    case "id":
+      return parseShopifyId(value);
+    case "string":
+      return isPresent(value) ? String(value) : undefined;
+    case "text":
+      return isPresent(value) ? String(value) : "";
+    case "money":
+      return isPresent(value) && isMoneyAmount(String(value))
+        ? String(value)
+        : "0";
+    case "integer":
+      return typeof value === "number" ? value : parseInt(String(value)) || 0;
+    case "orderNumber":
+      return parseInt(String(value ?? "").replace("#", "")) || 0;
+    case "timestamp":
+      return normalizeTimestamp(value);
+    case "optionalTimestamp":
+      return isPresent(value) ? normalizeTimestamp(value) : undefined;
+    case "status": {
+      if (!isPresent(value)) return undefined;
+      const status = String(value).toLowerCase();
+      return mapping.aliases?.[status] ?? status;
+    }
+  }
+}
+
+// GraphQL connections arrive as { edges: [{ node }] }, REST lists as arrays
+function readList(
+  mapping: ListMapping,
+  data: unknown,
+  source: OrderSource
+): unknown[] {
+  if (source === "rest") {
+    const list = readPath(data, mapping.rest);
+    return Array.isArray(list) ? list : [];
+  }
+
+  const edges = readPath(data, `${mapping.connection}.edges`);
+  return Array.isArray(edges)
+    ? edges.map((edge) => (edge as { node?: unknown }).node)
+    : [];
+}
+
+function normalizeFields(
+  fields: FieldMap,
+  data: unknown,
+  source: OrderSource
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [field, mapping] of Object.entries(fields)) {
+    if (isListMapping(mapping)) {
+      result[field] = readList(mapping, data, source).map((item) =>
+        normalizeFields(mapping.fields, item, source)
+      );
+    } else if (isObjectMapping(mapping)) {
+      const value = readPath(data, mapping[source]);
+      result[field] =
+        value !== null && typeof value === "object"
+          ? normalizeFields(mapping.fields, value, source)
+          : undefined;
+    } else {
+      result[field] = normalizeScalar(mapping, readPath(data, mapping[source]));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Total of the successful refund transactions in a REST order payload
+ */
+function sumRestRefunds(payload: unknown): string {
+  const refunds = readPath(payload, "refunds");
+  if (!Array.isArray(refunds)) return "0";
+
+  const amounts: string[] = [];
+  for (const refund of refunds) {
+    const transactions = readPath(refund, "transactions");
+    if (!Array.isArray(transactions)) continue;
+    for (const transaction of transactions) {
+      const { kind, status, amount } = transaction as Record<string, unknown>;
+      if (
+        kind === "refund" &&
+        status === "success" &&
+        isMoneyAmount(String(amount))
+      ) {
+        amounts.push(String(amount));
+      }
+    }
+  }
+  return sumMoney(amounts);
+}
+
+/**
+ * Normalize Shopify order data from any source into our Order type
+ */
+export function normalizeOrder(data: unknown, source: OrderSource): Order {
+  const order = normalizeFields(
+    ORDER_FIELD_MAP,
+    data,
+    source
+  ) as unknown as Order;
+
+  // Amounts are in the order's currencies when Shopify omits them
+  for (const moneySet of [
+    order.total_price_set,
+    order.total_shipping_price_set,
+  ]) {
+    if (moneySet?.shop_money && !moneySet.shop_money.currency_code) {
+      moneySet.shop_money.currency_code = order.currency || "USD";
+    }
+    if (
+      moneySet?.presentment_money &&
+      !moneySet.presentment_money.currency_code
+    ) {
+      moneySet.presentment_money.currency_code =
+        order.presentment_currency || order.currency || "USD";
+    }
+  }
+
+  if (source === "rest") {
+    order.total_refunded = sumRestRefunds(data);
+  }
+
+  return order;
+}
+
+/**
+ * Normalize an Order node from a GraphQL query or a bulk operation
+ */
+export function normalizeGraphQLOrder(node: unknown): Order {
+  return normalizeOrder(node, "graphql");
+}
+
+/**
+ * Normalize a REST order payload, as sent with orders/* webhooks
+ */
+export function normalizeWebhookOrder(payload: unknown): Order {
+  return normalizeOrder(payload, "rest");
+}
+
+export type OrderStatusField = "financial_status" | "fulfillment_status";
+
+/**
+ * Normalize a status the way normalizeOrder does, e.g. "PAID" -> "paid" or a
+ * missing fulfillment status -> "unfulfilled". Used to migrate orders stored
+ * before statuses were normalized.
+ */
+export function normalizeOrderStatus(
+  field: OrderStatusField,
+  value: unknown
+): string | undefined {
+  return normalizeScalar(ORDER_FIELD_MAP[field] as ScalarMapping, value) as
+    | string
+    | undefined;
+}
+
+/**
+ * Normalize a single GraphQL line item node, e.g. a bulk operation child row
+ */
+export function normalizeGraphQLLineItem(node: unknown): OrderLineItem {
+  const mapping = ORDER_FIELD_MAP.line_items as ListMapping;
+  return normalizeFields(
+    mapping.fields,
+    node,
+    "graphql"
+  ) as unknown as OrderLineItem;
+}
+
+function listMoneyPaths(fields: FieldMap, prefix = ""): string[] {
+  return Object.entries(fields).flatMap(([field, mapping]) => {
+    if (isListMapping(mapping) || isObjectMapping(mapping)) {
+      return listMoneyPaths(mapping.fields, `${prefix}${field}.`);
+    }
+    return mapping.type === "money" ? [`${prefix}${field}`] : [];
+  });
+}
+
+/**
+ * Dotted paths of every money field, e.g. "line_items.price"
+ */
+export const ORDER_MONEY_PATHS = listMoneyPaths(ORDER_FIELD_MAP);
+
+function mapAmounts(
+  fields: FieldMap,
+  data: Record<string, unknown>,
+  convert: (amount: unknown) => unknown
+): Record<string, unknown> {
+  const result = { ...data };
+
+  for (const [field, mapping] of Object.entries(fields)) {
+    const value = data[field];
+    if (value === undefined || value === null) continue;
+
+    if (isListMapping(mapping)) {
+      if (Array.isArray(value)) {
+        result[field] = value.map((item) =>
+          mapAmounts(mapping.fields, item, convert)
+        );
+      }
+    } else if (isObjectMapping(mapping)) {
+      if (typeof value === "object") {
+        result[field] = mapAmounts(
+          mapping.fields,
+          value as Record<string, unknown>,
+          convert
+        );
+      }
+    } else if (mapping.type === "money") {
+      result[field] = convert(value);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Copy an order (or part of one, e.g. `{ line_items }`) with `convert`
+ * applied to every money field, such as to store amounts as decimals
+ */
+export function mapOrderAmounts<T extends object>(
+  order: T,
+  convert: (amount: unknown) => unknown
+): T {
+  return mapAmounts(
+    ORDER_FIELD_MAP,
+    order as Record<string, unknown>,
+    convert
+  ) as T;
+}
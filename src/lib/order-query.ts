@@ -0,0 +1,144 @@
+import { OrderListParams, OrderSortKey, SortDirection } from "@/types/order";
+
+export const ORDER_SORT_KEYS: OrderSortKey[] = [
+  "created_at",
+  "updated_at",
+  "order_number",
+  "total_price",
+];
+
+export const DEFAULT_ORDER_SORT: OrderSortKey = "created_at";
+export const DEFAULT_SORT_DIRECTION: SortDirection = "desc";
+
+type ListKey =
+  | "financialStatus"
+  | "fulfillmentStatus"
+  | "syncStatus"
+  | "currency"
+  | "country";
+
+// Query string names for the list filters (comma-separated values)
+const LIST_PARAMS: Record<ListKey, string> = {
+  financialStatus: "financial_status",
+  fulfillmentStatus: "fulfillment_status",
+  syncStatus: "sync_status",
+  currency: "currency",
+  country: "country",
+};
+
+function parseList(value: string | null): string[] | undefined {
+  if (!value) return undefined;
+  const values = value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+function parsePositiveInt(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseInt(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Whether any search or filter (as opposed to sort/pagination) param is set
+ */
+export function hasOrderFilters(params: OrderListParams): boolean {
+  return Boolean(
+    params.q ||
+    params.financialStatus ||
+    params.fulfillmentStatus ||
+    params.syncStatus ||
+    params.currency ||
+    params.country ||
+    params.createdFrom ||
+    params.createdTo
+  );
+}
+
+/**
+ * Whether the params ask for keyset (cursor) pagination rather than page/limit
+ */
+export function isCursorPagination(params: OrderListParams): boolean {
+  return (
+    params.pagination === "cursor" || Boolean(params.after || params.before)
+  );
+}
+
+/**
+ * Parse order list search, filter, sort and pagination params from a query string.
+ * Shared by the API route and the client so both read the URL the same way.
+ */
+export function parseOrderListParams(
+  searchParams: URLSearchParams
+): OrderListParams {
+  const params: OrderListParams = {};
+
+  const q = searchParams.get("q")?.trim();
+  if (q) params.q = q;
+
+  (Object.keys(LIST_PARAMS) as ListKey[]).forEach((key) => {
+    const values = parseList(searchParams.get(LIST_PARAMS[key]));
+    if (values) params[key] = values;
+  });
+
+  const createdFrom = searchParams.get("created_from");
+  if (createdFrom) params.createdFrom = createdFrom;
+  const createdTo = searchParams.get("created_to");
+  if (createdTo) params.createdTo = createdTo;
+
+  const sort = searchParams.get("sort") as OrderSortKey | null;
+  if (sort && ORDER_SORT_KEYS.includes(sort)) params.sort = sort;
+
+  const direction = searchParams.get("direction");
+  if (direction === "asc" || direction === "desc") {
+    params.direction = direction;
+  }
+
+  const page = parsePositiveInt(searchParams.get("page"));
+  if (page) params.page = page;
+  const limit = parsePositiveInt(searchParams.get("limit"));
+  if (limit) params.limit = limit;
+
+  const pagination = searchParams.get("pagination");
+  if (pagination === "page" || pagination === "cursor") {
+    params.pagination = pagination;
+  }
+  const after = searchParams.get("after");
+  if (after) params.after = after;
+  const before = searchParams.get("before");
+  if (before) params.before = before;
+
+  return params;
+}
+
+/**
+ * Serialize order list params back into a query string, omitting empty values
+ */
+export function toOrderListSearchParams(
+  params: OrderListParams
+): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  if (params.q) searchParams.set("q", params.q);
+
+  (Object.keys(LIST_PARAMS) as ListKey[]).forEach((key) => {
+    const values = params[key];
+    if (values && values.length > 0) {
+      searchParams.set(LIST_PARAMS[key], values.join(","));
+    }
+  });
+
+  if (params.createdFrom) searchParams.set("created_from", params.createdFrom);
+  if (params.createdTo) searchParams.set("created_to", params.createdTo);
+  if (params.sort) searchParams.set("sort", params.sort);
+  if (params.direction) searchParams.set("direction", params.direction);
+  if (params.page) searchParams.set("page", String(params.page));
+  if (params.limit) searchParams.set("limit", String(params.limit));
+  if (params.pagination) searchParams.set("pagination", params.pagination);
+  if (params.after) searchParams.set("after", params.after);
+  if (params.before) searchParams.set("before", params.before);
+
+  return searchParams;
+}
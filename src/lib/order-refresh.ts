@@ -0,0 +1,183 @@
+import { getDb } from "./mongodb";
+import { getShopId } from "./shop-context";
+import { Order } from "@/types/order";
+
+/**
+ * Staleness-based refresh of open orders.
+ *
+ * Webhooks keep most orders current, but a missed delivery would leave an
+ * order stale. Each incremental sync refetches the open orders that are most
+ * overdue, where an order's refresh interval depends on its age (recent
+ * orders change more) and its status (orders waiting on payment or partly
+ * fulfilled change more). Orders in a terminal state are never refetched.
+ */
+
+const HOUR_MS = 60 * 60_000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Refresh interval by order age; older orders use the last interval
+const REFRESH_INTERVALS = [
+  { maxAgeDays: 7, intervalMs: HOUR_MS },
+  { maxAgeDays: 30, intervalMs: 6 * HOUR_MS },
+  { maxAgeDays: 90, intervalMs: DAY_MS },
+];
+const OLD_ORDER_REFRESH_INTERVAL_MS = 7 * DAY_MS;
+
+// Orders in these states are refreshed twice as often
+const ACTIVE_FINANCIAL_STATUSES = ["pending", "authorized", "partially_paid"];
+const ACTIVE_FULFILLMENT_STATUSES = [
+  "partially_fulfilled",
+  "in_progress",
+  "on_hold",
+];
+const ACTIVE_INTERVAL_FACTOR = 0.5;
+
+// Orders in these states won't change in a way we track
+const TERMINAL_FINANCIAL_STATUSES = ["refunded", "voided"];
+const TERMINAL_FULFILLMENT_STATUSES = ["fulfilled", "restocked"];
+
+const DEFAULT_REFRESH_BUDGET = 300;
+
+/**
+ * Maximum number of orders refreshed per sync run, from ORDER_REFRESH_BUDGET
+ */
+export function getOrderRefreshBudget(): number {
+  const budget = parseInt(process.env.ORDER_REFRESH_BUDGET || "");
+  return isNaN(budget) || budget < 0 ? DEFAULT_REFRESH_BUDGET : budget;
+}
+
+function toDate(field: string) {
+  return {
+    $convert: {
+      input: field,
+      to: "date",
+      onError: new Date(0),
+      onNull: new Date(0),
+    },
+  };
+}
+
+function lowercase(field: string) {
+  return { $toLower: { $ifNull: [field, ""] } };
+}
+
+function buildRefreshPipeline(shopId: string, now: Date, limit: number) {
+  const intervalByAge = {
+    $switch: {
+      branches: REFRESH_INTERVALS.map((tier) => ({
+        case: { $lte: ["$_ageMs", tier.maxAgeDays * DAY_MS] },
+        then: tier.intervalMs,
+      })),
+      default: OLD_ORDER_REFRESH_INTERVAL_MS,
+    },
+  };
+  const isActive = {
+    $or: [
+      { $in: [lowercase("$financial_status"), ACTIVE_FINANCIAL_STATUSES] },
+      {
+        $in: [lowercase("$fulfillment_status"), ACTIVE_FULFILLMENT_STATUSES],
+      },
+    ],
+  };
+
+  return [
+    // null also matches fields that are missing
+    {
+      $match: {
+        shopId,
+        deletedAt: null,
+        cancelled_at: null,
+        closed_at: null,
+        $expr: {
+          $and: [
+            {
+              $not: [
+                {
+                  $in: [
+                    lowercase("$financial_status"),
+                    TERMINAL_FINANCIAL_STATUSES,
+                  ],
+                },
+              ],
+            },
+            {
+              $not: [
+                {
+                  $in: [
+                    lowercase("$fulfillment_status"),
+                    TERMINAL_FULFILLMENT_STATUSES,
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      },
+    },
+    {
+      $addFields: {
+        _ageMs: { $subtract: [now, toDate("$created_at")] },
+        _checkedAt: {
+          $max: [toDate("$syncedAt"), toDate("$refreshCheckedAt")],
+        },
+      },
+    },
+    {
+      $addFields: {
+        _intervalMs: {
+          $multiply: [
+            intervalByAge,
+            { $cond: [isActive, ACTIVE_INTERVAL_FACTOR, 1] },
+          ],
+        },
+      },
+    },
+    // How many intervals have passed since the order was last checked
+    {
+      $addFields: {
+        _staleness: {
+          $divide: [{ $subtract: [now, "$_checkedAt"] }, "$_intervalMs"],
+        },
+      },
+    },
+    { $match: { _staleness: { $gte: 1 } } },
+    { $sort: { _staleness: -1 as const } },
+    { $limit: limit },
+    { $project: { _id: 0, id: 1 } },
+  ];
+}
+
+/**
+ * Get the ids of the open orders most overdue for a refresh, up to `limit`
+ */
+export async function getOrdersDueForRefresh(
+  limit: number = getOrderRefreshBudget()
+): Promise<string[]> {
+  if (limit === 0) return [];
+  const db = await getDb();
+  const ordersCollection = db.collection<Order>("orders");
+
+  const orders = await ordersCollection
+    .aggregate<Pick<Order, "id">>(
+      buildRefreshPipeline(getShopId(), new Date(), limit)
+    )
+    .toArray();
+  return orders.map((order) => order.id);
+}
+
+/**
+ * Record that a refresh was attempted, so orders that keep failing don't
+ * crowd out the rest of the queue
+ */
+export async function markOrdersRefreshChecked(
+  orderIds: string[]
+): Promise<void> {
+  if (orderIds.length === 0) return;
+  const db = await getDb();
+  const ordersCollection = db.collection<Order>("orders");
+
+  await ordersCollection.updateMany(
+    { shopId: getShopId(), id: { $in: orderIds } },
+    { $set: { refreshCheckedAt: new Date().toISOString() } }
+  );
+}
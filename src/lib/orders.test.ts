@@ -0,0 +1,152 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Order } from "@/types/order";
+import { Shop } from "@/types/shop";
+
+/**
+ * Writes of orders fetched from Shopify over stored copies. These need a
+ * MongoDB server: set MONGODB_TEST_URI to run them.
+ */
+
+const SHOP = {
+  _id: "orders-test.myshopify.com",
+  timezone: "UTC",
+  currency: "USD",
+} as Shop;
+
+function buildOrder(id: string, updatedAt: string): Order {
+  return {
+    id,
+    order_number: Number(id),
+    email: "jane@example.com",
+    created_at: "2026-03-01T10:00:00.000Z",
+    updated_at: updatedAt,
+    total_price: "25.00",
+    subtotal_price: "20.00",
+    total_tax: "5.00",
+    shipping_address: {
+      first_name: "Jane",
+      last_name: "Doe",
+      address1: "1 Main St",
+      city: "Springfield",
+      province: "IL",
+      country: "US",
+      zip: "62701",
+    },
+    line_items: [
+      { id: "1", title: "Hat", quantity: 1, price: "20.00", sku: "HAT-1" },
+    ],
+    financial_status: "paid",
+    fulfillment_status: "unfulfilled",
+    currency: "USD",
+    customer: {
+      id: "7",
+      email: "jane@example.com",
+      first_name: "Jane",
+      last_name: "Doe",
+    },
+  };
+}
+
+describe.skipIf(!process.env.MONGODB_TEST_URI)("redacted orders", () => {
+  async function cleanUp() {
+    const { getDb } = await import("./mongodb");
+    const db = await getDb();
+    for (const name of [
+      "orders",
+      "order_events",
+      "order_metrics",
+      "daily_metrics",
+    ]) {
+      await db.collection(name).deleteMany({ shopId: SHOP._id });
+    }
+    await db.collection("audit_log").deleteMany({ shopDomain: SHOP._id });
+  }
+
+  async function loadOrder(orderId: string) {
+    const { getDb } = await import("./mongodb");
+    return (await getDb())
+      .collection<Order>("orders")
+      .findOne({ shopId: SHOP._id, id: orderId });
+  }
+
+  async function redactAndReload(orderId: string) {
+    const { redactCustomerData } = await import("./privacy");
+    const { runWithShop } = await import("./shop-context");
+    await runWithShop(SHOP, () =>
+      redactCustomerData({ shopDomain: SHOP._id, orderIds: [orderId] })
+    );
+    return loadOrder(orderId);
+  }
+
+  function expectRedacted(order: Order | null) {
+    expect(order).not.toBeNull();
+    expect(order!.redactedAt).toBeDefined();
+    expect(order!.email).toBeUndefined();
+    expect(order!.customer).toEqual({ id: "7" });
+    expect(order!.shipping_address).toEqual({ province: "IL", country: "US" });
+    expect(order!.searchTerms).toEqual(["hat-1"]);
+  }
+
+  beforeAll(async () => {
+    process.env.MONGODB_URI = process.env.MONGODB_TEST_URI;
+    await cleanUp();
+  });
+
+  afterAll(cleanUp);
+
+  it("stay redacted when a webhook writes them again", async () => {
+    const { upsertOrderIfNewer } = await import("./orders");
+    const { runWithShop } = await import("./shop-context");
+    const context = { source: "webhook" as const };
+
+    await runWithShop(SHOP, () =>
+      upsertOrderIfNewer(buildOrder("1001", "2026-03-01T10:00:00Z"), context)
+    );
+    expectRedacted(await redactAndReload("1001"));
+
+    const updated = {
+      ...buildOrder("1001", "2026-03-02T10:00:00Z"),
+      financial_status: "refunded",
+    };
+    await expect(
+      runWithShop(SHOP, () => upsertOrderIfNewer(updated, context))
+    ).resolves.toBe("updated");
+
+    const stored = await loadOrder("1001");
+    expectRedacted(stored);
+    expect(stored!.financial_status).toBe("refunded");
+  });
+
+  it("stay redacted when a sync writes them again", async () => {
+    const { upsertOrders } = await import("./orders");
+    const { runWithShop } = await import("./shop-context");
+
+    await runWithShop(SHOP, () =>
+      upsertOrders([buildOrder("1002", "2026-03-01T10:00:00Z")])
+    );
+    expectRedacted(await redactAndReload("1002"));
+
+    await runWithShop(SHOP, () =>
+      upsertOrders([buildOrder("1002", "2026-03-02T10:00:00Z")])
+    );
+    expectRedacted(await loadOrder("1002"));
+  });
+
+  it("are written in full when not redacted", async () => {
+    const { upsertOrders } = await import("./orders");
+    const { runWithShop } = await import("./shop-context");
+
+    await runWithShop(SHOP, () =>
+      upsertOrders([buildOrder("1003", "2026-03-01T10:00:00Z")])
+    );
+    const stored = await loadOrder("1003");
+    expect(stored!.email).toBe("jane@example.com");
+    expect(stored).not.toHaveProperty("syncError");
+    expect(stored!.searchTerms).toEqual([
+      "jane@example.com",
+      "jane",
+      "doe",
+      "hat-1",
+    ]);
+  });
+});
@@ -1,28 +1,174 @@
+import {
+  AnyBulkWriteOperation,
+  Collection,
+  Decimal128,
+  Document,
+  Filter,
+  MongoBulkWriteError,
+  MongoServerError,
+} from "mongodb";
+import {
+  aggregateDailyMetrics,
+  buildCurrencyConversionStages,
+  buildMetricsTotalsStages,
+  listDailyMetricsCurrencies,
+  MetricsAggregate,
+  updateDailyMetrics,
+} from "./daily-metrics";
+import { getConversionRates } from "./exchange-rates";
+import { DEFAULT_CURRENCY, isMoneyAmount } from "./money";
 import { getDb } from "./mongodb";
-import { Order, OrderMetrics } from "@/types/order";
+import {
+  deleteOrderEvents,
+  diffOrders,
+  OrderEventContext,
+  recordOrderEvents,
+} from "./order-events";
+import { escapeRegex } from "./regex";
+import { getShopId } from "./shop-context";
+import { getShopTimezone } from "./shops";
+import { addDays, getZonedStartOfDay } from "./timezone";
+import {
+  getComparisonRange,
+  getSummaryChanges,
+  listPeriods,
+  MetricsRange,
+} from "./metrics-query";
+import {
+  mapOrderAmounts,
+  normalizeOrderStatus,
+  ORDER_MONEY_PATHS,
+  OrderStatusField,
+} from "./order-mapping";
+import {
+  DEFAULT_ORDER_SORT,
+  DEFAULT_SORT_DIRECTION,
+  isCursorPagination,
+  ORDER_SORT_KEYS,
+} from "./order-query";
+import {
+  CursorPagination,
+  MetricsComparison,
+  MetricsGranularity,
+  MetricsSummary,
+  Order,
+  OrderLineItem,
+  OrderListParams,
+  OrderMetrics,
+  OrderSortKey,
+  PagePagination,
+  SortDirection,
+} from "@/types/order";
 
 interface SyncMetadata {
   _id: string;
+  shopId: string;
   lastSyncAt: string;
   updatedAt: string;
 }
 
-interface BulkSyncState {
-  _id: string;
-  status: "idle" | "pending" | "completed" | "failed" | "canceled";
-  operationId?: string;
-  updatedAt: string;
-  synced?: number;
+const SYNC_METADATA_KEY = "sync_metadata";
+const DUPLICATE_KEY_ERROR = 11000;
+const MAX_PAGE_SIZE = 100;
+const ESTIMATE_CAP = 10_000;
+const MIGRATION_BATCH_SIZE = 1000;
+const ORDER_STATUS_FIELDS: OrderStatusField[] = [
+  "financial_status",
+  "fulfillment_status",
+];
+
+/**
+ * Personal fields removed from orders on customers/redact. Country and
+ * province stay so that regional reporting keeps working.
+ */
+export const ORDER_PII_FIELDS = [
+  "email",
+  "customer.email",
+  "customer.first_name",
+  "customer.last_name",
+  "shipping_address.first_name",
+  "shipping_address.last_name",
+  "shipping_address.address1",
+  "shipping_address.address2",
+  "shipping_address.city",
+  "shipping_address.zip",
+];
+
+let orderIndexesReady: Promise<string[]> | null = null;
+// Set once the money migration is seen to have completed
+let orderAmountsMigrated = false;
+
+/**
+ * Indexes for the order list sorts and their keyset pagination (each sort key
+ * with id as the tiebreaker), search, the metrics date range, and one stored
+ * copy per order, so a conditional upsert that doesn't match a newer stored
+ * copy fails instead of inserting a second one
+ */
+async function ensureOrderIndexes(ordersCollection: Collection<Order>) {
+  if (!orderIndexesReady) {
+    orderIndexesReady = Promise.all([
+      ordersCollection.createIndex({ shopId: 1, id: 1 }, { unique: true }),
+      ...ORDER_SORT_KEYS.map((sortKey) =>
+        ordersCollection.createIndex({ shopId: 1, [sortKey]: 1, id: 1 })
+      ),
+      ordersCollection.createIndex({ shopId: 1, searchTerms: 1 }),
+    ]).catch((error) => {
+      orderIndexesReady = null;
+      throw error;
+    });
+  }
+  await orderIndexesReady;
 }
 
-const SYNC_METADATA_KEY = "sync_metadata";
-const BULK_STATE_KEY = "bulk_state";
-const BULK_STATE_TTL_MS = 60_000;
+// Each shop has its own sync metadata document
+function getSyncMetadataId(): string {
+  return `${SYNC_METADATA_KEY}:${getShopId()}`;
+}
+
+/**
+ * Amounts are stored as Decimal128 so the database sums them exactly.
+ * Orders written before the money migration may still hold strings.
+ */
+function toStoredAmounts<T extends object>(order: T): T {
+  return mapOrderAmounts(order, (amount) =>
+    typeof amount === "string" && isMoneyAmount(amount)
+      ? Decimal128.fromString(amount)
+      : amount
+  );
+}
 
-let cachedBulkState: BulkSyncState | null = null;
-let cachedBulkStateAt = 0;
+// The API keeps returning amounts as decimal strings
+function fromStoredAmounts<T extends object>(order: T): T {
+  return mapOrderAmounts(order, (amount) =>
+    amount instanceof Decimal128 ? amount.toString() : amount
+  );
+}
 
-export function serializeOrder(order: Order): Order {
+/**
+ * The lowercased emails, customer names and SKUs an order can be found by.
+ * Stored on the order so the search can match prefixes with an index.
+ */
+export function getOrderSearchTerms(
+  order: Partial<Pick<Order, "email" | "customer" | "line_items">>
+): string[] {
+  const values = [
+    order.email,
+    order.customer?.email,
+    order.customer?.first_name,
+    order.customer?.last_name,
+    ...(order.line_items || []).map((item) => item.sku),
+  ];
+  return Array.from(
+    new Set(
+      values
+        .map((value) => value?.trim().toLowerCase())
+        .filter((value): value is string => Boolean(value))
+    )
+  );
+}
+
+export function serializeOrder(storedOrder: Order): Order {
+  const order = fromStoredAmounts(storedOrder);
   return {
     ...order,
     id: order.id,
@@ -30,6 +176,8 @@ export function serializeOrder(order: Order): Order {
     email: order.email,
     created_at: order.created_at,
     updated_at: order.updated_at,
+    cancelled_at: order.cancelled_at,
+    closed_at: order.closed_at,
     total_price: order.total_price,
     subtotal_price: order.subtotal_price,
     total_tax: order.total_tax,
@@ -67,98 +215,504 @@ export function serializeOrder(order: Order): Order {
     syncStatus: order.syncStatus,
     syncError: order.syncError,
     syncedAt: order.syncedAt,
+    deletedAt: order.deletedAt,
+    redactedAt: order.redactedAt,
+    searchTerms: undefined,
   };
 }
 
-export async function getOrdersFromDb(page: number = 1, limit: number = 20) {
-  const db = await getDb();
-  const ordersCollection = db.collection<Order>("orders");
+// Case-insensitive exact match, since Shopify reports statuses as "PAID" via
+// GraphQL but "paid" via REST webhooks
+function matchAnyIgnoreCase(values: string[]) {
+  return { $in: values.map((v) => new RegExp(`^${escapeRegex(v)}$`, "i")) };
+}
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Accepts either a plain date (YYYY-MM-DD, UTC) or a full ISO timestamp
+function parseDateBoundary(value: string): string | null {
+  const date = new Date(
+    DATE_ONLY_PATTERN.test(value) ? `${value}T00:00:00.000Z` : value
+  );
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Build the MongoDB filter for the order list search and filter params
+ */
+export function buildOrdersFilter(params: OrderListParams): Filter<Order> {
+  // Orders deleted in Shopify are kept but hidden from the list
+  const conditions: Filter<Order>[] = [
+    { shopId: getShopId() },
+    { deletedAt: { $exists: false } },
+  ];
+
+  if (params.q) {
+    // Every term has to be the start of a search term, the order id or the
+    // order number. Anchored, case-sensitive prefixes can use the index.
+    const terms = params.q.split(/\s+/).filter(Boolean);
+    terms.forEach((term) => {
+      const termConditions: Filter<Order>[] = [
+        { searchTerms: new RegExp(`^${escapeRegex(term.toLowerCase())}`) },
+        { id: term },
+      ];
+      const orderNumber = term.replace(/^#/, "");
+      if (/^\d+$/.test(orderNumber)) {
+        termConditions.push({ order_number: parseInt(orderNumber) });
+      }
+      conditions.push({ $or: termConditions });
+    });
+  }
+
+  if (params.financialStatus) {
+    conditions.push({
+      financial_status: matchAnyIgnoreCase(params.financialStatus),
+    });
+  }
+  if (params.fulfillmentStatus) {
+    conditions.push({
+      fulfillment_status: matchAnyIgnoreCase(params.fulfillmentStatus),
+    });
+  }
+  if (params.syncStatus) {
+    conditions.push({
+      syncStatus: { $in: params.syncStatus as Order["syncStatus"][] },
+    });
+  }
+  if (params.currency) {
+    conditions.push({ currency: matchAnyIgnoreCase(params.currency) });
+  }
+  if (params.country) {
+    conditions.push({
+      "shipping_address.country": matchAnyIgnoreCase(params.country),
+    });
+  }
+
+  const createdAt: Record<string, string> = {};
+  const createdFrom = params.createdFrom
+    ? parseDateBoundary(params.createdFrom)
+    : null;
+  if (createdFrom) {
+    createdAt.$gte = createdFrom;
+  }
+  const createdTo = params.createdTo
+    ? parseDateBoundary(params.createdTo)
+    : null;
+  if (createdTo && params.createdTo) {
+    if (DATE_ONLY_PATTERN.test(params.createdTo)) {
+      // A plain "to" date includes the whole day
+      const nextDay = new Date(createdTo);
+      nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+      createdAt.$lt = nextDay.toISOString();
+    } else {
+      createdAt.$lte = createdTo;
+    }
+  }
+  if (Object.keys(createdAt).length > 0) {
+    conditions.push({ created_at: createdAt });
+  }
+
+  return { $and: conditions };
+}
+
+interface OrderCursor {
+  sort: OrderSortKey;
+  direction: SortDirection;
+  value: string | number;
+  id: string;
+}
+
+/**
+ * Encode an opaque keyset cursor pointing at an order in the current sort
+ */
+function encodeOrderCursor(cursor: OrderCursor): string {
+  return Buffer.from(
+    JSON.stringify([cursor.sort, cursor.direction, cursor.value, cursor.id])
+  ).toString("base64url");
+}
+
+/**
+ * Decode a cursor, returning null if it is malformed or was issued for a
+ * different sort than the one requested
+ */
+export function decodeOrderCursor(
+  cursor: string,
+  params: OrderListParams
+): OrderCursor | null {
+  try {
+    const [sort, direction, value, id] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (
+      sort !== (params.sort || DEFAULT_ORDER_SORT) ||
+      direction !== (params.direction || DEFAULT_SORT_DIRECTION) ||
+      (typeof value !== "string" && typeof value !== "number") ||
+      typeof id !== "string" ||
+      // Prices are kept as decimal strings
+      (sort === "total_price" &&
+        (typeof value !== "string" || !isMoneyAmount(value)))
+    ) {
+      return null;
+    }
+    return { sort, direction, value, id };
+  } catch {
+    return null;
+  }
+}
+
+// The value to compare the sort field with. Prices are stored as Decimal128
+// once the money migration has completed.
+function getCursorValue(cursor: OrderCursor): string | number | Decimal128 {
+  return cursor.sort === "total_price"
+    ? Decimal128.fromString(String(cursor.value))
+    : cursor.value;
+}
+
+/**
+ * Count matching orders, stopping at ESTIMATE_CAP so large shops don't pay
+ * for a full count on every page. Deleted orders aren't counted.
+ */
+async function estimateOrderCount(
+  ordersCollection: Collection<Order>,
+  params: OrderListParams
+): Promise<{ count: number; capped: boolean }> {
+  const count = await ordersCollection.countDocuments(
+    buildOrdersFilter(params),
+    { limit: ESTIMATE_CAP }
+  );
+  return { count, capped: count >= ESTIMATE_CAP };
+}
+
+async function getOrdersPage(
+  ordersCollection: Collection<Order>,
+  params: OrderListParams,
+  limit: number
+) {
+  const page = params.page || 1;
+  const sortKey = params.sort || DEFAULT_ORDER_SORT;
+  const direction =
+    (params.direction || DEFAULT_SORT_DIRECTION) === "asc" ? 1 : -1;
+  const filter = buildOrdersFilter(params);
+
+  const total = await ordersCollection.countDocuments(filter);
 
-  const total = await ordersCollection.countDocuments();
   const orders = await ordersCollection
-    .find({})
-    .sort({ created_at: -1 })
+    .find(filter)
+    .sort({ [sortKey]: direction, id: direction })
     .skip((page - 1) * limit)
     .limit(limit)
     .toArray();
+
   return {
     orders: orders.map((order) => serializeOrder(order)),
     pagination: {
+      mode: "page",
       page,
       limit,
       total,
       totalPages: Math.ceil(total / limit),
-    },
+    } satisfies PagePagination,
+  };
+}
+
+/**
+ * Keyset pagination over (sort field, id). Pages never skip, so the cost stays
+ * the same on page 1 and page 4,000.
+ */
+async function getOrdersByCursor(
+  ordersCollection: Collection<Order>,
+  params: OrderListParams,
+  limit: number
+) {
+  const sortKey = params.sort || DEFAULT_ORDER_SORT;
+  const sortDirection = params.direction || DEFAULT_SORT_DIRECTION;
+  const filter = buildOrdersFilter(params);
+
+  const cursorParam = params.before || params.after;
+  const cursor = cursorParam ? decodeOrderCursor(cursorParam, params) : null;
+  const isBackward = Boolean(params.before && cursor);
+
+  // Walking backwards reads in the opposite order and flips the page afterwards
+  const readDirection = (sortDirection === "desc") !== isBackward ? -1 : 1;
+  const conditions: Filter<Order>[] = [filter];
+  if (cursor) {
+    const op = readDirection === -1 ? "$lt" : "$gt";
+    const value = getCursorValue(cursor);
+    conditions.push({
+      $or: [
+        { [sortKey]: { [op]: value } },
+        { [sortKey]: value, id: { [op]: cursor.id } },
+      ],
+    });
+  }
+
+  const rows = await ordersCollection
+    .find({ $and: conditions })
+    .sort({ [sortKey]: readDirection, id: readDirection })
+    .limit(limit + 1)
+    .toArray();
+  const hasMore = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  if (isBackward) {
+    pageRows.reverse();
+  }
+
+  const toCursor = (row: Order) =>
+    encodeOrderCursor({
+      sort: sortKey,
+      direction: sortDirection,
+      value:
+        sortKey === "total_price"
+          ? String(row.total_price ?? "0")
+          : (row[sortKey] as string | number),
+      id: row.id,
+    });
+
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+  const hasNext = isBackward ? Boolean(cursor) : hasMore;
+  const hasPrev = isBackward ? hasMore : Boolean(cursor);
+
+  const nextCursor = hasNext && last ? toCursor(last) : null;
+  const prevCursor = hasPrev && first ? toCursor(first) : null;
+
+  const estimate = await estimateOrderCount(ordersCollection, params);
+
+  return {
+    orders: pageRows.map((order) => serializeOrder(order)),
+    pagination: {
+      mode: "cursor",
+      limit,
+      nextCursor,
+      prevCursor,
+      estimatedTotal: estimate.count,
+      estimatedTotalCapped: estimate.capped,
+    } satisfies CursorPagination,
   };
 }
 
-export async function getMetricsFromDb(days: number = 30) {
+/**
+ * Whether every stored price is a Decimal128. Until then orders whose prices
+ * are still strings can't be reached by a price cursor, which compares with
+ * Decimal128 and relies on the index order.
+ */
+async function haveOrderAmountsMigrated(): Promise<boolean> {
+  if (!orderAmountsMigrated) {
+    const db = await getDb();
+    orderAmountsMigrated = Boolean(
+      await db
+        .collection<{ _id: string }>("migrations")
+        .findOne({ _id: "order-amounts-decimal128" })
+    );
+  }
+  return orderAmountsMigrated;
+}
+
+export async function getOrdersFromDb(params: OrderListParams = {}) {
   const db = await getDb();
   const ordersCollection = db.collection<Order>("orders");
+  await ensureOrderIndexes(ordersCollection);
+  const limit = Math.min(params.limit || 20, MAX_PAGE_SIZE);
 
-  // Query orders from the last N days
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - days);
-  startDate.setHours(0, 0, 0, 0); // Start of day
-  const startDateISO = startDate.toISOString();
+  // Sorting by price falls back to page numbers until the money migration
+  // has completed
+  if (
+    isCursorPagination(params) &&
+    (params.sort !== "total_price" || (await haveOrderAmountsMigrated()))
+  ) {
+    return getOrdersByCursor(ordersCollection, params, limit);
+  }
+  return getOrdersPage(ordersCollection, params, limit);
+}
+
+// Amounts are Decimal128, or strings in orders stored before the money
+// migration; missing or malformed ones count as zero
+function toDecimal(field: string) {
+  return { $convert: { input: field, to: "decimal", onError: 0, onNull: 0 } };
+}
+
+/**
+ * Sum the matched orders per calendar day in `timeZone` and currency, in
+ * decimal so amounts don't pick up float drift, then convert them to the
+ * reporting currency and total the days per `granularity` period
+ */
+function buildMetricsPipeline(
+  match: Filter<Order>,
+  timeZone: string,
+  rates: Record<string, string>,
+  reportingCurrency: string,
+  granularity: MetricsGranularity
+): Document[] {
+  return [
+    { $match: match },
+    {
+      $group: {
+        _id: {
+          day: {
+            $dateToString: {
+              format: "%Y-%m-%d",
+              date: {
+                $dateFromString: {
+                  dateString: "$created_at",
+                  onError: null,
+                  onNull: null,
+                },
+              },
+              timezone: timeZone,
+            },
+          },
+          currency: { $ifNull: ["$currency", DEFAULT_CURRENCY] },
+        },
+        orderCount: { $sum: 1 },
+        revenue: { $sum: toDecimal("$total_price") },
+        shippingCost: {
+          $sum: toDecimal("$total_shipping_price_set.shop_money.amount"),
+        },
+      },
+    },
+    // Orders with an unparseable created_at have no day
+    { $match: { "_id.day": { $ne: null } } },
+    {
+      $project: {
+        _id: 0,
+        date: "$_id.day",
+        currency: "$_id.currency",
+        orderCount: 1,
+        revenue: 1,
+        shippingCost: 1,
+      },
+    },
+    ...buildCurrencyConversionStages(rates, reportingCurrency),
+    ...buildMetricsTotalsStages(granularity),
+  ];
+}
+
+export interface MetricsQuery extends MetricsRange {
+  timeZone: string;
+  // Currency to report amounts in
+  currency: string;
+  granularity: MetricsGranularity;
+}
+
+/**
+ * Order metrics from `from` to `to`, bucketed by calendar day in `timeZone`,
+ * grouped by `granularity` and converted to `currency`. Periods without
+ * orders are included as zeros.
+ */
+export async function getMetricsFromDb(query: MetricsQuery) {
+  const db = await getDb();
+  const ordersCollection = db.collection<Order>("orders");
+  await ensureOrderIndexes(ordersCollection);
+
+  const { from, to, timeZone, currency, granularity } = query;
+  const startISO = getZonedStartOfDay(from, timeZone).toISOString();
+  const endISO = getZonedStartOfDay(addDays(to, 1), timeZone).toISOString();
 
   // Since created_at is stored as ISO string, we can use string comparison
-  const orders = await ordersCollection
-    .find({
-      created_at: { $gte: startDateISO },
-    })
-    .sort({ created_at: 1 })
+  const match: Filter<Order> = {
+    shopId: getShopId(),
+    created_at: { $gte: startISO, $lt: endISO },
+    deletedAt: { $exists: false },
+  };
+  const currencies = await ordersCollection.distinct("currency", match);
+  const { rates, missing } = await getConversionRates(
+    currencies.map((code) => code ?? DEFAULT_CURRENCY),
+    currency
+  );
+
+  const [aggregate] = await ordersCollection
+    .aggregate<MetricsAggregate>(
+      buildMetricsPipeline(match, timeZone, rates, currency, granularity)
+    )
     .toArray();
 
-  const metricsByDate = new Map<string, OrderMetrics>();
+  return buildMetricsResult(query, missing, aggregate);
+}
 
-  orders.forEach((order) => {
-    if (!order.created_at) {
-      return; // Skip orders without created_at
-    }
+/**
+ * Same as getMetricsFromDb, read from the daily_metrics rollup. Only valid
+ * for the shop's own timezone, which the rollup is bucketed in.
+ */
+export async function getMetricsFromRollup(query: MetricsQuery) {
+  const { from, to, currency, granularity } = query;
+  const { rates, missing } = await getConversionRates(
+    await listDailyMetricsCurrencies(from, to),
+    currency
+  );
 
-    try {
-      const orderDate = new Date(order.created_at);
-      if (isNaN(orderDate.getTime())) {
-        return; // Skip invalid dates
-      }
+  const aggregate = await aggregateDailyMetrics(
+    from,
+    to,
+    rates,
+    currency,
+    granularity
+  );
+  return buildMetricsResult(query, missing, aggregate);
+}
 
-      const date = orderDate.toISOString().split("T")[0];
-      const existing = metricsByDate.get(date) || {
+function buildMetricsResult(
+  query: MetricsQuery,
+  // Currencies left out of the totals for lack of an exchange rate
+  missingRates: string[],
+  aggregate: MetricsAggregate | undefined
+) {
+  const { from, to, timeZone, currency, granularity } = query;
+  const metricsByDate = new Map(
+    aggregate?.periods.map((metric) => [metric.date, metric])
+  );
+  const metrics: OrderMetrics[] = listPeriods(query, granularity).map(
+    (date) =>
+      metricsByDate.get(date) || {
         date,
         orderCount: 0,
         revenue: 0,
         shippingCost: 0,
-      };
-
-      existing.orderCount += 1;
-      existing.revenue += parseFloat(order.total_price || "0");
-      const shippingAmount =
-        parseFloat(order.total_shipping_price_set?.shop_money?.amount || "0") ||
-        0;
-      existing.shippingCost += shippingAmount;
-
-      metricsByDate.set(date, existing);
-    } catch (error) {
-      console.error("Error processing order date:", error, order);
-    }
-  });
-
-  const metrics = Array.from(metricsByDate.values()).sort((a, b) =>
-    a.date.localeCompare(b.date)
+      }
   );
-
-  const totalRevenue = metrics.reduce((sum, m) => sum + m.revenue, 0);
-  const totalShipping = metrics.reduce((sum, m) => sum + m.shippingCost, 0);
-  const totalOrders = metrics.reduce((sum, m) => sum + m.orderCount, 0);
+  const summary: MetricsSummary = {
+    totalOrders: aggregate?.totalOrders ?? 0,
+    totalRevenue: aggregate?.totalRevenue ?? 0,
+    totalShipping: aggregate?.totalShipping ?? 0,
+    averageOrderValue: aggregate?.averageOrderValue ?? 0,
+  };
 
   return {
+    from,
+    to,
+    granularity,
     metrics,
-    summary: {
-      totalOrders,
-      totalRevenue,
-      totalShipping,
-      averageOrderValue: totalOrders > 0 ? totalRevenue / totalOrders : 0,
+    timezone: timeZone,
+    currency,
+    missingRates,
+    summary,
+  };
+}
+
+/**
+ * Metrics for the query, plus the summary of the period it is compared with
+ * and the percentage change from it when `compare` is set
+ */
+export async function getMetricsReport(
+  query: MetricsQuery,
+  options: { useRollup: boolean; compare?: MetricsComparison }
+) {
+  const getMetrics = options.useRollup
+    ? getMetricsFromRollup
+    : getMetricsFromDb;
+  const report = await getMetrics(query);
+  if (!options.compare) {
+    return report;
+  }
+
+  const comparisonRange = getComparisonRange(query, options.compare);
+  const previous = await getMetrics({ ...query, ...comparisonRange });
+  return {
+    ...report,
+    comparison: {
+      compare: options.compare,
+      ...comparisonRange,
+      summary: previous.summary,
+      changes: getSummaryChanges(report.summary, previous.summary),
     },
   };
 }
@@ -171,7 +725,7 @@ export async function getLastSyncTimestamp(): Promise<string | null> {
   const metadataCollection = db.collection<SyncMetadata>("sync_metadata");
 
   const metadata = await metadataCollection.findOne({
-    _id: SYNC_METADATA_KEY,
+    _id: getSyncMetadataId(),
   });
   return metadata?.lastSyncAt || null;
 }
@@ -186,9 +740,10 @@ export async function updateLastSyncTimestamp(
   const metadataCollection = db.collection<SyncMetadata>("sync_metadata");
 
   await metadataCollection.updateOne(
-    { _id: SYNC_METADATA_KEY },
+    { _id: getSyncMetadataId() },
     {
       $set: {
+        shopId: getShopId(),
         lastSyncAt: timestamp,
         updatedAt: new Date().toISOString(),
       },
@@ -198,73 +753,458 @@ export async function updateLastSyncTimestamp(
 }
 
 /**
- * Get the cached bulk sync state to avoid frequent Shopify checks
+ * Matches the stored order unless its Shopify updated_at is newer than
+ * `updatedAt`. Timestamps may carry different UTC offsets, so instants are
+ * compared; missing or unparseable ones never count as newer.
+ */
+function notNewerThan(orderId: string, updatedAt: string): Filter<Order> {
+  const filter: Filter<Order> = { shopId: getShopId(), id: orderId };
+  const incoming = new Date(updatedAt);
+  if (isNaN(incoming.getTime())) return filter;
+
+  return {
+    ...filter,
+    $or: [
+      { updated_at: { $exists: false } },
+      {
+        $expr: {
+          $lte: [
+            {
+              $convert: {
+                input: "$updated_at",
+                to: "date",
+                onError: null,
+                onNull: null,
+              },
+            },
+            incoming,
+          ],
+        },
+      },
+    ],
+  };
+}
+
+// A copy of the order without the personal fields removed on redaction
+export function withoutPersonalData(order: Order): Order {
+  const redacted: Record<string, unknown> = { ...order };
+  for (const path of ORDER_PII_FIELDS) {
+    const [field, key] = path.split(".");
+    const parent = redacted[field];
+    if (!key) {
+      delete redacted[field];
+    } else if (parent && typeof parent === "object") {
+      const copy: Record<string, unknown> = { ...parent };
+      delete copy[key];
+      redacted[field] = copy;
+    }
+  }
+  return redacted as unknown as Order;
+}
+
+/**
+ * The update writing an order fetched from Shopify, clearing an earlier sync
+ * error. It is a pipeline so it can look at the stored copy: an order
+ * redacted on customers/redact keeps its personal fields, and the search
+ * terms made from them, removed.
  */
-export async function getBulkSyncState(): Promise<BulkSyncState> {
-  const now = Date.now();
-  if (cachedBulkState && now - cachedBulkStateAt < BULK_STATE_TTL_MS) {
-    return cachedBulkState;
+function buildOrderWrite(order: Order, fields: Partial<Order>): Document[] {
+  const redacted = withoutPersonalData(order);
+  const values: Document = {
+    ...toStoredAmounts(order),
+    searchTerms: getOrderSearchTerms(order),
+    ...fields,
+  };
+  const redactedValues: Document = {
+    ...toStoredAmounts(redacted),
+    searchTerms: getOrderSearchTerms(redacted),
+  };
+  const personalFields = new Set([
+    ...ORDER_PII_FIELDS.map((path) => path.split(".")[0]),
+    "searchTerms",
+  ]);
+  const isRedacted = { $ne: [{ $type: "$redactedAt" }, "missing"] };
+
+  // Values are literals, so strings starting with "$" aren't read as paths
+  const $set: Document = {};
+  for (const [field, value] of Object.entries(values)) {
+    $set[field] = personalFields.has(field)
+      ? {
+          $cond: [
+            isRedacted,
+            field in redactedValues
+              ? { $literal: redactedValues[field] }
+              : "$$REMOVE",
+            { $literal: value },
+          ],
+        }
+      : { $literal: value };
   }
+  return [{ $set }, { $unset: "syncError" }];
+}
 
+function isDuplicateKeyError(error: unknown): boolean {
+  if (error instanceof MongoBulkWriteError) {
+    const writeErrors = error.writeErrors;
+    return (Array.isArray(writeErrors) ? writeErrors : [writeErrors]).every(
+      (writeError) => writeError.code === DUPLICATE_KEY_ERROR
+    );
+  }
+  return (
+    error instanceof MongoServerError && error.code === DUPLICATE_KEY_ERROR
+  );
+}
+
+/**
+ * Upsert an order unless the stored copy has a newer Shopify updated_at.
+ * Protects against retried or delayed webhooks overwriting fresher data.
+ * Field changes are recorded in the order's history. Redacted orders stay
+ * redacted.
+ */
+export async function upsertOrderIfNewer(
+  order: Order,
+  context: OrderEventContext
+): Promise<"inserted" | "updated" | "stale"> {
+  // Resolved before the write, so failing to get it leaves the whole write
+  // to a retry instead of committing the order without its metrics
+  const timeZone = await getShopTimezone();
   const db = await getDb();
-  const stateCollection = db.collection<BulkSyncState>("sync_state");
-  const state =
-    (await stateCollection.findOne({ _id: BULK_STATE_KEY })) ||
-    ({
-      _id: BULK_STATE_KEY,
-      status: "idle",
-      updatedAt: new Date(0).toISOString(),
-    } as BulkSyncState);
+  const ordersCollection = db.collection<Order>("orders");
+  await ensureOrderIndexes(ordersCollection);
+
+  const shopId = getShopId();
+  const now = new Date().toISOString();
+  let existing: Order | null;
+  try {
+    // The check is part of the write, so concurrent writers can't both pass
+    existing = await ordersCollection.findOneAndUpdate(
+      notNewerThan(order.id, order.updated_at),
+      buildOrderWrite(order, {
+        shopId,
+        syncStatus: "success",
+        syncedAt: now,
+      }),
+      { upsert: true, returnDocument: "before" }
+    );
+  } catch (error) {
+    // The stored copy is newer, so the upsert tried to insert a second one
+    if (isDuplicateKeyError(error)) return "stale";
+    throw error;
+  }
+  await updateDailyMetrics([order.id], timeZone);
 
-  cachedBulkState = state;
-  cachedBulkStateAt = now;
-  return state;
+  if (existing) {
+    const written = existing.redactedAt ? withoutPersonalData(order) : order;
+    await recordOrderEvents(
+      [{ order, changes: diffOrders(existing, written) }],
+      context
+    );
+  }
+
+  return existing ? "updated" : "inserted";
 }
 
 /**
- * Update bulk sync state and refresh the in-memory cache
+ * Upsert a batch of orders fetched from Shopify in a single bulkWrite.
+ * Orders whose stored copy has a newer Shopify updated_at, e.g. from a
+ * webhook that arrived while the sync ran, are left alone. Redacted orders
+ * stay redacted. Returns the ids of the orders that were written.
  */
-export async function updateBulkSyncState(
-  partial: Partial<BulkSyncState>
+export async function upsertOrders(
+  orders: Order[],
+  syncedAt: string = new Date().toISOString()
+): Promise<string[]> {
+  if (orders.length === 0) return [];
+  const timeZone = await getShopTimezone();
+  const db = await getDb();
+  const ordersCollection = db.collection<Order>("orders");
+  await ensureOrderIndexes(ordersCollection);
+  const shopId = getShopId();
+
+  const staleIds = new Set<string>();
+  try {
+    await ordersCollection.bulkWrite(
+      orders.map((order) => ({
+        updateOne: {
+          filter: notNewerThan(order.id, order.updated_at),
+          update: buildOrderWrite(order, {
+            shopId,
+            syncStatus: "success",
+            syncedAt,
+          }),
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (error) {
+    // Only stale orders failed; the rest of the batch was written
+    if (!(error instanceof MongoBulkWriteError)) throw error;
+    if (!isDuplicateKeyError(error)) throw error;
+    const writeErrors = Array.isArray(error.writeErrors)
+      ? error.writeErrors
+      : [error.writeErrors];
+    writeErrors.forEach((writeError) =>
+      staleIds.add(orders[writeError.index].id)
+    );
+  }
+  const writtenIds = orders
+    .map((order) => order.id)
+    .filter((id) => !staleIds.has(id));
+  await updateDailyMetrics(writtenIds, timeZone);
+  return writtenIds;
+}
+
+/**
+ * Append line items to orders that were already written by the sync that
+ * wrote them at `syncedAt`, keyed by order id. Orders it left alone, or that
+ * were written again since, already have their line items.
+ */
+export async function appendOrderLineItems(
+  lineItemsByOrder: Map<string, OrderLineItem[]>,
+  syncedAt: string
 ): Promise<void> {
+  if (lineItemsByOrder.size === 0) return;
+  const timeZone = await getShopTimezone();
   const db = await getDb();
-  const stateCollection = db.collection<BulkSyncState>("sync_state");
-
-  const newState: BulkSyncState = {
-    _id: BULK_STATE_KEY,
-    status: "idle",
-    updatedAt: new Date().toISOString(),
-    ...partial,
-  } as BulkSyncState;
-
-  await stateCollection.updateOne(
-    { _id: BULK_STATE_KEY },
-    { $set: { ...newState, updatedAt: newState.updatedAt } },
-    { upsert: true }
+  const ordersCollection = db.collection<Order>("orders");
+  const shopId = getShopId();
+
+  await ordersCollection.bulkWrite(
+    Array.from(lineItemsByOrder, ([orderId, lineItems]) => ({
+      updateOne: {
+        filter: { shopId, id: orderId, syncedAt },
+        update: {
+          $push: {
+            line_items: {
+              $each: toStoredAmounts({ line_items: lineItems }).line_items,
+            },
+          },
+          $addToSet: {
+            searchTerms: {
+              $each: getOrderSearchTerms({ line_items: lineItems }),
+            },
+          },
+        },
+      },
+    }))
+  );
+  await updateDailyMetrics(
+    Array.from(lineItemsByOrder.keys()),
+    timeZone
+  );
+}
+
+/**
+ * Soft-delete an order that was deleted in Shopify
+ */
+export async function markOrderDeleted(orderId: string): Promise<boolean> {
+  const timeZone = await getShopTimezone();
+  const db = await getDb();
+  const ordersCollection = db.collection<Order>("orders");
+
+  const result = await ordersCollection.updateOne(
+    { shopId: getShopId(), id: orderId, deletedAt: { $exists: false } },
+    { $set: { deletedAt: new Date().toISOString() } }
   );
+  if (result.modifiedCount === 0) return false;
 
-  cachedBulkState = newState;
-  cachedBulkStateAt = Date.now();
+  await updateDailyMetrics([orderId], timeZone);
+  return true;
 }
 
 /**
- * Get unfulfilled orders from the database that need to be re-synced
+ * Flag an order whose sync failed, keeping the stored copy
  */
-export async function getUnfulfilledOrders(): Promise<Order[]> {
+export async function markOrderSyncFailed(
+  orderId: string,
+  error: string
+): Promise<void> {
   const db = await getDb();
   const ordersCollection = db.collection<Order>("orders");
 
-  // Get orders that are not fulfilled (null, undefined, or not "fulfilled")
-  // $ne: "fulfilled" will match null, undefined, and any other value that's not "fulfilled"
-  const orders = await ordersCollection
-    .find({
+  await ordersCollection.updateOne(
+    { shopId: getShopId(), id: orderId },
+    { $set: { syncStatus: "failed" as const, syncError: error } }
+  );
+}
+
+/**
+ * Permanently remove an order and its change history
+ */
+export async function purgeOrder(orderId: string): Promise<boolean> {
+  const timeZone = await getShopTimezone();
+  const db = await getDb();
+  const ordersCollection = db.collection<Order>("orders");
+
+  const result = await ordersCollection.deleteOne({
+    shopId: getShopId(),
+    id: orderId,
+  });
+  await deleteOrderEvents([orderId]);
+  await updateDailyMetrics([orderId], timeZone);
+  return result.deletedCount > 0;
+}
+
+/**
+ * Convert amounts still stored as strings to Decimal128, across all shops.
+ * Orders changed while the migration runs are skipped; they were rewritten
+ * with decimals already.
+ */
+export async function migrateOrderAmounts(): Promise<{ migrated: number }> {
+  const db = await getDb();
+  const ordersCollection = db.collection<Order>("orders");
+  // Top-level fields holding amounts, e.g. "line_items" for "line_items.price"
+  const fields = Array.from(
+    new Set(ORDER_MONEY_PATHS.map((path) => path.split(".")[0]))
+  );
+
+  const cursor = ordersCollection.find(
+    {
+      $or: ORDER_MONEY_PATHS.map((path) => ({ [path]: { $type: "string" } })),
+    },
+    {
+      projection: Object.fromEntries(
+        ["updated_at", ...fields].map((field) => [field, 1])
+      ),
+    }
+  );
+
+  let migrated = 0;
+  let batch: AnyBulkWriteOperation<Order>[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const result = await ordersCollection.bulkWrite(batch);
+    migrated += result.modifiedCount;
+    batch = [];
+  };
+
+  for await (const order of cursor) {
+    const stored = toStoredAmounts(order) as Document;
+    batch.push({
+      updateOne: {
+        filter: { _id: order._id, updated_at: order.updated_at },
+        update: {
+          $set: Object.fromEntries(
+            fields
+              .filter((field) => stored[field] !== undefined)
+              .map((field) => [field, stored[field]])
+          ),
+        },
+      },
+    });
+    if (batch.length >= MIGRATION_BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return { migrated };
+}
+
+/**
+ * Lowercase financial and fulfillment statuses stored before they were
+ * normalized (GraphQL sent "PAID", REST sent "partial" or no fulfillment
+ * status), across all shops. Orders changed while the migration runs are
+ * skipped; they were rewritten with normalized statuses already.
+ */
+export async function migrateOrderStatuses(): Promise<{ migrated: number }> {
+  const db = await getDb();
+  const ordersCollection = db.collection<Order>("orders");
+  const uppercase = /[A-Z]/;
+
+  const cursor = ordersCollection.find(
+    {
       $or: [
-        { fulfillment_status: { $exists: false } },
-        { fulfillment_status: { $ne: "fulfilled" } },
+        { financial_status: uppercase },
+        { fulfillment_status: { $in: [uppercase, "partial"] } },
+        // Missing or null
+        { fulfillment_status: { $not: { $type: "string" } } },
       ],
-    })
-    .limit(1000) // Limit to prevent too many re-syncs
-    .toArray();
+    },
+    {
+      projection: { updated_at: 1, financial_status: 1, fulfillment_status: 1 },
+    }
+  );
+
+  let migrated = 0;
+  let batch: AnyBulkWriteOperation<Order>[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const result = await ordersCollection.bulkWrite(batch);
+    migrated += result.modifiedCount;
+    batch = [];
+  };
 
-  return orders.map((order) => serializeOrder(order));
+  for await (const order of cursor) {
+    const statuses: Partial<Order> = {};
+    for (const field of ORDER_STATUS_FIELDS) {
+      const status = normalizeOrderStatus(field, order[field]);
+      if (status !== undefined) statuses[field] = status;
+    }
+    batch.push({
+      updateOne: {
+        filter: { _id: order._id, updated_at: order.updated_at },
+        update: { $set: statuses },
+      },
+    });
+    if (batch.length >= MIGRATION_BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return { migrated };
+}
+
+/**
+ * Recompute the search terms of the orders matching `filter`, e.g. after
+ * their personal fields were removed. Orders changed meanwhile are skipped;
+ * they were rewritten with current search terms already.
+ */
+export async function refreshOrderSearchTerms(
+  filter: Filter<Order>
+): Promise<{ updated: number }> {
+  const db = await getDb();
+  const ordersCollection = db.collection<Order>("orders");
+
+  const cursor = ordersCollection.find(filter, {
+    projection: {
+      updated_at: 1,
+      email: 1,
+      customer: 1,
+      "line_items.sku": 1,
+    },
+  });
+
+  let updated = 0;
+  let batch: AnyBulkWriteOperation<Order>[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const result = await ordersCollection.bulkWrite(batch);
+    updated += result.modifiedCount;
+    batch = [];
+  };
+
+  for await (const order of cursor) {
+    batch.push({
+      updateOne: {
+        filter: { _id: order._id, updated_at: order.updated_at },
+        update: { $set: { searchTerms: getOrderSearchTerms(order) } },
+      },
+    });
+    if (batch.length >= MIGRATION_BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return { updated };
+}
+
+/**
+ * Store search terms on orders saved before the search used them, across all
+ * shops
+ */
+export async function migrateOrderSearchTerms(): Promise<{
+  migrated: number;
+}> {
+  const { updated } = await refreshOrderSearchTerms({
+    searchTerms: { $exists: false },
+  });
+  return { migrated: updated };
 }
@@ -0,0 +1,301 @@
+import { Filter, ObjectId } from "mongodb";
+import { recordAuditEvent } from "./audit-log";
+import { getDb } from "./mongodb";
+import { deleteOrderEvents, redactOrderEvents } from "./order-events";
+import {
+  ORDER_PII_FIELDS,
+  refreshOrderSearchTerms,
+  serializeOrder,
+} from "./orders";
+import { escapeRegex } from "./regex";
+import { getShopId } from "./shop-context";
+import { deleteShop } from "./shops";
+import { DataRequestBundle, DataRequestSummary } from "@/types/audit";
+import { Order } from "@/types/order";
+import { WebhookInboxEntry } from "@/types/webhook";
+
+export interface CustomerPrivacyRequest {
+  shopDomain?: string;
+  customerId?: string;
+  email?: string;
+  phone?: string;
+  orderIds: string[];
+  shopifyDataRequestId?: string;
+  webhookId?: string;
+  topic?: string;
+}
+
+type DataRequestDocument = Omit<DataRequestSummary, "_id"> & {
+  _id?: ObjectId;
+  bundle: DataRequestBundle;
+};
+
+const REDACTED_BODY = "[redacted]";
+
+function buildCustomerOrdersFilter(
+  request: CustomerPrivacyRequest
+): Filter<Order> | null {
+  const conditions: Filter<Order>[] = [];
+  if (request.orderIds.length > 0) {
+    conditions.push({ id: { $in: request.orderIds } });
+  }
+  if (request.customerId) {
+    conditions.push({ "customer.id": request.customerId });
+  }
+  if (request.email) {
+    const email = new RegExp(`^${escapeRegex(request.email)}$`, "i");
+    conditions.push({ email }, { "customer.email": email });
+  }
+  return conditions.length > 0
+    ? { shopId: getShopId(), $or: conditions }
+    : null;
+}
+
+/**
+ * Scrub stored webhook payloads that mention the customer or their orders
+ */
+async function redactInboxPayloads(
+  request: CustomerPrivacyRequest,
+  orderIds: string[]
+): Promise<number> {
+  const patterns: string[] = [];
+  if (request.email) {
+    patterns.push(escapeRegex(request.email));
+  }
+  if (orderIds.length > 0) {
+    patterns.push(
+      `"(order_)?id":\\s*"?(${orderIds.map(escapeRegex).join("|")})\\b`
+    );
+  }
+  if (patterns.length === 0) {
+    return 0;
+  }
+
+  const db = await getDb();
+  const inboxCollection = db.collection<WebhookInboxEntry>("webhook_inbox");
+  const result = await inboxCollection.updateMany(
+    {
+      shopDomain: getShopId(),
+      rawBody: { $regex: patterns.join("|"), $options: "i" },
+    },
+    { $set: { rawBody: REDACTED_BODY } }
+  );
+  return result.modifiedCount;
+}
+
+/**
+ * Handle customers/redact: remove the customer's personal data from their
+ * orders, order history, stored webhook payloads and previous data exports
+ */
+export async function redactCustomerData(
+  request: CustomerPrivacyRequest
+): Promise<void> {
+  const db = await getDb();
+  const ordersCollection = db.collection<Order>("orders");
+  const dataRequestsCollection =
+    db.collection<DataRequestDocument>("data_requests");
+
+  const filter = buildCustomerOrdersFilter(request);
+  const orders = filter
+    ? await ordersCollection
+        .find(filter, { projection: { id: 1 } })
+        .toArray()
+    : [];
+  const orderIds = Array.from(
+    new Set([...request.orderIds, ...orders.map((o) => o.id)])
+  );
+
+  if (filter) {
+    await ordersCollection.updateMany(filter, {
+      $unset: Object.fromEntries(ORDER_PII_FIELDS.map((f) => [f, ""])),
+      $set: { redactedAt: new Date().toISOString() },
+    });
+    // Search terms hold the removed emails and names too
+    await refreshOrderSearchTerms({
+      _id: { $in: orders.map((order) => order._id) },
+    });
+  }
+
+  const redactedPayloads = await redactInboxPayloads(request, orderIds);
+  const redactedEvents = await redactOrderEvents(orderIds, ORDER_PII_FIELDS);
+
+  const removedExports = request.customerId
+    ? (
+        await dataRequestsCollection.deleteMany({
+          shopDomain: getShopId(),
+          customerId: request.customerId,
+        })
+      ).deletedCount
+    : 0;
+
+  await recordAuditEvent({
+    action: "customer.redacted",
+    topic: request.topic,
+    shopDomain: request.shopDomain,
+    webhookId: request.webhookId,
+    subject: { customerId: request.customerId, orderIds },
+    details: {
+      ordersRedacted: orders.length,
+      webhookPayloadsRedacted: redactedPayloads,
+      orderEventsRedacted: redactedEvents,
+      dataExportsRemoved: removedExports,
+    },
+  });
+}
+
+/**
+ * Handle customers/data_request: build a JSON bundle of everything stored for
+ * the customer so it can be exported from the admin API
+ */
+export async function exportCustomerData(
+  request: CustomerPrivacyRequest
+): Promise<string> {
+  const db = await getDb();
+  const ordersCollection = db.collection<Order>("orders");
+  const dataRequestsCollection =
+    db.collection<DataRequestDocument>("data_requests");
+
+  const filter = buildCustomerOrdersFilter(request);
+  const orders = filter
+    ? await ordersCollection
+        .find(filter, { projection: { _id: 0 } })
+        .toArray()
+    : [];
+  const now = new Date().toISOString();
+
+  const result = await dataRequestsCollection.insertOne({
+    shopDomain: request.shopDomain,
+    customerId: request.customerId,
+    shopifyDataRequestId: request.shopifyDataRequestId,
+    orderCount: orders.length,
+    requestedAt: now,
+    bundle: {
+      customer: {
+        id: request.customerId,
+        email: request.email,
+        phone: request.phone,
+      },
+      orders: orders.map((order) => serializeOrder(order)),
+      generatedAt: now,
+    },
+  });
+
+  await recordAuditEvent({
+    action: "customer.data_requested",
+    topic: request.topic,
+    shopDomain: request.shopDomain,
+    webhookId: request.webhookId,
+    subject: {
+      customerId: request.customerId,
+      orderIds: orders.map((o) => o.id),
+    },
+    details: {
+      dataRequestId: result.insertedId.toString(),
+      shopifyDataRequestId: request.shopifyDataRequestId,
+    },
+  });
+
+  return result.insertedId.toString();
+}
+
+/**
+ * Handle shop/redact: purge every order, stored payload and sync record for
+ * the current shop, along with its credentials
+ */
+export async function purgeShopData(
+  context: { topic?: string; webhookId?: string } = {}
+): Promise<void> {
+  const db = await getDb();
+  const shopDomain = getShopId();
+
+  const orders = await db
+    .collection<Order>("orders")
+    .deleteMany({ shopId: shopDomain });
+  const payloads = await db
+    .collection<WebhookInboxEntry>("webhook_inbox")
+    .deleteMany({ shopDomain });
+  const exports = await db
+    .collection<DataRequestDocument>("data_requests")
+    .deleteMany({ shopDomain });
+  for (const name of [
+    "sync_metadata",
+    "schedules",
+    "jobs",
+    "sync_runs",
+    "daily_metrics",
+    "order_metrics",
+  ]) {
+    await db.collection(name).deleteMany({ shopId: shopDomain });
+  }
+  await db
+    .collection<{ _id: string }>("daily_metrics_dirty")
+    .deleteOne({ _id: shopDomain });
+  await deleteOrderEvents();
+  await deleteShop(shopDomain);
+
+  await recordAuditEvent({
+    action: "shop.redacted",
+    topic: context.topic,
+    shopDomain,
+    webhookId: context.webhookId,
+    subject: {},
+    details: {
+      ordersPurged: orders.deletedCount,
+      webhookPayloadsPurged: payloads.deletedCount,
+      dataExportsPurged: exports.deletedCount,
+    },
+  });
+}
+
+/**
+ * List the current shop's customer data exports (without their bundles),
+ * newest first
+ */
+export async function listDataRequests(page: number = 1, limit: number = 20) {
+  const db = await getDb();
+  const dataRequestsCollection =
+    db.collection<DataRequestDocument>("data_requests");
+
+  const filter = { shopDomain: getShopId() };
+  const total = await dataRequestsCollection.countDocuments(filter);
+  const requests = await dataRequestsCollection
+    .find(filter, { projection: { bundle: 0 } })
+    .sort({ requestedAt: -1 })
+    .skip((page - 1) * limit)
+    .limit(limit)
+    .toArray();
+
+  return {
+    requests: requests.map(
+      (request): DataRequestSummary => ({
+        ...request,
+        _id: request._id?.toString(),
+      })
+    ),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * Get the exportable bundle for one of the current shop's customer data
+ * requests
+ */
+export async function getDataRequestBundle(
+  id: string
+): Promise<DataRequestBundle | null> {
+  if (!ObjectId.isValid(id)) return null;
+  const db = await getDb();
+  const dataRequestsCollection =
+    db.collection<DataRequestDocument>("data_requests");
+
+  const request = await dataRequestsCollection.findOne({
+    _id: new ObjectId(id),
+    shopDomain: getShopId(),
+  });
+  return request?.bundle || null;
+}
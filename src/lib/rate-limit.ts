@@ -0,0 +1,81 @@
+import { MongoServerError } from "mongodb";
+import { getDb } from "./mongodb";
+
+interface RateLimitUsage {
+  // `<key>:<window start>`
+  _id: string;
+  count: number;
+  expiresAt: Date;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+let usageIndexesReady: Promise<string> | null = null;
+
+async function getUsageCollection() {
+  const db = await getDb();
+  const usageCollection = db.collection<RateLimitUsage>("rate_limits");
+
+  if (!usageIndexesReady) {
+    usageIndexesReady = usageCollection
+      .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+      .catch((error) => {
+        usageIndexesReady = null;
+        throw error;
+      });
+  }
+  await usageIndexesReady;
+
+  return usageCollection;
+}
+
+/**
+ * Count a request against `limit` per `windowMs` for `key`. Uses fixed
+ * windows shared by every instance through Mongo.
+ */
+export async function consumeRateLimit(
+  key: string,
+  limit: number,
+  windowMs: number
+): Promise<RateLimitResult> {
+  const usageCollection = await getUsageCollection();
+  const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+  const resetAt = new Date(windowStart + windowMs);
+
+  const increment = () =>
+    usageCollection.findOneAndUpdate(
+      { _id: `${key}:${windowStart}` },
+      { $inc: { count: 1 }, $setOnInsert: { expiresAt: resetAt } },
+      { upsert: true, returnDocument: "after" }
+    );
+
+  let usage: RateLimitUsage | null;
+  try {
+    usage = await increment();
+  } catch (error) {
+    // Two first requests in a window can both try to insert its counter; the
+    // one that loses finds it on a second try
+    if (
+      !(error instanceof MongoServerError) ||
+      error.code !== DUPLICATE_KEY_ERROR
+    ) {
+      throw error;
+    }
+    usage = await increment();
+  }
+  const count = usage?.count ?? 1;
+
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    resetAt,
+  };
+}
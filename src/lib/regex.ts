@@ -0,0 +1,6 @@
+/**
+ * Escape a user-provided string for use inside a regular expression
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,168 @@
+import { randomUUID } from "crypto";
+import { finishStaleDailyMetricsChanges } from "./daily-metrics";
+import { acquireLock, releaseLock } from "./locks";
+import { getDb } from "./mongodb";
+import { getShopId, runWithShop } from "./shop-context";
+import { listShops } from "./shops";
+import { enqueueOrdersSync } from "./sync";
+import { SyncSchedule } from "@/types/schedule";
+
+type ScheduleDocument = SyncSchedule & { _id: string; shopId: string };
+
+const SYNC_SCHEDULE_ID = "orders.sync";
+const SCHEDULER_LOCK = "scheduler:orders.sync";
+const SCHEDULER_LOCK_TTL_MS = 60_000;
+const SCHEDULER_TICK_MS = 30_000;
+
+export const MIN_SYNC_INTERVAL_MINUTES = 5;
+export const MAX_SYNC_INTERVAL_MINUTES = 24 * 60;
+
+const DEFAULT_SYNC_SCHEDULE: SyncSchedule = {
+  intervalMinutes: 60,
+  paused: true,
+};
+
+const schedulerId = randomUUID();
+
+async function getSchedulesCollection() {
+  const db = await getDb();
+  return db.collection<ScheduleDocument>("schedules");
+}
+
+// Each shop has its own schedule
+function getScheduleId(): string {
+  return `${SYNC_SCHEDULE_ID}:${getShopId()}`;
+}
+
+function addMinutes(date: Date, minutes: number): string {
+  return new Date(date.getTime() + minutes * 60_000).toISOString();
+}
+
+/**
+ * Get the shop's automatic sync schedule. Paused until someone turns it on.
+ */
+export async function getSyncSchedule(): Promise<SyncSchedule> {
+  const schedulesCollection = await getSchedulesCollection();
+  const schedule = await schedulesCollection.findOne(
+    { _id: getScheduleId() },
+    { projection: { _id: 0, shopId: 0 } }
+  );
+  return schedule || DEFAULT_SYNC_SCHEDULE;
+}
+
+/**
+ * Change the interval or pause/resume the schedule. Resuming or changing the
+ * interval schedules the next run one interval from now.
+ */
+export async function updateSyncSchedule(update: {
+  intervalMinutes?: number;
+  paused?: boolean;
+}): Promise<SyncSchedule> {
+  const current = await getSyncSchedule();
+  const intervalMinutes = update.intervalMinutes ?? current.intervalMinutes;
+  const paused = update.paused ?? current.paused;
+  const now = new Date();
+
+  const needsNewRunTime =
+    !current.nextRunAt ||
+    current.paused ||
+    intervalMinutes !== current.intervalMinutes;
+
+  const schedule: SyncSchedule = {
+    ...current,
+    intervalMinutes,
+    paused,
+    updatedAt: now.toISOString(),
+  };
+  if (paused) {
+    delete schedule.nextRunAt;
+  } else if (needsNewRunTime) {
+    schedule.nextRunAt = addMinutes(now, intervalMinutes);
+  }
+
+  const schedulesCollection = await getSchedulesCollection();
+  await schedulesCollection.replaceOne(
+    { _id: getScheduleId() },
+    { ...schedule, shopId: getShopId() },
+    { upsert: true }
+  );
+
+  return schedule;
+}
+
+/**
+ * Queue the current shop's scheduled sync if it is due
+ */
+async function runShopSchedule(): Promise<void> {
+  const schedule = await getSyncSchedule();
+  const now = new Date();
+  if (
+    schedule.paused ||
+    !schedule.nextRunAt ||
+    new Date(schedule.nextRunAt) > now
+  ) {
+    return;
+  }
+
+  // Skips (rather than stacks) a run while a sync is still in progress
+  const { job, created } = await enqueueOrdersSync("schedule");
+
+  const schedulesCollection = await getSchedulesCollection();
+  await schedulesCollection.updateOne(
+    { _id: getScheduleId() },
+    {
+      $set: {
+        lastRunAt: now.toISOString(),
+        lastJobId: job._id,
+        lastOutcome: created ? "queued" : "skipped",
+        nextRunAt: addMinutes(now, schedule.intervalMinutes),
+      },
+    }
+  );
+}
+
+/**
+ * Queue every shop's scheduled sync that is due, and finish daily metrics
+ * changes a crashed process left behind. Holds a lock so that only one
+ * instance checks and advances the schedules at a time.
+ */
+export async function runDueSchedules(): Promise<void> {
+  if (
+    !(await acquireLock(SCHEDULER_LOCK, schedulerId, SCHEDULER_LOCK_TTL_MS))
+  ) {
+    return;
+  }
+
+  try {
+    for (const shop of await listShops()) {
+      if (shop.uninstalledAt) continue;
+      try {
+        await runWithShop(shop, runShopSchedule);
+      } catch (error) {
+        console.error(`Error running schedule for ${shop._id}:`, error);
+      }
+    }
+
+    try {
+      await finishStaleDailyMetricsChanges();
+    } catch (error) {
+      console.error("Error finishing daily metrics changes:", error);
+    }
+  } finally {
+    await releaseLock(SCHEDULER_LOCK, schedulerId);
+  }
+}
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Check the schedule periodically in the background
+ */
+export function startScheduler(): void {
+  if (schedulerTimer) return;
+  schedulerTimer = setInterval(() => {
+    runDueSchedules().catch((error) => {
+      console.error("Error running scheduler:", error);
+    });
+  }, SCHEDULER_TICK_MS);
+}
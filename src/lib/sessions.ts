@@ -0,0 +1,82 @@
+import { createHash, randomBytes } from "crypto";
+import { getDb } from "./mongodb";
+import { getUser } from "./users";
+import { UserSummary } from "@/types/user";
+
+interface SessionDocument {
+  // SHA-256 of the session token, so a database leak doesn't leak sessions
+  _id: string;
+  userId: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+let sessionIndexesReady: Promise<string> | null = null;
+
+async function getSessionsCollection() {
+  const db = await getDb();
+  const sessionsCollection = db.collection<SessionDocument>("sessions");
+
+  if (!sessionIndexesReady) {
+    sessionIndexesReady = sessionsCollection
+      .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+      .catch((error) => {
+        sessionIndexesReady = null;
+        throw error;
+      });
+  }
+  await sessionIndexesReady;
+
+  return sessionsCollection;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Start a session for a user and return its token for the session cookie
+ */
+export async function createSession(userId: string): Promise<string> {
+  const sessionsCollection = await getSessionsCollection();
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+
+  await sessionsCollection.insertOne({
+    _id: hashToken(token),
+    userId,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + SESSION_TTL_SECONDS * 1000),
+  });
+  return token;
+}
+
+/**
+ * Get the signed-in user for a session token, or null if the session is
+ * unknown, expired or its user was removed
+ */
+export async function getSessionUser(
+  token: string
+): Promise<UserSummary | null> {
+  const sessionsCollection = await getSessionsCollection();
+  const session = await sessionsCollection.findOne({
+    _id: hashToken(token),
+    expiresAt: { $gt: new Date() },
+  });
+  return session ? getUser(session.userId) : null;
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  const sessionsCollection = await getSessionsCollection();
+  await sessionsCollection.deleteOne({ _id: hashToken(token) });
+}
+
+/**
+ * Sign a user out everywhere, e.g. after a password change
+ */
+export async function deleteUserSessions(userId: string): Promise<void> {
+  const sessionsCollection = await getSessionsCollection();
+  await sessionsCollection.deleteMany({ userId });
+}
@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Shop } from "@/types/shop";
+
+/**
+ * The shop the current request or job works on. Route handlers, jobs and
+ * webhook deliveries run inside `runWithShop`, so data access and Shopify
+ * calls deeper down don't need the shop passed through every call.
+ */
+const shopStorage = new AsyncLocalStorage<Shop>();
+
+export function runWithShop<T>(shop: Shop, fn: () => T): T {
+  return shopStorage.run(shop, fn);
+}
+
+export function getCurrentShop(): Shop {
+  const shop = shopStorage.getStore();
+  if (!shop) {
+    throw new Error("No shop selected for this request");
+  }
+  return shop;
+}
+
+export function getShopId(): string {
+  return getCurrentShop()._id;
+}
@@ -0,0 +1,368 @@
+import { getCurrentShop } from "./shop-context";
+import { decryptSecret } from "./token-encryption";
+
+/**
+ * Shared client for the Shopify Admin GraphQL API.
+ *
+ * Shopify rate limits GraphQL by query cost with a leaky bucket: each store
+ * has a maximum number of points that refill at a fixed rate, and every
+ * response reports the bucket in `extensions.cost.throttleStatus`. The client
+ * tracks that budget per shop, waits before sending a query the bucket can't
+ * afford, and retries throttling, 429s, 5xx, network errors and timeouts with
+ * jittered backoff. Mutations are only retried when throttled: Shopify
+ * rejects those before running them, while after a timeout or server error a
+ * mutation may already have run. Each shop also has its own limit on requests
+ * in flight, held only while a request is sent.
+ */
+
+interface ShopifyConfig {
+  // myshopify domain
+  shop: string;
+  accessToken: string;
+}
+
+interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+interface QueryCost {
+  requestedQueryCost: number;
+  actualQueryCost: number | null;
+  throttleStatus: ThrottleStatus;
+}
+
+interface GraphQLError {
+  message: string;
+  extensions?: { code?: string };
+}
+
+export interface ShopifyApiMetrics {
+  requests: number;
+  retries: number;
+  throttled: number;
+  failures: number;
+  requestedCost: number;
+  actualCost: number;
+  // Time spent waiting for the bucket to refill or for a retry
+  waitMs: number;
+  bucket: ThrottleStatus;
+  lastRequestAt?: string;
+}
+
+const API_VERSION = "2025-10";
+
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+// Requests in flight per shop
+const MAX_CONCURRENT_REQUESTS = 4;
+const REQUEST_TIMEOUT_MS = 30_000;
+// Assumed cost of a query the client hasn't seen a response for yet
+const DEFAULT_QUERY_COST = 100;
+
+/**
+ * Credentials for the shop the current request or job works on
+ */
+export function getShopifyConfig(): ShopifyConfig {
+  const shop = getCurrentShop();
+  if (!shop.accessToken) {
+    throw new Error(`Shop ${shop._id} has uninstalled the app`);
+  }
+  return { shop: shop._id, accessToken: decryptSecret(shop.accessToken) };
+}
+
+/**
+ * Base URL for a shop's Admin API and OAuth endpoints. SHOPIFY_API_ORIGIN
+ * points every shop at a local stub instead, e.g. http://localhost:4000
+ */
+export function getShopOrigin(shop: string): string {
+  return process.env.SHOPIFY_API_ORIGIN || `https://${shop}`;
+}
+
+interface ShopState {
+  bucket: ThrottleStatus & { updatedAt: number };
+  metrics: Omit<ShopifyApiMetrics, "bucket">;
+  activeRequests: number;
+  requestQueue: (() => void)[];
+}
+
+// Every shop has its own bucket, so budget, counters and the request pool
+// are kept per shop
+const shopStates = new Map<string, ShopState>();
+
+// Last requested cost per query document, used to reserve budget up front
+const queryCosts = new Map<string, number>();
+
+function getShopState(shopId: string): ShopState {
+  let state = shopStates.get(shopId);
+  if (!state) {
+    state = {
+      // Standard plan limits until the first response reports the real ones
+      bucket: {
+        maximumAvailable: 1000,
+        currentlyAvailable: 1000,
+        restoreRate: 50,
+        updatedAt: Date.now(),
+      },
+      metrics: {
+        requests: 0,
+        retries: 0,
+        throttled: 0,
+        failures: 0,
+        requestedCost: 0,
+        actualCost: 0,
+        waitMs: 0,
+      },
+      activeRequests: 0,
+      requestQueue: [],
+    };
+    shopStates.set(shopId, state);
+  }
+  return state;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Points available now, counting what has leaked back since the last update
+function getAvailablePoints({ bucket }: ShopState): number {
+  const restored =
+    ((Date.now() - bucket.updatedAt) / 1000) * bucket.restoreRate;
+  return Math.min(
+    bucket.maximumAvailable,
+    bucket.currentlyAvailable + restored
+  );
+}
+
+function updateBucket({ bucket }: ShopState, status: ThrottleStatus) {
+  bucket.maximumAvailable = status.maximumAvailable;
+  bucket.currentlyAvailable = status.currentlyAvailable;
+  bucket.restoreRate = status.restoreRate;
+  bucket.updatedAt = Date.now();
+}
+
+/**
+ * Wait until the bucket can afford the query, then reserve its cost so that
+ * concurrent requests don't spend the same points
+ */
+async function reserveBudget(state: ShopState, cost: number): Promise<void> {
+  const { bucket, metrics } = state;
+  const needed = Math.min(cost, bucket.maximumAvailable);
+  let available = getAvailablePoints(state);
+
+  while (available < needed) {
+    const waitMs = Math.ceil(
+      ((needed - available) / bucket.restoreRate) * 1000
+    );
+    metrics.waitMs += waitMs;
+    await sleep(waitMs);
+    available = getAvailablePoints(state);
+  }
+
+  bucket.currentlyAvailable = available - needed;
+  bucket.updatedAt = Date.now();
+}
+
+async function acquireSlot(state: ShopState): Promise<void> {
+  if (state.activeRequests < MAX_CONCURRENT_REQUESTS) {
+    state.activeRequests++;
+    return;
+  }
+  // The slot is handed over directly by releaseSlot
+  await new Promise<void>((resolve) => state.requestQueue.push(resolve));
+}
+
+function releaseSlot(state: ShopState) {
+  const next = state.requestQueue.shift();
+  if (next) {
+    next();
+  } else {
+    state.activeRequests--;
+  }
+}
+
+// Exponential backoff with jitter: ~0.5s, 1s, 2s, ... capped at 30s
+function getBackoffMs(attempt: number): number {
+  const backoff = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+function getRetryAfterMs(response: Response): number | undefined {
+  const retryAfter = parseFloat(response.headers.get("Retry-After") || "");
+  return isNaN(retryAfter) ? undefined : retryAfter * 1000;
+}
+
+function isTransientStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Mutations may have side effects, so sending one twice isn't safe
+function isMutation(query: string): boolean {
+  return /^\s*mutation\b/.test(query.replace(/#.*$/gm, ""));
+}
+
+type AttemptResult<T> =
+  | { data: T }
+  // Throttled requests were rejected before Shopify ran them
+  | { retry: true; error: Error; throttled: boolean; waitMs?: number };
+
+interface GraphQLResponseBody<T> {
+  data?: T;
+  errors?: GraphQLError[];
+  extensions?: { cost?: QueryCost };
+}
+
+/**
+ * Send a query, holding one of the shop's request slots only while it is in
+ * flight. Throws on network errors and timeouts.
+ */
+async function sendQuery<T>(
+  config: ShopifyConfig,
+  state: ShopState,
+  query: string,
+  variables: Record<string, unknown> | undefined
+): Promise<{ response: Response; body?: GraphQLResponseBody<T> }> {
+  const graphqlUrl = `${getShopOrigin(config.shop)}/admin/api/${API_VERSION}/graphql.json`;
+
+  await acquireSlot(state);
+  try {
+    const response = await fetch(graphqlUrl, {
+      method: "POST",
+      headers: {
+        "X-Shopify-Access-Token": config.accessToken,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ query, variables }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) return { response };
+    // The body is read under the same timeout
+    return { response, body: await response.json() };
+  } finally {
+    releaseSlot(state);
+  }
+}
+
+async function attemptQuery<T>(
+  config: ShopifyConfig,
+  state: ShopState,
+  query: string,
+  variables: Record<string, unknown> | undefined
+): Promise<AttemptResult<T>> {
+  const { metrics } = state;
+
+  await reserveBudget(state, queryCosts.get(query) ?? DEFAULT_QUERY_COST);
+  metrics.requests++;
+  metrics.lastRequestAt = new Date().toISOString();
+
+  let response: Response;
+  let body: GraphQLResponseBody<T> | undefined;
+  try {
+    ({ response, body } = await sendQuery<T>(config, state, query, variables));
+  } catch (error) {
+    // Network failures (connection reset, DNS, timeouts) are worth retrying
+    return {
+      retry: true,
+      error: error instanceof Error ? error : new Error(String(error)),
+      throttled: false,
+    };
+  }
+
+  if (!response.ok || !body) {
+    const error = new Error(
+      `Shopify API error: ${response.status} ${response.statusText}`
+    );
+    if (!isTransientStatus(response.status)) throw error;
+    const throttled = response.status === 429;
+    if (throttled) metrics.throttled++;
+    return {
+      retry: true,
+      error,
+      throttled,
+      waitMs: getRetryAfterMs(response),
+    };
+  }
+
+  const cost = body.extensions?.cost;
+  if (cost) {
+    updateBucket(state, cost.throttleStatus);
+    queryCosts.set(query, cost.requestedQueryCost);
+    metrics.requestedCost += cost.requestedQueryCost;
+    metrics.actualCost += cost.actualQueryCost ?? 0;
+  }
+
+  if (body.errors?.length) {
+    const error = new Error(`GraphQL errors: ${JSON.stringify(body.errors)}`);
+    if (body.errors.some((e) => e.extensions?.code === "THROTTLED")) {
+      metrics.throttled++;
+      // The next attempt waits for the bucket to refill before sending
+      return { retry: true, error, throttled: true, waitMs: 0 };
+    }
+    throw error;
+  }
+
+  return { data: body.data as T };
+}
+
+/**
+ * Run a GraphQL query against the Admin API, waiting for rate limit budget
+ * and retrying transient failures (only throttling for mutations). Returns
+ * the `data` field.
+ */
+export async function shopifyGraphQL<T = Record<string, unknown>>(
+  query: string,
+  variables?: Record<string, unknown>
+): Promise<T> {
+  const config = getShopifyConfig();
+  const state = getShopState(config.shop);
+  const { metrics } = state;
+  const mutation = isMutation(query);
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      const result = await attemptQuery<T>(config, state, query, variables);
+      if ("data" in result) return result.data;
+
+      if (attempt + 1 >= MAX_ATTEMPTS || (mutation && !result.throttled)) {
+        throw result.error;
+      }
+      const waitMs = result.waitMs ?? getBackoffMs(attempt);
+      console.warn(
+        `Retrying Shopify request (attempt ${attempt + 2}/${MAX_ATTEMPTS}): ${result.error.message}`
+      );
+      metrics.retries++;
+      metrics.waitMs += waitMs;
+      await sleep(waitMs);
+    }
+  } catch (error) {
+    metrics.failures++;
+    throw error;
+  }
+}
+
+/**
+ * Request and cost counters for the current shop since the process started,
+ * plus its rate limit bucket
+ */
+export function getShopifyApiMetrics(): ShopifyApiMetrics {
+  const state = getShopState(getShopifyConfig().shop);
+  const { bucket, metrics } = state;
+  return {
+    requests: metrics.requests,
+    retries: metrics.retries,
+    throttled: metrics.throttled,
+    failures: metrics.failures,
+    requestedCost: metrics.requestedCost,
+    actualCost: metrics.actualCost,
+    waitMs: Math.round(metrics.waitMs),
+    bucket: {
+      maximumAvailable: bucket.maximumAvailable,
+      currentlyAvailable: Math.floor(getAvailablePoints(state)),
+      restoreRate: bucket.restoreRate,
+    },
+    lastRequestAt: metrics.lastRequestAt,
+  };
+}
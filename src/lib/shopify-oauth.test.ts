@@ -0,0 +1,164 @@
+import { createHmac } from "node:crypto";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+/**
+ * The OAuth callback checks against a local stand-in for Shopify, reached
+ * through SHOPIFY_API_ORIGIN. The nonce checks need a MongoDB server: set
+ * MONGODB_TEST_URI to run them.
+ */
+
+const SHOP = "oauth-test.myshopify.com";
+const API_KEY = "test-api-key";
+const API_SECRET = "test-api-secret";
+const GOOD_CODE = "good-code";
+
+interface TokenRequest {
+  path?: string;
+  body: Record<string, unknown>;
+}
+
+let stub: Server;
+const tokenRequests: TokenRequest[] = [];
+
+// Shopify's token endpoint: accepts GOOD_CODE and rejects anything else
+function startStub(): Promise<string> {
+  stub = createServer((request, response) => {
+    let raw = "";
+    request.on("data", (chunk) => (raw += chunk));
+    request.on("end", () => {
+      const body = JSON.parse(raw || "{}");
+      tokenRequests.push({ path: request.url, body });
+      if (
+        request.url !== "/admin/oauth/access_token" ||
+        body.code !== GOOD_CODE
+      ) {
+        response.writeHead(400).end();
+        return;
+      }
+      response
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(
+          JSON.stringify({ access_token: "shpat_test", scope: "read_orders" })
+        );
+    });
+  });
+  return new Promise((resolve) =>
+    stub.listen(0, "127.0.0.1", () =>
+      resolve(`http://127.0.0.1:${(stub.address() as AddressInfo).port}`)
+    )
+  );
+}
+
+// Sign callback parameters the way Shopify does
+function signParams(params: Record<string, string>, secret = API_SECRET) {
+  const message = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join("&");
+  const hmac = createHmac("sha256", secret).update(message).digest("hex");
+  return new URLSearchParams({ ...params, hmac });
+}
+
+async function loadOAuth() {
+  return import("./shopify-oauth");
+}
+
+beforeAll(async () => {
+  process.env.SHOPIFY_API_KEY = API_KEY;
+  process.env.SHOPIFY_API_SECRET = API_SECRET;
+  process.env.SHOPIFY_APP_URL = "https://app.example.com/";
+  process.env.SHOPIFY_API_ORIGIN = await startStub();
+  // Only the nonce checks connect
+  process.env.MONGODB_URI =
+    process.env.MONGODB_TEST_URI || "mongodb://127.0.0.1:27017";
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => stub.close(resolve));
+});
+
+describe("verifyOAuthHmac", () => {
+  const params = {
+    code: GOOD_CODE,
+    shop: SHOP,
+    state: "nonce",
+    timestamp: "1760000000",
+  };
+
+  it("accepts a callback signed with the app secret", async () => {
+    const { verifyOAuthHmac } = await loadOAuth();
+    expect(verifyOAuthHmac(signParams(params))).toBe(true);
+  });
+
+  it("rejects tampered, unsigned and wrongly signed callbacks", async () => {
+    const { verifyOAuthHmac } = await loadOAuth();
+
+    const tampered = signParams(params);
+    tampered.set("shop", "attacker.myshopify.com");
+    expect(verifyOAuthHmac(tampered)).toBe(false);
+
+    expect(verifyOAuthHmac(new URLSearchParams(params))).toBe(false);
+    expect(verifyOAuthHmac(signParams(params, "another-secret"))).toBe(false);
+
+    const truncated = signParams(params);
+    truncated.set("hmac", truncated.get("hmac")!.slice(0, 10));
+    expect(verifyOAuthHmac(truncated)).toBe(false);
+  });
+});
+
+describe("exchangeAccessToken", () => {
+  it("exchanges the code at the shop's origin", async () => {
+    const { exchangeAccessToken } = await loadOAuth();
+    tokenRequests.length = 0;
+
+    await expect(exchangeAccessToken(SHOP, GOOD_CODE)).resolves.toEqual({
+      accessToken: "shpat_test",
+      scopes: "read_orders",
+    });
+    expect(tokenRequests).toEqual([
+      {
+        path: "/admin/oauth/access_token",
+        body: {
+          client_id: API_KEY,
+          client_secret: API_SECRET,
+          code: GOOD_CODE,
+        },
+      },
+    ]);
+  });
+
+  it("fails when Shopify rejects the code", async () => {
+    const { exchangeAccessToken } = await loadOAuth();
+    await expect(exchangeAccessToken(SHOP, "used-code")).rejects.toThrow(
+      "Access token exchange failed: 400"
+    );
+  });
+});
+
+describe.skipIf(!process.env.MONGODB_TEST_URI)("OAuth nonces", () => {
+  it("sends a nonce to Shopify's grant screen at the shop's origin", async () => {
+    const { beginOAuthInstall } = await loadOAuth();
+    const { nonce, authorizeUrl } = await beginOAuthInstall(SHOP);
+
+    const url = new URL(authorizeUrl);
+    expect(url.origin).toBe(process.env.SHOPIFY_API_ORIGIN);
+    expect(url.pathname).toBe("/admin/oauth/authorize");
+    expect(url.searchParams.get("client_id")).toBe(API_KEY);
+    expect(url.searchParams.get("state")).toBe(nonce);
+    expect(url.searchParams.get("redirect_uri")).toBe(
+      "https://app.example.com/api/auth/shopify/callback"
+    );
+  });
+
+  it("accepts a nonce once, and only for its shop", async () => {
+    const { beginOAuthInstall, consumeOAuthState } = await loadOAuth();
+    const { nonce } = await beginOAuthInstall(SHOP);
+
+    expect(await consumeOAuthState(nonce, "other.myshopify.com")).toBe(false);
+    expect(await consumeOAuthState(nonce, SHOP)).toBe(true);
+    expect(await consumeOAuthState(nonce, SHOP)).toBe(false);
+    expect(await consumeOAuthState("unknown-nonce", SHOP)).toBe(false);
+  });
+});
@@ -0,0 +1,224 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { getDb } from "./mongodb";
+import { createWebhookSubscription } from "./shopify";
+import { getShopOrigin } from "./shopify-client";
+import { getRegisteredWebhookTopics } from "./webhook-handlers";
+
+/**
+ * Shopify OAuth install flow: the install route redirects to Shopify's grant
+ * screen with a single-use nonce, and the callback checks the request HMAC
+ * and nonce before exchanging the code for an offline access token.
+ */
+
+interface OAuthState {
+  // The nonce sent as `state`
+  _id: string;
+  shop: string;
+  createdAt: Date;
+}
+
+interface OAuthConfig {
+  apiKey: string;
+  apiSecret: string;
+  scopes: string;
+  appUrl: string;
+}
+
+// Cookie binding the nonce to the browser that started the install
+export const OAUTH_STATE_COOKIE = "shopify_oauth_state";
+export const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+const DEFAULT_SCOPES = "read_orders";
+
+// Privacy topics are subscribed in the app's configuration, not via the API
+const APP_CONFIG_WEBHOOK_TOPICS = [
+  "customers/redact",
+  "customers/data_request",
+  "shop/redact",
+];
+
+let stateIndexesReady: Promise<string> | null = null;
+
+export function getOAuthConfig(): OAuthConfig {
+  const apiKey = process.env.SHOPIFY_API_KEY;
+  const apiSecret = process.env.SHOPIFY_API_SECRET;
+  const appUrl = process.env.SHOPIFY_APP_URL;
+
+  if (!apiKey || !apiSecret || !appUrl) {
+    throw new Error(
+      "Shopify app not configured. Set SHOPIFY_API_KEY, SHOPIFY_API_SECRET and SHOPIFY_APP_URL in .env.local"
+    );
+  }
+
+  return {
+    apiKey,
+    apiSecret,
+    scopes: process.env.SHOPIFY_SCOPES || DEFAULT_SCOPES,
+    appUrl: appUrl.replace(/\/$/, ""),
+  };
+}
+
+async function getStatesCollection() {
+  const db = await getDb();
+  const statesCollection = db.collection<OAuthState>("oauth_states");
+
+  if (!stateIndexesReady) {
+    stateIndexesReady = statesCollection
+      .createIndex(
+        { createdAt: 1 },
+        { expireAfterSeconds: OAUTH_STATE_TTL_SECONDS }
+      )
+      .catch((error) => {
+        stateIndexesReady = null;
+        throw error;
+      });
+  }
+  await stateIndexesReady;
+
+  return statesCollection;
+}
+
+/**
+ * Whether `shop` is a bare myshopify domain, so it is safe to redirect to
+ */
+export function isValidShopDomain(shop: string): boolean {
+  return /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/.test(shop);
+}
+
+/**
+ * Start an install: store a nonce for the shop and return it together with
+ * the URL of Shopify's grant screen
+ */
+export async function beginOAuthInstall(
+  shop: string
+): Promise<{ nonce: string; authorizeUrl: string }> {
+  const config = getOAuthConfig();
+  const statesCollection = await getStatesCollection();
+  const nonce = randomBytes(16).toString("hex");
+
+  await statesCollection.insertOne({ _id: nonce, shop, createdAt: new Date() });
+
+  const params = new URLSearchParams({
+    client_id: config.apiKey,
+    scope: config.scopes,
+    redirect_uri: `${config.appUrl}/api/auth/shopify/callback`,
+    state: nonce,
+  });
+  return {
+    nonce,
+    authorizeUrl: `${getShopOrigin(shop)}/admin/oauth/authorize?${params}`,
+  };
+}
+
+/**
+ * Check the `hmac` Shopify adds to the callback: a SHA-256 HMAC of the other
+ * query parameters, sorted and joined as a query string
+ */
+export function verifyOAuthHmac(searchParams: URLSearchParams): boolean {
+  const hmac = searchParams.get("hmac");
+  if (!hmac) return false;
+
+  const message = Array.from(searchParams.entries())
+    .filter(([key]) => key !== "hmac" && key !== "signature")
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  const expected = createHmac("sha256", getOAuthConfig().apiSecret)
+    .update(message)
+    .digest("hex");
+
+  return (
+    expected.length === hmac.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(hmac))
+  );
+}
+
+/**
+ * Use up the nonce for a callback. Returns false if it is unknown, expired,
+ * already used or was issued for another shop.
+ */
+export async function consumeOAuthState(
+  nonce: string,
+  shop: string
+): Promise<boolean> {
+  const statesCollection = await getStatesCollection();
+  const state = await statesCollection.findOneAndDelete({ _id: nonce, shop });
+  return (
+    !!state &&
+    Date.now() - state.createdAt.getTime() < OAUTH_STATE_TTL_SECONDS * 1000
+  );
+}
+
+/**
+ * Exchange the authorization code for an offline access token
+ */
+export async function exchangeAccessToken(
+  shop: string,
+  code: string
+): Promise<{ accessToken: string; scopes: string }> {
+  const config = getOAuthConfig();
+  const response = await fetch(
+    `${getShopOrigin(shop)}/admin/oauth/access_token`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify({
+        client_id: config.apiKey,
+        client_secret: config.apiSecret,
+        code,
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      `Access token exchange failed: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const body = (await response.json()) as {
+    access_token?: string;
+    scope?: string;
+  };
+  if (!body.access_token) {
+    throw new Error("Access token exchange returned no access_token");
+  }
+  return { accessToken: body.access_token, scopes: body.scope || "" };
+}
+
+/**
+ * Subscribe the current shop to every webhook topic with a registered
+ * handler. Topics that are already subscribed count as subscribed.
+ */
+export async function subscribeToWebhooks(): Promise<
+  { topic: string; subscribed: boolean; error?: string }[]
+> {
+  const uri = `${getOAuthConfig().appUrl}/api/webhooks/shopify`;
+  const topics = getRegisteredWebhookTopics().filter(
+    (topic) => !APP_CONFIG_WEBHOOK_TOPICS.includes(topic)
+  );
+
+  const results = [];
+  for (const topic of topics) {
+    try {
+      const errors = (await createWebhookSubscription(topic, uri)).filter(
+        (message) => !/already been taken/i.test(message)
+      );
+      results.push(
+        errors.length > 0
+          ? { topic, subscribed: false, error: errors.join("; ") }
+          : { topic, subscribed: true }
+      );
+    } catch (error) {
+      results.push({
+        topic,
+        subscribed: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+  return results;
+}
@@ -1,102 +1,27 @@
-import { createHmac } from "crypto";
+import { createHmac, timingSafeEqual } from "crypto";
 import { Order } from "@/types/order";
-
-interface ShopifyConfig {
-  shop: string;
-  accessToken: string;
-}
-
-let shopifyConfig: ShopifyConfig | null = null;
-
-export function setShopifyConfig(config: ShopifyConfig) {
-  shopifyConfig = config;
-}
-
-export function getShopifyConfig(): ShopifyConfig {
-  if (!shopifyConfig) {
-    const shop = process.env.SHOPIFY_SHOP;
-    const accessToken = process.env.SHOPIFY_ACCESS_TOKEN;
-
-    if (!shop || !accessToken) {
-      throw new Error(
-        "Shopify credentials not configured. Set SHOPIFY_SHOP and SHOPIFY_ACCESS_TOKEN in .env.local"
-      );
-    }
-
-    shopifyConfig = { shop, accessToken };
-  }
-
-  return shopifyConfig;
-}
+import {
+  BulkOrderHandlers,
+  readJsonLines,
+  reassembleBulkOrders,
+} from "./bulk-orders";
+import {
+  buildOrderFragment,
+  buildOrderSelection,
+  normalizeGraphQLOrder,
+} from "./order-mapping";
+import { shopifyGraphQL } from "./shopify-client";
+
+export { getShopifyConfig } from "./shopify-client";
+
+const ORDER_FRAGMENT = buildOrderFragment();
 
 const ORDERS_QUERY = `
   query getOrders($first: Int!, $after: String, $query: String) {
     orders(first: $first, after: $after, query: $query, sortKey: CREATED_AT, reverse: true) {
       edges {
         node {
-          id
-          name
-          email
-          createdAt
-          updatedAt
-          totalPriceSet {
-            shopMoney {
-              amount
-              currencyCode
-            }
-          }
-          subtotalPriceSet {
-            shopMoney {
-              amount
-            }
-          }
-          totalTaxSet {
-            shopMoney {
-              amount
-            }
-          }
-          totalShippingPriceSet {
-            shopMoney {
-              amount
-              currencyCode
-            }
-          }
-          shippingAddress {
-            firstName
-            lastName
-            address1
-            address2
-            city
-            province
-            country
-            zip
-          }
-          lineItems(first: 250) {
-            edges {
-              node {
-                id
-                title
-                quantity
-                originalUnitPriceSet {
-                  shopMoney {
-                    amount
-                  }
-                }
-                variant {
-                  sku
-                }
-              }
-            }
-          }
-          displayFinancialStatus
-          displayFulfillmentStatus
-          currencyCode
-          customer {
-            id
-            email
-            firstName
-            lastName
-          }
+          ...OrderFields
         }
         cursor
       }
@@ -106,128 +31,9 @@ const ORDERS_QUERY = `
       }
     }
   }
+  ${ORDER_FRAGMENT}
 `;
 
-interface GraphQLOrderNode {
-  id: string;
-  name: string;
-  email: string | null;
-  createdAt: string;
-  updatedAt: string;
-  totalPriceSet: {
-    shopMoney: {
-      amount: string;
-      currencyCode: string;
-    };
-  };
-  subtotalPriceSet: {
-    shopMoney: {
-      amount: string;
-    };
-  };
-  totalTaxSet: {
-    shopMoney: {
-      amount: string;
-    };
-  };
-  totalShippingPriceSet: {
-    shopMoney: {
-      amount: string;
-      currencyCode: string;
-    };
-  } | null;
-  shippingAddress: {
-    firstName: string | null;
-    lastName: string | null;
-    address1: string | null;
-    address2: string | null;
-    city: string | null;
-    province: string | null;
-    country: string | null;
-    zip: string | null;
-  } | null;
-  lineItems: {
-    edges: Array<{
-      node: {
-        id: string;
-        title: string;
-        quantity: number;
-        originalUnitPriceSet: {
-          shopMoney: {
-            amount: string;
-          };
-        };
-        variant: {
-          sku: string | null;
-        } | null;
-      };
-    }>;
-  };
-  displayFinancialStatus: string | null;
-  displayFulfillmentStatus: string | null;
-  currencyCode: string;
-  customer: {
-    id: string;
-    email: string | null;
-    firstName: string | null;
-    lastName: string | null;
-  } | null;
-}
-
-function transformGraphQLOrderToOrder(graphQLOrder: GraphQLOrderNode): Order {
-  const orderNumber = parseInt(graphQLOrder.name.replace("#", "")) || 0;
-
-  return {
-    id: graphQLOrder.id.replace("gid://shopify/Order/", ""),
-    order_number: orderNumber,
-    email: graphQLOrder.email || undefined,
-    created_at: graphQLOrder.createdAt,
-    updated_at: graphQLOrder.updatedAt,
-    total_price: graphQLOrder.totalPriceSet.shopMoney.amount,
-    subtotal_price: graphQLOrder.subtotalPriceSet.shopMoney.amount,
-    total_tax: graphQLOrder.totalTaxSet.shopMoney.amount,
-    total_shipping_price_set: graphQLOrder.totalShippingPriceSet
-      ? {
-          shop_money: {
-            amount: graphQLOrder.totalShippingPriceSet.shopMoney.amount,
-            currency_code:
-              graphQLOrder.totalShippingPriceSet.shopMoney.currencyCode,
-          },
-        }
-      : undefined,
-    shipping_address: graphQLOrder.shippingAddress
-      ? {
-          first_name: graphQLOrder.shippingAddress.firstName || undefined,
-          last_name: graphQLOrder.shippingAddress.lastName || undefined,
-          address1: graphQLOrder.shippingAddress.address1 || undefined,
-          address2: graphQLOrder.shippingAddress.address2 || undefined,
-          city: graphQLOrder.shippingAddress.city || undefined,
-          province: graphQLOrder.shippingAddress.province || undefined,
-          country: graphQLOrder.shippingAddress.country || undefined,
-          zip: graphQLOrder.shippingAddress.zip || undefined,
-        }
-      : undefined,
-    line_items: graphQLOrder.lineItems.edges.map((edge) => ({
-      id: edge.node.id.replace("gid://shopify/LineItem/", ""),
-      title: edge.node.title,
-      quantity: edge.node.quantity,
-      price: edge.node.originalUnitPriceSet.shopMoney.amount,
-      sku: edge.node.variant?.sku || undefined,
-    })),
-    financial_status: graphQLOrder.displayFinancialStatus || undefined,
-    fulfillment_status: graphQLOrder.displayFulfillmentStatus || undefined,
-    currency: graphQLOrder.currencyCode,
-    customer: graphQLOrder.customer
-      ? {
-          id: graphQLOrder.customer.id.replace("gid://shopify/Customer/", ""),
-          email: graphQLOrder.customer.email || undefined,
-          first_name: graphQLOrder.customer.firstName || undefined,
-          last_name: graphQLOrder.customer.lastName || undefined,
-        }
-      : undefined,
-  };
-}
-
 const BULK_OPERATION_QUERY = `
   mutation bulkOperationRunQuery($query: String!) {
     bulkOperationRunQuery(query: $query) {
@@ -284,75 +90,75 @@ const CURRENT_BULK_OPERATION_QUERY = `
   }
 `;
 
+const WEBHOOK_SUBSCRIPTION_CREATE_MUTATION = `
+  mutation webhookSubscriptionCreate($topic: WebhookSubscriptionTopic!, $webhookSubscription: WebhookSubscriptionInput!) {
+    webhookSubscriptionCreate(topic: $topic, webhookSubscription: $webhookSubscription) {
+      webhookSubscription {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const SHOP_SETTINGS_QUERY = `
+  query getShopSettings {
+    shop {
+      ianaTimezone
+      currencyCode
+    }
+  }
+`;
+
 const SINGLE_ORDER_QUERY = `
   query getOrder($id: ID!) {
     order(id: $id) {
-      id
-      name
-      email
-      createdAt
-      updatedAt
-      totalPriceSet {
-        shopMoney {
-          amount
-          currencyCode
-        }
-      }
-      subtotalPriceSet {
-        shopMoney {
-          amount
-        }
-      }
-      totalTaxSet {
-        shopMoney {
-          amount
-        }
-      }
-      totalShippingPriceSet {
-        shopMoney {
-          amount
-          currencyCode
-        }
-      }
-      shippingAddress {
-        firstName
-        lastName
-        address1
-        address2
-        city
-        province
-        country
-        zip
+      ...OrderFields
+    }
+  }
+  ${ORDER_FRAGMENT}
+`;
+
+// Keeps a batched nodes(ids:) query under Shopify's 1,000 point per-query
+// cost limit. Orders with more line items than the page size are refetched
+// on their own.
+const ORDER_NODES_BATCH_SIZE = 15;
+const ORDER_NODES_LINE_ITEMS_PAGE_SIZE = 10;
+
+const ORDER_NODES_QUERY = `
+  query getOrdersByIds($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Order {
+${buildOrderSelection(
+  { connectionPageSize: ORDER_NODES_LINE_ITEMS_PAGE_SIZE },
+  "        "
+)}
       }
-      lineItems(first: 250) {
+    }
+  }
+`;
+
+/**
+ * Build the bulk operation query for all orders, optionally only those
+ * updated since a date. Bulk operations traverse connections via edges -> node.
+ */
+function buildBulkOrdersQuery(sinceDate?: string): string {
+  const args = sinceDate ? `(query: "updated_at:>='${sinceDate}'")` : "";
+  return `
+    {
+      orders${args} {
         edges {
           node {
-            id
-            title
-            quantity
-            originalUnitPriceSet {
-              shopMoney {
-                amount
-              }
-            }
-            variant {
-              sku
-            }
+${buildOrderSelection({ bulk: true }, "            ")}
           }
         }
       }
-      displayFinancialStatus
-      displayFulfillmentStatus
-      currencyCode
-      customer {
-        id
-        email
-        firstName
-        lastName
-      }
     }
-  }
-`;
+  `;
+}
 
 interface BulkOperationResponse {
   bulkOperation: {
@@ -369,340 +175,25 @@ interface BulkOperationResponse {
   userErrors: Array<{ field: string[]; message: string }>;
 }
 
-async function executeGraphQLQuery(
-  query: string,
-  variables?: Record<string, unknown>
-): Promise<Record<string, unknown>> {
-  const config = getShopifyConfig();
-  const graphqlUrl = `https://${config.shop}.myshopify.com/admin/api/2025-10/graphql.json`;
-
-  const response = await fetch(graphqlUrl, {
-    method: "POST",
-    headers: {
-      "X-Shopify-Access-Token": config.accessToken,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      query,
-      variables,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Shopify API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-
-  if (data.errors) {
-    throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
-  }
-
-  return data.data;
-}
-
-async function pollBulkOperationStatus(
-  operationId: string,
-  maxWaitTime = 7200000 // 2 hours
-): Promise<string> {
-  const startTime = Date.now();
-  const pollInterval = 60000; // Poll every 60 seconds
-
-  while (Date.now() - startTime < maxWaitTime) {
-    const data = (await executeGraphQLQuery(BULK_OPERATION_STATUS_QUERY, {
-      id: operationId,
-    })) as {
-      node: BulkOperationResponse["bulkOperation"];
-    };
-
-    const operation = data.node;
-
-    if (operation.status === "COMPLETED") {
-      if (!operation.url) {
-        throw new Error("Bulk operation completed but no URL provided");
-      }
-      return operation.url;
-    }
-
-    if (operation.status === "FAILED") {
-      throw new Error(
-        `Bulk operation failed: ${operation.errorCode || "Unknown error"}`
-      );
-    }
-
-    if (operation.status === "CANCELED") {
-      throw new Error("Bulk operation was canceled");
-    }
-
-    // Wait before next poll
-    await new Promise((resolve) => setTimeout(resolve, pollInterval));
-  }
-
-  throw new Error("Bulk operation timeout - operation took too long");
-}
-
-export async function downloadBulkData(url: string): Promise<Order[]> {
+/**
+ * Stream a bulk operation's JSONL result and pass reassembled orders (with
+ * their line items) to the handlers in batches. Returns the number of orders.
+ */
+export async function streamBulkOrders(
+  url: string,
+  handlers: BulkOrderHandlers,
+  batchSize?: number
+): Promise<number> {
   const response = await fetch(url);
-  if (!response.ok) {
+  if (!response.ok || !response.body) {
     throw new Error(`Failed to download bulk data: ${response.statusText}`);
   }
 
-  const text = await response.text();
-  const lines = text.trim().split("\n");
-  const orders: Order[] = [];
-
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    try {
-      const orderData = JSON.parse(line) as BulkOrderData;
-      // Bulk operations return data in a different format
-      // We need to transform it to our Order format
-      if (orderData.__typename === "Order") {
-        const order = transformBulkOrderToOrder(orderData);
-        orders.push(order);
-      }
-    } catch (error) {
-      console.error("Error parsing bulk data line:", error, line);
-    }
-  }
-
-  return orders;
-}
-
-interface BulkOrderData {
-  id?: string;
-  name?: string;
-  email?: string;
-  createdAt?: string;
-  updatedAt?: string;
-  totalPriceSet?: {
-    shopMoney?: {
-      amount?: string;
-      currencyCode?: string;
-    };
-  };
-  subtotalPriceSet?: {
-    shopMoney?: {
-      amount?: string;
-    };
-  };
-  totalTaxSet?: {
-    shopMoney?: {
-      amount?: string;
-    };
-  };
-  totalShippingPriceSet?: {
-    shopMoney?: {
-      amount?: string;
-      currencyCode?: string;
-    };
-  };
-  shippingAddress?: {
-    firstName?: string;
-    lastName?: string;
-    address1?: string;
-    address2?: string;
-    city?: string;
-    province?: string;
-    country?: string;
-    zip?: string;
-  };
-  lineItems?: {
-    edges?: Array<{
-      node?: {
-        id?: string;
-        title?: string;
-        quantity?: number;
-        originalUnitPriceSet?: {
-          shopMoney?: {
-            amount?: string;
-          };
-        };
-        variant?: {
-          sku?: string;
-        };
-      };
-    }>;
-  };
-  displayFinancialStatus?: string;
-  displayFulfillmentStatus?: string;
-  currencyCode?: string;
-  customer?: {
-    id?: string;
-    email?: string;
-    firstName?: string;
-    lastName?: string;
-  };
-  __typename?: string;
-}
-
-function transformBulkOrderToOrder(bulkOrder: BulkOrderData): Order {
-  // Transform bulk operation order format to our Order format
-  const orderNumber = parseInt(bulkOrder.name?.replace("#", "") || "0");
-
-  return {
-    id: bulkOrder.id?.replace("gid://shopify/Order/", "") || "",
-    order_number: orderNumber,
-    email: bulkOrder.email || undefined,
-    created_at: bulkOrder.createdAt || new Date().toISOString(),
-    updated_at: bulkOrder.updatedAt || new Date().toISOString(),
-    total_price: bulkOrder.totalPriceSet?.shopMoney?.amount || "0",
-    subtotal_price: bulkOrder.subtotalPriceSet?.shopMoney?.amount || "0",
-    total_tax: bulkOrder.totalTaxSet?.shopMoney?.amount || "0",
-    total_shipping_price_set: bulkOrder.totalShippingPriceSet
-      ? {
-          shop_money: {
-            amount: bulkOrder.totalShippingPriceSet.shopMoney?.amount || "0",
-            currency_code:
-              bulkOrder.totalShippingPriceSet.shopMoney?.currencyCode || "USD",
-          },
-        }
-      : undefined,
-    shipping_address: bulkOrder.shippingAddress
-      ? {
-          first_name: bulkOrder.shippingAddress.firstName || undefined,
-          last_name: bulkOrder.shippingAddress.lastName || undefined,
-          address1: bulkOrder.shippingAddress.address1 || undefined,
-          address2: bulkOrder.shippingAddress.address2 || undefined,
-          city: bulkOrder.shippingAddress.city || undefined,
-          province: bulkOrder.shippingAddress.province || undefined,
-          country: bulkOrder.shippingAddress.country || undefined,
-          zip: bulkOrder.shippingAddress.zip || undefined,
-        }
-      : undefined,
-    line_items:
-      bulkOrder.lineItems?.edges?.map((edge) => {
-        const item = edge.node || {};
-        return {
-          id: item.id?.replace("gid://shopify/LineItem/", "") || "",
-          title: item.title || "",
-          quantity: item.quantity || 0,
-          price: item.originalUnitPriceSet?.shopMoney?.amount || "0",
-          sku: item.variant?.sku || undefined,
-        };
-      }) || [],
-    financial_status: bulkOrder.displayFinancialStatus || undefined,
-    fulfillment_status: bulkOrder.displayFulfillmentStatus || undefined,
-    currency: bulkOrder.currencyCode || "USD",
-    customer: bulkOrder.customer
-      ? {
-          id:
-            bulkOrder.customer.id?.replace("gid://shopify/Customer/", "") || "",
-          email: bulkOrder.customer.email || undefined,
-          first_name: bulkOrder.customer.firstName || undefined,
-          last_name: bulkOrder.customer.lastName || undefined,
-        }
-      : undefined,
-  };
-}
-
-export async function syncOrdersBulk(sinceDate?: string): Promise<Order[]> {
-  // Bulk operations require traversing connections via edges -> node
-  let bulkQuery = `
-    {
-      orders`;
-
-  if (sinceDate) {
-    bulkQuery += `(query: "updated_at:>='${sinceDate}'")`;
-  }
-
-  bulkQuery += ` {
-        edges {
-          node {
-            __typename
-            id
-            name
-            email
-            createdAt
-            updatedAt
-            totalPriceSet {
-              shopMoney {
-                amount
-                currencyCode
-              }
-            }
-            subtotalPriceSet {
-              shopMoney {
-                amount
-              }
-            }
-            totalTaxSet {
-              shopMoney {
-                amount
-              }
-            }
-            totalShippingPriceSet {
-              shopMoney {
-                amount
-                currencyCode
-              }
-            }
-            shippingAddress {
-              firstName
-              lastName
-              address1
-              address2
-              city
-              province
-              country
-              zip
-            }
-            lineItems {
-              edges {
-                node {
-                  id
-                  title
-                  quantity
-                  originalUnitPriceSet {
-                    shopMoney {
-                      amount
-                    }
-                  }
-                  variant {
-                    sku
-                  }
-                }
-              }
-            }
-            displayFinancialStatus
-            displayFulfillmentStatus
-            currencyCode
-            customer {
-              id
-              email
-              firstName
-              lastName
-            }
-          }
-        }
-      }
-    }
-  `;
-
-  // Start bulk operation
-  const bulkData = (await executeGraphQLQuery(BULK_OPERATION_QUERY, {
-    query: bulkQuery,
-  })) as {
-    bulkOperationRunQuery: BulkOperationResponse;
-  };
-
-  const bulkOperation = bulkData.bulkOperationRunQuery.bulkOperation;
-
-  if (bulkData.bulkOperationRunQuery.userErrors?.length > 0) {
-    throw new Error(
-      `Bulk operation errors: ${JSON.stringify(
-        bulkData.bulkOperationRunQuery.userErrors
-      )}`
-    );
-  }
-
-  // Poll for completion
-  const downloadUrl = await pollBulkOperationStatus(bulkOperation.id);
-
-  // Download and parse the data
-  const orders = await downloadBulkData(downloadUrl);
-
-  return orders;
+  return reassembleBulkOrders(
+    readJsonLines(response.body),
+    handlers,
+    batchSize
+  );
 }
 
 /**
@@ -748,7 +239,7 @@ export interface BulkOperationStatus {
  * Get current bulk operation status (if any)
  */
 export async function getCurrentBulkOperation(): Promise<BulkOperationStatus | null> {
-  const data = (await executeGraphQLQuery(CURRENT_BULK_OPERATION_QUERY)) as {
+  const data = (await shopifyGraphQL(CURRENT_BULK_OPERATION_QUERY)) as {
     currentBulkOperation: BulkOperationStatus | null;
   };
 
@@ -759,95 +250,30 @@ export async function getCurrentBulkOperation(): Promise<BulkOperationStatus | n
   return data.currentBulkOperation;
 }
 
+/**
+ * Get a bulk operation's status by its ID
+ */
+export async function getBulkOperation(
+  operationId: string
+): Promise<BulkOperationStatus | null> {
+  const data = (await shopifyGraphQL(BULK_OPERATION_STATUS_QUERY, {
+    id: operationId,
+  })) as {
+    node: BulkOperationStatus | null;
+  };
+
+  return data.node;
+}
+
 /**
  * Start a bulk orders operation and return its operation ID
  */
 export async function startOrdersBulk(
   sinceDate?: string
 ): Promise<{ operationId: string }> {
-  // Build bulk query (edges -> node)
-  let bulkQuery = `
-    {
-      orders`;
-
-  if (sinceDate) {
-    bulkQuery += `(query: "updated_at:>='${sinceDate}'")`;
-  }
+  const bulkQuery = buildBulkOrdersQuery(sinceDate);
 
-  bulkQuery += ` {
-        edges {
-          node {
-            __typename
-            id
-            name
-            email
-            createdAt
-            updatedAt
-            totalPriceSet {
-              shopMoney {
-                amount
-                currencyCode
-              }
-            }
-            subtotalPriceSet {
-              shopMoney {
-                amount
-              }
-            }
-            totalTaxSet {
-              shopMoney {
-                amount
-              }
-            }
-            totalShippingPriceSet {
-              shopMoney {
-                amount
-                currencyCode
-              }
-            }
-            shippingAddress {
-              firstName
-              lastName
-              address1
-              address2
-              city
-              province
-              country
-              zip
-            }
-            lineItems {
-              edges {
-                node {
-                  id
-                  title
-                  quantity
-                  originalUnitPriceSet {
-                    shopMoney {
-                      amount
-                    }
-                  }
-                  variant {
-                    sku
-                  }
-                }
-              }
-            }
-            displayFinancialStatus
-            displayFulfillmentStatus
-            currencyCode
-            customer {
-              id
-              email
-              firstName
-              lastName
-            }
-          }
-        }
-      }
-    }
-  `;
-
-  const bulkData = (await executeGraphQLQuery(BULK_OPERATION_QUERY, {
+  const bulkData = (await shopifyGraphQL(BULK_OPERATION_QUERY, {
     query: bulkQuery,
   })) as {
     bulkOperationRunQuery: BulkOperationResponse;
@@ -890,35 +316,88 @@ export async function fetchOrdersIncremental(
   return allOrders;
 }
 
+export interface OrdersByIdsResult {
+  orders: Order[];
+  // Ids Shopify no longer knows about, i.e. deleted orders
+  missingIds: string[];
+  failed: { id: string; error: string }[];
+}
+
 /**
- * Fetch multiple orders by their IDs from Shopify
+ * Fetch one batch of orders with a single nodes(ids:) query
  */
-export async function fetchOrdersByIds(orderIds: string[]): Promise<Order[]> {
-  const orders: Order[] = [];
+async function fetchOrderNodes(orderIds: string[]): Promise<OrdersByIdsResult> {
+  const result: OrdersByIdsResult = { orders: [], missingIds: [], failed: [] };
+
+  let nodes: unknown[];
+  try {
+    const data = (await shopifyGraphQL(ORDER_NODES_QUERY, {
+      ids: orderIds.map((id) => `gid://shopify/Order/${id}`),
+    })) as { nodes: unknown[] };
+    nodes = data.nodes;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    result.failed = orderIds.map((id) => ({ id, error: message }));
+    return result;
+  }
 
-  // Fetch orders in parallel (but limit concurrency to avoid rate limits)
-  const batchSize = 10;
-  for (let i = 0; i < orderIds.length; i += batchSize) {
-    const batch = orderIds.slice(i, i + batchSize);
-    const batchPromises = batch.map((id) =>
-      fetchOrderById(id).catch((error) => {
-        console.error(`Error fetching order ${id}:`, error);
-        return null;
-      })
-    );
+  // Nodes come back in the order of the requested ids, null when not found
+  const truncatedIds: string[] = [];
+  orderIds.forEach((id, index) => {
+    const node = nodes[index];
+    if (!node) {
+      result.missingIds.push(id);
+      return;
+    }
+    const order = normalizeGraphQLOrder(node);
+    if (order.line_items.length >= ORDER_NODES_LINE_ITEMS_PAGE_SIZE) {
+      truncatedIds.push(id);
+    } else {
+      result.orders.push(order);
+    }
+  });
 
-    const batchResults = await Promise.all(batchPromises);
-    const validOrders = batchResults.filter(
-      (order): order is Order => order !== null
-    );
-    orders.push(...validOrders);
+  await Promise.all(
+    truncatedIds.map(async (id) => {
+      try {
+        result.orders.push(await fetchOrderById(id));
+      } catch (error) {
+        result.failed.push({
+          id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    })
+  );
+
+  return result;
+}
+
+/**
+ * Fetch multiple orders by their IDs from Shopify in batched nodes(ids:)
+ * queries. Orders that no longer exist and orders that couldn't be fetched
+ * are reported separately.
+ */
+export async function fetchOrdersByIds(
+  orderIds: string[]
+): Promise<OrdersByIdsResult> {
+  const batches: string[][] = [];
+  for (let i = 0; i < orderIds.length; i += ORDER_NODES_BATCH_SIZE) {
+    batches.push(orderIds.slice(i, i + ORDER_NODES_BATCH_SIZE));
   }
 
-  return orders;
+  // The client paces the batches to the rate limit budget
+  const results = await Promise.all(batches.map(fetchOrderNodes));
+
+  return {
+    orders: results.flatMap((r) => r.orders),
+    missingIds: results.flatMap((r) => r.missingIds),
+    failed: results.flatMap((r) => r.failed),
+  };
 }
 
 /**
- * Verify webhook signature from Shopify
+ * Verify webhook signature from Shopify, in constant time
  */
 export function verifyWebhookSignature(
   body: string,
@@ -927,59 +406,48 @@ export function verifyWebhookSignature(
 ): boolean {
   const hmac = createHmac("sha256", secret);
   hmac.update(body, "utf8");
-  const calculatedSignature = hmac.digest("base64");
-  return calculatedSignature === signature;
-}
-
-interface WebhookLineItem {
-  id?: number | string;
-  title?: string;
-  quantity?: number;
-  price?: string;
-  sku?: string;
+  const expected = Buffer.from(hmac.digest("base64"));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
 }
 
-interface WebhookShippingAddress {
-  first_name?: string;
-  last_name?: string;
-  address1?: string;
-  address2?: string;
-  city?: string;
-  province?: string;
-  country?: string;
-  zip?: string;
-}
+/**
+ * Subscribe the current shop to a webhook topic (e.g. "orders/paid"),
+ * delivered as JSON to `uri`. Returns the user errors Shopify reported.
+ */
+export async function createWebhookSubscription(
+  topic: string,
+  uri: string
+): Promise<string[]> {
+  const data = (await shopifyGraphQL(WEBHOOK_SUBSCRIPTION_CREATE_MUTATION, {
+    // GraphQL topics are enums, e.g. ORDERS_PAID
+    topic: topic.toUpperCase().replace("/", "_"),
+    webhookSubscription: { uri, format: "JSON" },
+  })) as {
+    webhookSubscriptionCreate: {
+      userErrors: { field: string[] | null; message: string }[];
+    };
+  };
 
-interface WebhookCustomer {
-  id?: number | string;
-  email?: string;
-  first_name?: string;
-  last_name?: string;
+  return data.webhookSubscriptionCreate.userErrors.map((e) => e.message);
 }
 
-interface WebhookShippingPriceSet {
-  shop_money?: {
-    amount?: string;
-    currency_code?: string;
+/**
+ * The current shop's IANA timezone and currency from its Shopify settings
+ */
+export async function fetchShopSettings(): Promise<{
+  timezone: string;
+  currency: string;
+}> {
+  const data = (await shopifyGraphQL(SHOP_SETTINGS_QUERY)) as {
+    shop: { ianaTimezone: string; currencyCode: string };
+  };
+  return {
+    timezone: data.shop.ianaTimezone,
+    currency: data.shop.currencyCode,
   };
-}
-
-interface WebhookOrder {
-  id?: number | string;
-  name?: string;
-  email?: string;
-  created_at?: string;
-  updated_at?: string;
-  total_price?: string;
-  subtotal_price?: string;
-  total_tax?: string;
-  total_shipping_price_set?: WebhookShippingPriceSet;
-  shipping_address?: WebhookShippingAddress;
-  line_items?: WebhookLineItem[];
-  financial_status?: string;
-  fulfillment_status?: string;
-  currency?: string;
-  customer?: WebhookCustomer;
 }
 
 /**
@@ -987,79 +455,17 @@ interface WebhookOrder {
  */
 export async function fetchOrderById(orderId: string): Promise<Order> {
   const shopifyOrderId = `gid://shopify/Order/${orderId}`;
-  const data = (await executeGraphQLQuery(SINGLE_ORDER_QUERY, {
+  const data = (await shopifyGraphQL(SINGLE_ORDER_QUERY, {
     id: shopifyOrderId,
   })) as {
-    order: GraphQLOrderNode | null;
+    order: unknown;
   };
 
   if (!data.order) {
     throw new Error(`Order ${orderId} not found in Shopify`);
   }
 
-  return transformGraphQLOrderToOrder(data.order);
-}
-
-/**
- * Transform Shopify REST API order format (from webhooks) to our Order type
- */
-export function transformWebhookOrderToOrder(
-  webhookOrder: WebhookOrder
-): Order {
-  const orderNumber = parseInt(webhookOrder.name?.replace("#", "") || "0") || 0;
-
-  return {
-    id: webhookOrder.id?.toString() || "",
-    order_number: orderNumber,
-    email: webhookOrder.email || undefined,
-    created_at: webhookOrder.created_at || new Date().toISOString(),
-    updated_at: webhookOrder.updated_at || new Date().toISOString(),
-    total_price: webhookOrder.total_price || "0",
-    subtotal_price: webhookOrder.subtotal_price || "0",
-    total_tax: webhookOrder.total_tax || "0",
-    total_shipping_price_set: webhookOrder.total_shipping_price_set
-      ? {
-          shop_money: {
-            amount:
-              webhookOrder.total_shipping_price_set.shop_money?.amount || "0",
-            currency_code:
-              webhookOrder.total_shipping_price_set.shop_money?.currency_code ||
-              "USD",
-          },
-        }
-      : undefined,
-    shipping_address: webhookOrder.shipping_address
-      ? {
-          first_name: webhookOrder.shipping_address.first_name || undefined,
-          last_name: webhookOrder.shipping_address.last_name || undefined,
-          address1: webhookOrder.shipping_address.address1 || undefined,
-          address2: webhookOrder.shipping_address.address2 || undefined,
-          city: webhookOrder.shipping_address.city || undefined,
-          province: webhookOrder.shipping_address.province || undefined,
-          country: webhookOrder.shipping_address.country || undefined,
-          zip: webhookOrder.shipping_address.zip || undefined,
-        }
-      : undefined,
-    line_items:
-      webhookOrder.line_items?.map((item: WebhookLineItem) => ({
-        id: item.id?.toString() || "",
-        title: item.title || "",
-        quantity: item.quantity || 0,
-        price: item.price || "0",
-        sku: item.sku || undefined,
-      })) || [],
-    financial_status: webhookOrder.financial_status || undefined,
-    fulfillment_status: webhookOrder.fulfillment_status || undefined,
-    currency: webhookOrder.currency || "USD",
-    customer: webhookOrder.customer
-      ? {
-          id: webhookOrder.customer.id?.toString() || "",
-          email: webhookOrder.customer.email || undefined,
-          first_name: webhookOrder.customer.first_name || undefined,
-          last_name: webhookOrder.customer.last_name || undefined,
-        }
-      : undefined,
-  };
+  return normalizeGraphQLOrder(data.order);
 }
 
 // Keep the old function for backward compatibility or small fetches
@@ -1072,9 +478,6 @@ export async function fetchOrdersFromShopify(
   hasNextPage: boolean;
   endCursor: string | null;
 }> {
-  const config = getShopifyConfig();
-  const graphqlUrl = `https://${config.shop}.myshopify.com/admin/api/2025-10/graphql.json`;
-
   const variables: {
     first: number;
     after?: string;
@@ -1092,37 +495,20 @@ export async function fetchOrdersFromShopify(
     variables.query = `updated_at:>='${sinceDate}'`;
   }
 
-  const response = await fetch(graphqlUrl, {
-    method: "POST",
-    headers: {
-      "X-Shopify-Access-Token": config.accessToken,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      query: ORDERS_QUERY,
-      variables,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Shopify API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-
-  if (data.errors) {
-    throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
-  }
+  const data = (await shopifyGraphQL(ORDERS_QUERY, variables)) as {
+    orders?: {
+      edges: { node: unknown }[];
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    };
+  };
 
-  const edges = data.data?.orders?.edges || [];
-  const pageInfo = data.data?.orders?.pageInfo || {
+  const edges = data.orders?.edges || [];
+  const pageInfo = data.orders?.pageInfo || {
     hasNextPage: false,
     endCursor: null,
   };
 
-  const orders = edges.map((edge: { node: GraphQLOrderNode }) =>
-    transformGraphQLOrderToOrder(edge.node)
-  );
+  const orders = edges.map((edge) => normalizeGraphQLOrder(edge.node));
 
   return {
     orders,
@@ -0,0 +1,373 @@
+import { Db } from "mongodb";
+import { NextRequest, NextResponse } from "next/server";
+import { RouteAccess, withRole, withRoleOrApiKey } from "./auth";
+import { getDb } from "./mongodb";
+import { getCurrentShop, runWithShop } from "./shop-context";
+import { fetchShopSettings } from "./shopify";
+import { isValidTimeZone } from "./timezone";
+import {
+  decryptSecret,
+  encryptSecret,
+  needsReencryption,
+} from "./token-encryption";
+import { ApiKeySummary } from "@/types/api-key";
+import { Shop, ShopSummary } from "@/types/shop";
+
+// Remembers the store picked in the navigation switcher
+export const SHOP_COOKIE = "shop";
+
+// Collections whose documents carry a shopId
+const SHOP_SCOPED_COLLECTIONS = [
+  "orders",
+  "order_events",
+  "sync_runs",
+  "jobs",
+  "api_keys",
+];
+
+// Single-document collections that were keyed without a shop
+const LEGACY_KEYED_DOCUMENTS = [
+  { collection: "sync_metadata", id: "sync_metadata" },
+  { collection: "schedules", id: "orders.sync" },
+];
+
+let shopsReady: Promise<void> | null = null;
+
+/**
+ * Normalize a shop name or URL to its myshopify domain
+ */
+export function normalizeShopDomain(shop: string): string {
+  const domain = shop
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/.*$/, "");
+  return domain.endsWith(".myshopify.com")
+    ? domain
+    : `${domain}.myshopify.com`;
+}
+
+/**
+ * Move data stored before multi-store support to the given shop
+ */
+async function adoptLegacyData(db: Db, shopId: string): Promise<void> {
+  for (const name of SHOP_SCOPED_COLLECTIONS) {
+    await db
+      .collection(name)
+      .updateMany({ shopId: { $exists: false } }, { $set: { shopId } });
+  }
+
+  for (const { collection, id } of LEGACY_KEYED_DOCUMENTS) {
+    const documents = db.collection<{ _id: string }>(collection);
+    const legacy = await documents.findOne({ _id: id });
+    if (!legacy) continue;
+
+    const { _id, ...fields } = legacy;
+    await documents.updateOne(
+      { _id: `${_id}:${shopId}` },
+      { $setOnInsert: { ...fields, shopId } },
+      { upsert: true }
+    );
+    await documents.deleteOne({ _id: id });
+  }
+}
+
+/**
+ * Register the shop configured with SHOPIFY_SHOP and SHOPIFY_ACCESS_TOKEN,
+ * so single-store setups keep working without calling the shops API
+ */
+async function registerShopFromEnv(db: Db): Promise<void> {
+  const shop = process.env.SHOPIFY_SHOP;
+  const accessToken = process.env.SHOPIFY_ACCESS_TOKEN;
+  if (!shop || !accessToken) return;
+
+  const now = new Date().toISOString();
+  await db.collection<Shop>("shops").updateOne(
+    { _id: normalizeShopDomain(shop) },
+    {
+      $setOnInsert: {
+        name: shop,
+        accessToken: encryptSecret(accessToken),
+        createdAt: now,
+        updatedAt: now,
+      },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Give data stored before multi-store support to the shop it came from:
+ * SHOPIFY_SHOP when set, otherwise the first connected shop. Without either
+ * it waits for the first shop to be added.
+ */
+async function adoptLegacyDataForFirstShop(db: Db): Promise<void> {
+  let shopId = process.env.SHOPIFY_SHOP
+    ? normalizeShopDomain(process.env.SHOPIFY_SHOP)
+    : undefined;
+  if (!shopId) {
+    const first = await db
+      .collection<Shop>("shops")
+      .findOne({}, { sort: { createdAt: 1 }, projection: { _id: 1 } });
+    shopId = first?._id;
+  }
+  if (shopId) {
+    await adoptLegacyData(db, shopId);
+  }
+}
+
+/**
+ * Encrypt secrets that are stored in plaintext or with a rotated-out key
+ */
+async function reencryptShopSecrets(db: Db): Promise<void> {
+  const shopsCollection = db.collection<Shop>("shops");
+  const shops = await shopsCollection.find().toArray();
+
+  for (const shop of shops) {
+    const update: Partial<Shop> = {};
+    if (shop.accessToken && needsReencryption(shop.accessToken)) {
+      update.accessToken = encryptSecret(decryptSecret(shop.accessToken));
+    }
+    if (shop.webhookSecret && needsReencryption(shop.webhookSecret)) {
+      update.webhookSecret = encryptSecret(decryptSecret(shop.webhookSecret));
+    }
+    if (Object.keys(update).length > 0) {
+      await shopsCollection.updateOne({ _id: shop._id }, { $set: update });
+    }
+  }
+}
+
+async function getShopsCollection() {
+  const db = await getDb();
+
+  if (!shopsReady) {
+    shopsReady = registerShopFromEnv(db)
+      .then(() => adoptLegacyDataForFirstShop(db))
+      .then(() => reencryptShopSecrets(db))
+      .catch((error) => {
+        shopsReady = null;
+        throw error;
+      });
+  }
+  await shopsReady;
+
+  return db.collection<Shop>("shops");
+}
+
+export function toShopSummary(shop: Shop): ShopSummary {
+  return {
+    _id: shop._id,
+    name: shop.name,
+    scopes: shop.scopes,
+    timezone: shop.timezone,
+    currency: shop.currency,
+    uninstalledAt: shop.uninstalledAt,
+    createdAt: shop.createdAt,
+    updatedAt: shop.updatedAt,
+  };
+}
+
+export async function getShop(shopId: string): Promise<Shop | null> {
+  const shopsCollection = await getShopsCollection();
+  return shopsCollection.findOne({ _id: normalizeShopDomain(shopId) });
+}
+
+/**
+ * List every connected shop, oldest first
+ */
+export async function listShops(): Promise<Shop[]> {
+  const shopsCollection = await getShopsCollection();
+  return shopsCollection.find().sort({ createdAt: 1 }).toArray();
+}
+
+/**
+ * Add a shop or update its credentials. Secrets are stored encrypted.
+ */
+export async function saveShop(input: {
+  shop: string;
+  name?: string;
+  accessToken: string;
+  webhookSecret?: string;
+  scopes?: string;
+}): Promise<Shop> {
+  const shopsCollection = await getShopsCollection();
+  const shopId = normalizeShopDomain(input.shop);
+  const now = new Date().toISOString();
+
+  // Fields that weren't given keep their stored values
+  const fields: Partial<Shop> = {
+    name: input.name || shopId.replace(/\.myshopify\.com$/, ""),
+    accessToken: encryptSecret(input.accessToken),
+    webhookSecret: input.webhookSecret
+      ? encryptSecret(input.webhookSecret)
+      : undefined,
+    scopes: input.scopes,
+    updatedAt: now,
+  };
+  const shop = await shopsCollection.findOneAndUpdate(
+    { _id: shopId },
+    {
+      $set: Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined)
+      ),
+      // Installing again undoes an uninstall
+      $unset: { uninstalledAt: "" },
+      $setOnInsert: { createdAt: now },
+    },
+    { upsert: true, returnDocument: "after" }
+  );
+  // The first shop added takes over data stored before multi-store support
+  await adoptLegacyDataForFirstShop(await getDb());
+  return shop!;
+}
+
+/**
+ * Forget a shop's credentials after it uninstalled the app, keeping its data.
+ * Returns false for unknown shops.
+ */
+export async function markShopUninstalled(shopId: string): Promise<boolean> {
+  const shopsCollection = await getShopsCollection();
+  const now = new Date().toISOString();
+  const result = await shopsCollection.updateOne(
+    { _id: normalizeShopDomain(shopId) },
+    {
+      $set: { uninstalledAt: now, updatedAt: now },
+      $unset: { accessToken: "", webhookSecret: "" },
+    }
+  );
+  return result.matchedCount > 0;
+}
+
+/**
+ * Remove a shop and its credentials. Its data is purged separately.
+ */
+export async function deleteShop(shopId: string): Promise<boolean> {
+  const shopsCollection = await getShopsCollection();
+  const result = await shopsCollection.deleteOne({
+    _id: normalizeShopDomain(shopId),
+  });
+  return result.deletedCount > 0;
+}
+
+/**
+ * The current shop's timezone and currency. They are read from Shopify and
+ * stored the first time they are needed. If Shopify can't be reached before
+ * then, this throws rather than guessing, since daily metrics written in the
+ * wrong timezone would land in the wrong days; callers retry later.
+ */
+async function getShopSettings(): Promise<{
+  timezone: string;
+  currency: string;
+}> {
+  const shop = getCurrentShop();
+  if (shop.timezone && shop.currency) {
+    return { timezone: shop.timezone, currency: shop.currency };
+  }
+
+  // Another request may have stored them since this one loaded the shop
+  const shopsCollection = await getShopsCollection();
+  const stored = await shopsCollection.findOne(
+    { _id: shop._id },
+    { projection: { timezone: 1, currency: 1 } }
+  );
+  if (stored?.timezone && stored.currency) {
+    return { timezone: stored.timezone, currency: stored.currency };
+  }
+
+  const { timezone, currency } = await fetchShopSettings();
+  if (!isValidTimeZone(timezone)) {
+    throw new Error(`Unknown timezone for ${shop._id}: ${timezone}`);
+  }
+  await shopsCollection.updateOne(
+    { _id: shop._id },
+    { $set: { timezone, currency } }
+  );
+  return { timezone, currency };
+}
+
+export async function getShopTimezone(): Promise<string> {
+  return (await getShopSettings()).timezone;
+}
+
+export async function getShopCurrency(): Promise<string> {
+  return (await getShopSettings()).currency;
+}
+
+/**
+ * The shop a request works on: the `shop` query parameter, then the store
+ * picked in the switcher, then the first connected shop
+ */
+export async function resolveRequestShop(
+  request: NextRequest
+): Promise<Shop | null> {
+  const requested = request.nextUrl.searchParams.get("shop");
+  if (requested) {
+    return getShop(requested);
+  }
+
+  // A removed shop may still be remembered by the switcher
+  const selected = request.cookies.get(SHOP_COOKIE)?.value;
+  const shop = selected ? await getShop(selected) : null;
+  if (shop) {
+    return shop;
+  }
+
+  const shopsCollection = await getShopsCollection();
+  return shopsCollection.findOne({}, { sort: { createdAt: 1 } });
+}
+
+/**
+ * Wrap a route handler so it only runs for callers allowed by `access`, in the
+ * context of the request's shop. API keys only work on their own shop.
+ */
+export function withShop<C>(
+  access: RouteAccess,
+  handler: (request: NextRequest, context: C) => Promise<Response>
+) {
+  const { role, scope } =
+    typeof access === "string" ? { role: access, scope: undefined } : access;
+
+  const inShop = async (
+    request: NextRequest,
+    context: C,
+    apiKey?: ApiKeySummary
+  ) => {
+    const requested = request.nextUrl.searchParams.get("shop");
+    if (
+      apiKey?.shopId &&
+      requested &&
+      normalizeShopDomain(requested) !== apiKey.shopId
+    ) {
+      return NextResponse.json(
+        { error: "API key is for another shop" },
+        { status: 403 }
+      );
+    }
+
+    let shop: Shop | null;
+    try {
+      if (!apiKey) {
+        shop = await resolveRequestShop(request);
+      } else {
+        shop = apiKey.shopId ? await getShop(apiKey.shopId) : null;
+      }
+    } catch (error) {
+      console.error("Error resolving shop:", error);
+      return NextResponse.json(
+        { error: "Failed to resolve shop" },
+        { status: 500 }
+      );
+    }
+
+    if (!shop) {
+      return NextResponse.json({ error: "Shop not found" }, { status: 404 });
+    }
+    return runWithShop(shop, () => handler(request, context));
+  };
+
+  return scope
+    ? withRoleOrApiKey(role, scope, inShop)
+    : withRole(role, (request: NextRequest, context: C) =>
+        inShop(request, context)
+      );
+}
@@ -0,0 +1,185 @@
+import { ObjectId } from "mongodb";
+import { getDb } from "./mongodb";
+import { getShopId } from "./shop-context";
+import {
+  SyncRun,
+  SyncRunMethod,
+  SyncRunSummary,
+  SyncRunTrigger,
+} from "@/types/sync-run";
+
+type SyncRunDocument = Omit<SyncRun, "_id"> & { _id?: ObjectId };
+
+export type OrderSyncOutcome = "new" | "updated" | "unchanged" | "failed";
+
+/**
+ * In-memory tally of what a sync did, saved with finishSyncRun
+ */
+export interface SyncTally {
+  counts: SyncRun["counts"];
+  changedOrderIds: string[];
+  failedOrderIds: string[];
+  errors: string[];
+}
+
+// Keeps a run (and its tally) well under MongoDB's 16MB document limit on a
+// full bulk sync
+const MAX_STORED_ORDER_IDS = 10_000;
+const MAX_STORED_ERRORS = 100;
+
+export function createSyncTally(): SyncTally {
+  return {
+    counts: { new: 0, updated: 0, unchanged: 0, failed: 0 },
+    changedOrderIds: [],
+    failedOrderIds: [],
+    errors: [],
+  };
+}
+
+export function tallyOrder(
+  tally: SyncTally,
+  orderId: string,
+  outcome: OrderSyncOutcome,
+  error?: string
+): void {
+  tally.counts[outcome]++;
+  if (
+    (outcome === "new" || outcome === "updated") &&
+    tally.changedOrderIds.length < MAX_STORED_ORDER_IDS
+  ) {
+    tally.changedOrderIds.push(orderId);
+  } else if (
+    outcome === "failed" &&
+    tally.failedOrderIds.length < MAX_STORED_ORDER_IDS
+  ) {
+    tally.failedOrderIds.push(orderId);
+  }
+  if (error && tally.errors.length < MAX_STORED_ERRORS) {
+    tally.errors.push(`${orderId}: ${error}`);
+  }
+}
+
+function toStoredResults(tally: SyncTally, errors: string[] = tally.errors) {
+  return {
+    counts: tally.counts,
+    changedOrderIds: tally.changedOrderIds,
+    changedOrderIdsTruncated:
+      tally.counts.new + tally.counts.updated > tally.changedOrderIds.length,
+    failedOrderIds: tally.failedOrderIds,
+    errors: errors.slice(0, MAX_STORED_ERRORS),
+  };
+}
+
+async function getSyncRunsCollection() {
+  const db = await getDb();
+  return db.collection<SyncRunDocument>("sync_runs");
+}
+
+/**
+ * Record the start of a sync run and return its id
+ */
+export async function startSyncRun(run: {
+  method: SyncRunMethod;
+  trigger: SyncRunTrigger;
+  jobId?: string;
+  operationId?: string;
+}): Promise<string> {
+  const syncRunsCollection = await getSyncRunsCollection();
+  const result = await syncRunsCollection.insertOne({
+    ...run,
+    shopId: getShopId(),
+    status: "running",
+    startedAt: new Date().toISOString(),
+    ...createSyncTally(),
+  });
+  return result.insertedId.toString();
+}
+
+/**
+ * Save a run's results. A run that threw is marked failed with its error.
+ */
+export async function finishSyncRun(
+  id: string,
+  tally: SyncTally,
+  error?: unknown
+): Promise<void> {
+  const syncRunsCollection = await getSyncRunsCollection();
+  const errors = [...tally.errors];
+  if (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+  }
+
+  await syncRunsCollection.updateOne(
+    { _id: new ObjectId(id) },
+    {
+      $set: {
+        status: error ? "failed" : "completed",
+        finishedAt: new Date().toISOString(),
+        ...toStoredResults(tally, errors),
+      },
+    }
+  );
+}
+
+/**
+ * Record a run that already finished, e.g. a batch of webhook deliveries
+ */
+export async function recordSyncRun(
+  run: { method: SyncRunMethod; trigger: SyncRunTrigger; startedAt: string },
+  tally: SyncTally
+): Promise<void> {
+  const syncRunsCollection = await getSyncRunsCollection();
+  await syncRunsCollection.insertOne({
+    ...run,
+    shopId: getShopId(),
+    status: "completed",
+    finishedAt: new Date().toISOString(),
+    ...toStoredResults(tally),
+  });
+}
+
+/**
+ * List sync runs (without order ids), newest first
+ */
+export async function listSyncRuns(
+  filters: { method?: SyncRunMethod; trigger?: SyncRunTrigger } = {},
+  page: number = 1,
+  limit: number = 20
+) {
+  const syncRunsCollection = await getSyncRunsCollection();
+  const filter = {
+    shopId: getShopId(),
+    ...(filters.method && { method: filters.method }),
+    ...(filters.trigger && { trigger: filters.trigger }),
+  };
+
+  const total = await syncRunsCollection.countDocuments(filter);
+  const runs = await syncRunsCollection
+    .find(filter, { projection: { changedOrderIds: 0, failedOrderIds: 0 } })
+    .sort({ startedAt: -1 })
+    .skip((page - 1) * limit)
+    .limit(limit)
+    .toArray();
+
+  return {
+    runs: runs.map(
+      (run): SyncRunSummary => ({ ...run, _id: run._id?.toString() })
+    ),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+export async function getSyncRun(id: string): Promise<SyncRun | null> {
+  if (!ObjectId.isValid(id)) return null;
+  const syncRunsCollection = await getSyncRunsCollection();
+  const run = await syncRunsCollection.findOne({
+    _id: new ObjectId(id),
+    shopId: getShopId(),
+  });
+  return run ? { ...run, _id: run._id?.toString() } : null;
+}
@@ -0,0 +1,444 @@
+import { recordAuditEvent } from "./audit-log";
+import { enqueueJob, getLatestJobs } from "./jobs";
+import { getDb } from "./mongodb";
+import {
+  diffOrders,
+  OrderEventContext,
+  recordOrderEvents,
+} from "./order-events";
+import {
+  getOrdersDueForRefresh,
+  markOrdersRefreshChecked,
+} from "./order-refresh";
+import {
+  appendOrderLineItems,
+  getLastSyncTimestamp,
+  markOrderDeleted,
+  markOrderSyncFailed,
+  purgeOrder,
+  updateLastSyncTimestamp,
+  upsertOrders,
+  withoutPersonalData,
+} from "./orders";
+import { getCurrentShop, getShopId } from "./shop-context";
+import {
+  countOrdersSinceDate,
+  fetchOrderById,
+  fetchOrdersByIds,
+  fetchOrdersIncremental,
+  getBulkOperation,
+  getCurrentBulkOperation,
+  startOrdersBulk,
+  streamBulkOrders,
+} from "./shopify";
+import {
+  createSyncTally,
+  finishSyncRun,
+  startSyncRun,
+  SyncTally,
+  tallyOrder,
+} from "./sync-runs";
+import { Job } from "@/types/job";
+import { Order } from "@/types/order";
+import { OrderFieldChange } from "@/types/order-event";
+import { SyncRunTrigger } from "@/types/sync-run";
+
+// If more orders than this changed since the last sync, use a bulk operation
+const BULK_THRESHOLD = 100;
+const UPSERT_BATCH_SIZE = 1000;
+export const BULK_POLL_INTERVAL_MS = 30_000;
+// The next sync looks back this far before the last one started, so orders
+// updated while it ran, or stamped by a clock behind ours, aren't missed.
+// Orders seen twice are tallied as unchanged.
+const SYNC_CURSOR_OVERLAP_MS = 2 * 60_000;
+
+export interface SyncStatus {
+  status: "idle" | "pending" | "failed";
+  jobId?: string;
+  operationId?: string;
+  method?: "bulk" | "incremental";
+  synced?: number;
+  new?: number;
+  updated?: number;
+  error?: string;
+}
+
+export type JobOutcome =
+  | { result: Record<string, unknown> }
+  | { rescheduleInMs: number };
+
+/**
+ * Queue an orders sync for the current shop. Only one sync per shop is
+ * queued or running at a time.
+ */
+export async function enqueueOrdersSync(trigger: SyncRunTrigger = "manual") {
+  const shopId = getShopId();
+  return enqueueJob(
+    "orders.sync",
+    { trigger },
+    { dedupeKey: `orders.sync:${shopId}`, shopId }
+  );
+}
+
+// The timestamp the next sync fetches from, for a sync that started at
+// `startedAt`
+function getSyncCursor(startedAt: string): string {
+  return new Date(
+    new Date(startedAt).getTime() - SYNC_CURSOR_OVERLAP_MS
+  ).toISOString();
+}
+
+async function enqueueBulkFinalize(payload: {
+  operationId: string;
+  trigger: SyncRunTrigger;
+  runId?: string;
+}) {
+  return enqueueJob("orders.bulk", payload, {
+    dedupeKey: `orders.bulk:${payload.operationId}`,
+    shopId: getShopId(),
+  });
+}
+
+/**
+ * Save a batch of orders fetched from Shopify, tallying which are new,
+ * updated or unchanged compared to the stored copies and recording the
+ * changed fields in each order's history. Orders left alone because the
+ * stored copy is newer count as unchanged and get no history.
+ */
+async function saveOrders(
+  orders: Order[],
+  syncedAt: string,
+  tally: SyncTally,
+  context: OrderEventContext
+): Promise<void> {
+  const db = await getDb();
+  const existingOrders = await db
+    .collection<Order>("orders")
+    .find({ shopId: getShopId(), id: { $in: orders.map((o) => o.id) } })
+    .toArray();
+  const existingOrdersMap = new Map(
+    existingOrders.map((o) => [String(o.id), o])
+  );
+
+  const writtenIds = new Set(await upsertOrders(orders, syncedAt));
+
+  const changedOrders: { order: Order; changes: OrderFieldChange[] }[] = [];
+  orders.forEach((order) => {
+    if (!writtenIds.has(order.id)) {
+      tallyOrder(tally, order.id, "unchanged");
+      return;
+    }
+    const existingOrder = existingOrdersMap.get(String(order.id));
+    if (!existingOrder) {
+      tallyOrder(tally, order.id, "new");
+      return;
+    }
+
+    // Redacted orders are written without their personal fields
+    const changes = diffOrders(
+      existingOrder,
+      existingOrder.redactedAt ? withoutPersonalData(order) : order
+    );
+    // Edits to untracked fields (e.g. notes) only move updated_at
+    const isUpdated =
+      changes.length > 0 || order.updated_at !== existingOrder.updated_at;
+    tallyOrder(tally, order.id, isUpdated ? "updated" : "unchanged");
+    changedOrders.push({ order, changes });
+  });
+
+  await recordOrderEvents(changedOrders, context);
+}
+
+/**
+ * Re-fetch open orders that are due for a refresh. Orders deleted in Shopify
+ * are deleted here too and orders that can't be fetched are marked failed;
+ * both are counted in the tally.
+ */
+async function refreshStaleOrders(
+  orderIds: string[],
+  tally: SyncTally
+): Promise<Order[]> {
+  await markOrdersRefreshChecked(orderIds);
+  const { orders, missingIds, failed } = await fetchOrdersByIds(orderIds);
+
+  // Same as the orders/delete webhook, in case it was missed
+  const purge = process.env.ORDER_DELETE_MODE === "purge";
+  const deletedIds: string[] = [];
+  for (const orderId of missingIds) {
+    const changed = purge
+      ? await purgeOrder(orderId)
+      : await markOrderDeleted(orderId);
+    if (changed) {
+      deletedIds.push(orderId);
+      tallyOrder(tally, orderId, "updated");
+    }
+  }
+  if (deletedIds.length > 0) {
+    await recordAuditEvent({
+      action: purge ? "order.purged" : "order.deleted",
+      shopDomain: getShopId(),
+      subject: { orderIds: deletedIds },
+      details: { reason: "Not found in Shopify during refresh" },
+    });
+  }
+
+  for (const { id, error } of failed) {
+    await markOrderSyncFailed(id, error);
+    tallyOrder(tally, id, "failed", error);
+  }
+
+  return orders;
+}
+
+/**
+ * Fetch orders updated since the last sync plus open orders due for a
+ * refresh (to catch changes a missed webhook would have brought), and save
+ * them
+ */
+async function runIncrementalSync(
+  lastSyncAt: string,
+  tally: SyncTally,
+  runId: string
+) {
+  // Taken before querying, so orders updated during the sync are fetched
+  // again next time
+  const startedAt = new Date().toISOString();
+  const allOrders = await fetchOrdersIncremental(lastSyncAt);
+  const fetchedIds = new Set(allOrders.map((order) => order.id));
+
+  // Orders already fetched as updated don't need a refresh
+  const staleOrderIds = (await getOrdersDueForRefresh()).filter(
+    (id) => !fetchedIds.has(id)
+  );
+  if (staleOrderIds.length > 0) {
+    allOrders.push(...(await refreshStaleOrders(staleOrderIds, tally)));
+  }
+
+  // Deduplicate orders by ID
+  const uniqueOrders = Array.from(
+    new Map(allOrders.map((order) => [order.id, order])).values()
+  );
+
+  const now = new Date().toISOString();
+  for (let i = 0; i < uniqueOrders.length; i += UPSERT_BATCH_SIZE) {
+    await saveOrders(uniqueOrders.slice(i, i + UPSERT_BATCH_SIZE), now, tally, {
+      source: "incremental",
+      runId,
+    });
+  }
+  await updateLastSyncTimestamp(getSyncCursor(startedAt));
+
+  return {
+    method: "incremental",
+    synced: uniqueOrders.length,
+    refreshed: staleOrderIds.length,
+    new: tally.counts.new,
+    updated: tally.counts.updated,
+  };
+}
+
+/**
+ * Job handler for "orders.sync": run an incremental sync, or start a bulk
+ * operation (first sync, or many changes) and queue its finalization
+ */
+export async function runOrdersSyncJob(job: Job): Promise<JobOutcome> {
+  if (getCurrentShop().uninstalledAt) {
+    return { result: { skipped: "Shop uninstalled the app" } };
+  }
+  const trigger = (job.payload.trigger as SyncRunTrigger) || "manual";
+
+  // A bulk operation started elsewhere must finish first; make sure its
+  // results get saved
+  const currentOperation = await getCurrentBulkOperation();
+  const currentStatus = currentOperation?.status?.toUpperCase();
+  if (
+    currentOperation &&
+    (currentStatus === "RUNNING" || currentStatus === "CREATED")
+  ) {
+    await enqueueBulkFinalize({ operationId: currentOperation.id, trigger });
+    return {
+      result: { method: "bulk", operationId: currentOperation.id },
+    };
+  }
+
+  const lastSyncAt = await getLastSyncTimestamp();
+  const orderCount = lastSyncAt
+    ? await countOrdersSinceDate(lastSyncAt, BULK_THRESHOLD + 1)
+    : Infinity;
+
+  if (!lastSyncAt || orderCount > BULK_THRESHOLD) {
+    const { operationId } = await startOrdersBulk(lastSyncAt || undefined);
+    // The run covers the whole bulk sync and is finished by the orders.bulk job
+    const runId = await startSyncRun({
+      method: "bulk",
+      trigger,
+      jobId: job._id,
+      operationId,
+    });
+    await enqueueBulkFinalize({ operationId, trigger, runId });
+    return {
+      result: { method: "bulk", operationId, runId, isFirstSync: !lastSyncAt },
+    };
+  }
+
+  const runId = await startSyncRun({
+    method: "incremental",
+    trigger,
+    jobId: job._id,
+  });
+  const tally = createSyncTally();
+  try {
+    const result = await runIncrementalSync(lastSyncAt, tally, runId);
+    await finishSyncRun(runId, tally);
+    return { result: { ...result, runId } };
+  } catch (error) {
+    await finishSyncRun(runId, tally, error);
+    throw error;
+  }
+}
+
+/**
+ * Job handler for "orders.bulk": wait for the bulk operation to complete,
+ * then stream its result into the database
+ */
+export async function runBulkFinalizeJob(job: Job): Promise<JobOutcome> {
+  if (getCurrentShop().uninstalledAt) {
+    return { result: { skipped: "Shop uninstalled the app" } };
+  }
+  const operationId = String(job.payload.operationId);
+  const operation = await getBulkOperation(operationId);
+  if (!operation) {
+    throw new Error(`Bulk operation ${operationId} not found`);
+  }
+
+  const status = operation.status.toUpperCase();
+  if (status === "CREATED" || status === "RUNNING") {
+    return { rescheduleInMs: BULK_POLL_INTERVAL_MS };
+  }
+
+  const runId =
+    (job.payload.runId as string | undefined) ||
+    (await startSyncRun({
+      method: "bulk",
+      trigger: (job.payload.trigger as SyncRunTrigger) || "manual",
+      jobId: job._id,
+      operationId,
+    }));
+  const tally = createSyncTally();
+
+  try {
+    if (status !== "COMPLETED") {
+      throw new Error(
+        `Bulk operation ${status.toLowerCase()}: ${
+          operation.errorCode || "Unknown error"
+        }`
+      );
+    }
+
+    const now = new Date().toISOString();
+    // Shopify returns no URL when the operation matched no orders
+    const synced = operation.url
+      ? await streamBulkOrders(operation.url, {
+          onOrders: (orders) =>
+            saveOrders(orders, now, tally, { source: "bulk", runId }),
+          onLateLineItems: (lineItemsByOrder) =>
+            appendOrderLineItems(lineItemsByOrder, now),
+        })
+      : 0;
+    // The operation saw orders as of when Shopify started it
+    await updateLastSyncTimestamp(
+      getSyncCursor(operation.createdAt || job.createdAt)
+    );
+    await finishSyncRun(runId, tally);
+
+    return {
+      result: {
+        method: "bulk",
+        operationId,
+        runId,
+        synced,
+        new: tally.counts.new,
+        updated: tally.counts.updated,
+      },
+    };
+  } catch (error) {
+    await finishSyncRun(runId, tally, error);
+    throw error;
+  }
+}
+
+/**
+ * Re-fetch a single order from Shopify and save it, recording the run.
+ * The order is marked failed if Shopify can't return it.
+ */
+export async function resyncOrder(orderId: string): Promise<Order> {
+  const db = await getDb();
+  const ordersCollection = db.collection<Order>("orders");
+
+  // First, mark as pending
+  await ordersCollection.updateOne(
+    { shopId: getShopId(), id: orderId },
+    { $set: { syncStatus: "pending" as const }, $unset: { syncError: "" } }
+  );
+
+  const runId = await startSyncRun({ method: "resync", trigger: "manual" });
+  const tally = createSyncTally();
+
+  try {
+    const order = await fetchOrderById(orderId);
+    await saveOrders([order], new Date().toISOString(), tally, {
+      source: "resync",
+      runId,
+    });
+    await finishSyncRun(runId, tally);
+    return order;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    await markOrderSyncFailed(orderId, errorMessage);
+    tallyOrder(tally, orderId, "failed", errorMessage);
+    await finishSyncRun(runId, tally);
+    throw error;
+  }
+}
+
+/**
+ * Summarize the state of the shop's order syncing from its most recent sync
+ * jobs
+ */
+export async function getSyncStatus(): Promise<SyncStatus> {
+  const jobs = await getLatestJobs(
+    getShopId(),
+    ["orders.sync", "orders.bulk"],
+    5
+  );
+
+  const active = jobs.find(
+    (job) => job.status === "queued" || job.status === "running"
+  );
+  if (active) {
+    return {
+      status: "pending",
+      jobId: active._id,
+      operationId: active.payload.operationId as string | undefined,
+    };
+  }
+
+  const latest = jobs[0];
+  if (!latest) {
+    return { status: "idle" };
+  }
+  if (latest.status === "failed") {
+    return { status: "failed", jobId: latest._id, error: latest.lastError };
+  }
+
+  const result = latest.result || {};
+  return {
+    status: "idle",
+    jobId: latest._id,
+    method: result.method as SyncStatus["method"],
+    synced: result.synced as number | undefined,
+    new: result.new as number | undefined,
+    updated: result.updated as number | undefined,
+  };
+}
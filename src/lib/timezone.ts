@@ -0,0 +1,123 @@
+/**
+ * Calendar days in IANA timezones. Days are `YYYY-MM-DD` strings; instants
+ * are Dates. Offsets come from Intl, so DST changes are handled however the
+ * runtime's timezone database says.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getDayFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = dayFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    dayFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * The calendar day an instant falls on in `timeZone`
+ */
+export function getZonedDay(instant: Date, timeZone: string): string {
+  const parts: Record<string, string> = {};
+  for (const part of getDayFormatter(timeZone).formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * How far `timeZone` is ahead of UTC at an instant, in milliseconds
+ */
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    parts[part.type] = Number(part.value);
+  }
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Add calendar days to a `YYYY-MM-DD` day
+ */
+export function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * The first instant of a calendar day in `timeZone`. Usually local midnight,
+ * but later when a DST change skips midnight.
+ */
+export function getZonedStartOfDay(day: string, timeZone: string): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  const utcMidnight = Date.UTC(year, month - 1, date);
+
+  // Try the offsets in effect around the day and keep the earliest instant
+  // that actually falls on it
+  const candidates = [-DAY_MS, 0, DAY_MS]
+    .map(
+      (shift) =>
+        utcMidnight - getTimeZoneOffset(utcMidnight + shift, timeZone)
+    )
+    .filter((instant) => getZonedDay(new Date(instant), timeZone) === day);
+
+  return new Date(
+    candidates.length > 0
+      ? Math.min(...candidates)
+      : utcMidnight - getTimeZoneOffset(utcMidnight, timeZone)
+  );
+}
+
+/**
+ * Every day from `from` to `to`, inclusive
+ */
+export function listDays(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
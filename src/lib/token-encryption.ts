@@ -0,0 +1,118 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+/**
+ * AES-256-GCM encryption for secrets stored in Mongo (shop access tokens and
+ * webhook secrets).
+ *
+ * Keys come from TOKEN_ENCRYPTION_KEYS as a comma-separated list of
+ * `id:base64key` entries. The first key encrypts; every listed key can
+ * decrypt. To rotate, put a new key first, restart so stored secrets are
+ * re-encrypted, then drop the old key.
+ */
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+const ENCRYPTED_PREFIX = "enc:v1";
+const IV_BYTES = 12;
+
+let keyring: EncryptionKey[] | null = null;
+
+function getKeyring(): EncryptionKey[] {
+  if (!keyring) {
+    const entries = (process.env.TOKEN_ENCRYPTION_KEYS || "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    if (entries.length === 0) {
+      throw new Error(
+        "Token encryption not configured. Set TOKEN_ENCRYPTION_KEYS in .env.local"
+      );
+    }
+
+    keyring = entries.map((entry) => {
+      const separator = entry.indexOf(":");
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), "base64");
+      if (separator < 1 || key.length !== 32) {
+        throw new Error(
+          "TOKEN_ENCRYPTION_KEYS entries must be id:base64 with a 32-byte key"
+        );
+      }
+      return { id, key };
+    });
+  }
+  return keyring;
+}
+
+/**
+ * Throw if TOKEN_ENCRYPTION_KEYS is missing or malformed, so a misconfigured
+ * server fails on startup instead of on every request that reads a shop
+ */
+export function assertTokenEncryptionConfigured(): void {
+  getKeyring();
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(`${ENCRYPTED_PREFIX}:`);
+}
+
+/**
+ * Encrypt a secret with the current key, as
+ * `enc:v1:<keyId>:<iv>:<authTag>:<ciphertext>` (base64 parts)
+ */
+export function encryptSecret(plaintext: string): string {
+  const { id, key } = getKeyring()[0];
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [
+    ENCRYPTED_PREFIX,
+    id,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Decrypt a stored secret. Values saved before encryption was enabled are
+ * returned as they are.
+ */
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+
+  const [, , keyId, iv, authTag, ciphertext] = value.split(":");
+  const encryptionKey = getKeyring().find((k) => k.id === keyId);
+  if (!encryptionKey) {
+    throw new Error(`Unknown token encryption key: ${keyId}`);
+  }
+
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    encryptionKey.key,
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+/**
+ * Whether a stored secret is plaintext or encrypted with an older key
+ */
+export function needsReencryption(value: string): boolean {
+  return (
+    !isEncryptedSecret(value) || value.split(":")[2] !== getKeyring()[0].id
+  );
+}
@@ -0,0 +1,222 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { Collection, MongoServerError, ObjectId } from "mongodb";
+import { promisify } from "util";
+import { getDb } from "./mongodb";
+import { User, UserRole, UserSummary } from "@/types/user";
+
+type UserDocument = Omit<User, "_id"> & { _id?: ObjectId };
+
+export const USER_ROLES: UserRole[] = ["viewer", "operator", "admin"];
+export const MIN_PASSWORD_LENGTH = 10;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+const DUPLICATE_KEY_ERROR = 11000;
+// Checked for unknown emails, so they take as long as wrong passwords
+const DUMMY_PASSWORD_HASH = `scrypt:${Buffer.alloc(SALT_BYTES).toString(
+  "base64"
+)}:${Buffer.alloc(KEY_LENGTH).toString("base64")}`;
+
+let usersReady: Promise<void> | null = null;
+
+/**
+ * Hash a password as `scrypt:<salt>:<hash>` (base64 parts)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("base64")}:${hash.toString("base64")}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  passwordHash: string
+): Promise<boolean> {
+  const [scheme, salt, hash] = passwordHash.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "base64"),
+    expected.length
+  );
+  return timingSafeEqual(actual, expected);
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function toUserSummary(user: UserDocument): UserSummary {
+  return {
+    _id: user._id?.toString(),
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+    lastLoginAt: user.lastLoginAt,
+  };
+}
+
+/**
+ * Create the first admin from ADMIN_EMAIL and ADMIN_PASSWORD when there are
+ * no users yet, so a fresh install can be signed in to
+ */
+async function createAdminFromEnv(
+  usersCollection: Collection<UserDocument>
+): Promise<void> {
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!email || !password) return;
+  if ((await usersCollection.estimatedDocumentCount()) > 0) return;
+
+  const now = new Date().toISOString();
+  try {
+    await usersCollection.insertOne({
+      email: normalizeEmail(email),
+      role: "admin",
+      passwordHash: await hashPassword(password),
+      createdAt: now,
+      updatedAt: now,
+    });
+  } catch (error) {
+    // Another instance created it first
+    if (
+      !(error instanceof MongoServerError) ||
+      error.code !== DUPLICATE_KEY_ERROR
+    ) {
+      throw error;
+    }
+  }
+}
+
+async function getUsersCollection() {
+  const db = await getDb();
+  const usersCollection = db.collection<UserDocument>("users");
+
+  if (!usersReady) {
+    usersReady = usersCollection
+      .createIndex({ email: 1 }, { unique: true })
+      .then(() => createAdminFromEnv(usersCollection))
+      .catch((error) => {
+        usersReady = null;
+        throw error;
+      });
+  }
+  await usersReady;
+
+  return usersCollection;
+}
+
+/**
+ * Check an email and password. Returns the user, or null if either is wrong.
+ */
+export async function authenticateUser(
+  email: string,
+  password: string
+): Promise<UserSummary | null> {
+  const usersCollection = await getUsersCollection();
+  const user = await usersCollection.findOne({ email: normalizeEmail(email) });
+  const valid = await verifyPassword(
+    password,
+    user?.passwordHash ?? DUMMY_PASSWORD_HASH
+  );
+  if (!user || !valid) {
+    return null;
+  }
+
+  await usersCollection.updateOne(
+    { _id: user._id },
+    { $set: { lastLoginAt: new Date().toISOString() } }
+  );
+  return toUserSummary(user);
+}
+
+export async function getUser(id: string): Promise<UserSummary | null> {
+  if (!ObjectId.isValid(id)) return null;
+  const usersCollection = await getUsersCollection();
+  const user = await usersCollection.findOne({ _id: new ObjectId(id) });
+  return user ? toUserSummary(user) : null;
+}
+
+export async function listUsers(): Promise<UserSummary[]> {
+  const usersCollection = await getUsersCollection();
+  const users = await usersCollection.find().sort({ email: 1 }).toArray();
+  return users.map(toUserSummary);
+}
+
+/**
+ * Create a user. Returns null if the email is already taken.
+ */
+export async function createUser(input: {
+  email: string;
+  name?: string;
+  role: UserRole;
+  password: string;
+}): Promise<UserSummary | null> {
+  const usersCollection = await getUsersCollection();
+  const now = new Date().toISOString();
+  const user: UserDocument = {
+    email: normalizeEmail(input.email),
+    name: input.name,
+    role: input.role,
+    passwordHash: await hashPassword(input.password),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  try {
+    const result = await usersCollection.insertOne(user);
+    return toUserSummary({ ...user, _id: result.insertedId });
+  } catch (error) {
+    if (
+      error instanceof MongoServerError &&
+      error.code === DUPLICATE_KEY_ERROR
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Change a user's role, name or password
+ */
+export async function updateUser(
+  id: string,
+  update: { name?: string; role?: UserRole; password?: string }
+): Promise<UserSummary | null> {
+  if (!ObjectId.isValid(id)) return null;
+  const usersCollection = await getUsersCollection();
+
+  const user = await usersCollection.findOneAndUpdate(
+    { _id: new ObjectId(id) },
+    {
+      $set: {
+        ...(update.name !== undefined && { name: update.name }),
+        ...(update.role && { role: update.role }),
+        ...(update.password && {
+          passwordHash: await hashPassword(update.password),
+        }),
+        updatedAt: new Date().toISOString(),
+      },
+    },
+    { returnDocument: "after" }
+  );
+  return user ? toUserSummary(user) : null;
+}
+
+export async function deleteUser(id: string): Promise<boolean> {
+  if (!ObjectId.isValid(id)) return false;
+  const usersCollection = await getUsersCollection();
+  const result = await usersCollection.deleteOne({ _id: new ObjectId(id) });
+  return result.deletedCount > 0;
+}
@@ -0,0 +1,167 @@
+import { recordAuditEvent } from "./audit-log";
+import { OrderEventContext } from "./order-events";
+import { normalizeWebhookOrder } from "./order-mapping";
+import { markOrderDeleted, purgeOrder, upsertOrderIfNewer } from "./orders";
+import {
+  CustomerPrivacyRequest,
+  exportCustomerData,
+  purgeShopData,
+  redactCustomerData,
+} from "./privacy";
+import { fetchOrderById } from "./shopify";
+import { markShopUninstalled } from "./shops";
+
+export interface WebhookContext {
+  topic: string;
+  shopDomain?: string;
+  webhookId?: string;
+}
+
+// What a handler did to a stored order, recorded in the webhook sync runs
+export interface WebhookOrderResult {
+  orderId: string;
+  outcome: "inserted" | "updated" | "stale" | "deleted";
+}
+
+export type WebhookHandler = (
+  payload: Record<string, unknown>,
+  context: WebhookContext
+) => Promise<WebhookOrderResult | void>;
+
+const handlers = new Map<string, WebhookHandler>();
+
+/**
+ * Register the handler for a Shopify webhook topic (e.g. "orders/paid")
+ */
+export function registerWebhookHandler(
+  topic: string,
+  handler: WebhookHandler
+): void {
+  handlers.set(topic, handler);
+}
+
+export function getWebhookHandler(topic: string): WebhookHandler | undefined {
+  return handlers.get(topic);
+}
+
+export function getRegisteredWebhookTopics(): string[] {
+  return Array.from(handlers.keys());
+}
+
+function toEventContext(context: WebhookContext): OrderEventContext {
+  return {
+    source: "webhook",
+    topic: context.topic,
+    webhookId: context.webhookId,
+  };
+}
+
+// Topics whose payload is the full order
+const upsertOrderFromPayload: WebhookHandler = async (payload, context) => {
+  const order = normalizeWebhookOrder(payload);
+  return {
+    orderId: order.id,
+    outcome: await upsertOrderIfNewer(order, toEventContext(context)),
+  };
+};
+
+// Topics whose payload only references the order; refetch it from Shopify so
+// financial and fulfillment status are current
+const refetchReferencedOrder: WebhookHandler = async (payload, context) => {
+  const orderId = payload.order_id?.toString();
+  if (!orderId) {
+    throw new Error(`${context.topic} payload has no order_id`);
+  }
+  return {
+    orderId,
+    outcome: await upsertOrderIfNewer(
+      await fetchOrderById(orderId),
+      toEventContext(context)
+    ),
+  };
+};
+
+registerWebhookHandler("orders/create", upsertOrderFromPayload);
+registerWebhookHandler("orders/updated", upsertOrderFromPayload);
+registerWebhookHandler("orders/cancelled", upsertOrderFromPayload);
+registerWebhookHandler("orders/fulfilled", upsertOrderFromPayload);
+registerWebhookHandler("orders/paid", upsertOrderFromPayload);
+
+// ORDER_DELETE_MODE=purge removes deleted orders instead of soft-deleting
+registerWebhookHandler("orders/delete", async (payload, context) => {
+  const orderId = payload.id?.toString();
+  if (!orderId) {
+    throw new Error(`${context.topic} payload has no id`);
+  }
+
+  const purge = process.env.ORDER_DELETE_MODE === "purge";
+  const changed = purge
+    ? await purgeOrder(orderId)
+    : await markOrderDeleted(orderId);
+  if (changed) {
+    await recordAuditEvent({
+      action: purge ? "order.purged" : "order.deleted",
+      topic: context.topic,
+      shopDomain: context.shopDomain,
+      webhookId: context.webhookId,
+      subject: { orderIds: [orderId] },
+    });
+  }
+  return { orderId, outcome: "deleted" };
+});
+
+registerWebhookHandler("refunds/create", refetchReferencedOrder);
+registerWebhookHandler("fulfillments/create", refetchReferencedOrder);
+registerWebhookHandler("fulfillments/update", refetchReferencedOrder);
+
+// The access token stops working on uninstall, so it is dropped and syncs
+// stop until the shop installs the app again
+registerWebhookHandler("app/uninstalled", async (payload, context) => {
+  const shopDomain = context.shopDomain || payload.myshopify_domain?.toString();
+  if (!shopDomain) {
+    throw new Error(`${context.topic} payload has no shop domain`);
+  }
+  if (!(await markShopUninstalled(shopDomain))) {
+    console.warn(`Uninstall for unknown shop ${shopDomain}`);
+  }
+});
+
+function toPrivacyRequest(
+  payload: Record<string, unknown>,
+  context: WebhookContext,
+  orderIdsKey: "orders_to_redact" | "orders_requested"
+): CustomerPrivacyRequest {
+  const customer = (payload.customer || {}) as Record<string, unknown>;
+  const dataRequest = (payload.data_request || {}) as Record<string, unknown>;
+  const orderIds = Array.isArray(payload[orderIdsKey])
+    ? (payload[orderIdsKey] as unknown[]).map((id) => String(id))
+    : [];
+
+  return {
+    shopDomain: context.shopDomain || payload.shop_domain?.toString(),
+    customerId: customer.id?.toString(),
+    email: customer.email?.toString() || undefined,
+    phone: customer.phone?.toString() || undefined,
+    orderIds,
+    shopifyDataRequestId: dataRequest.id?.toString(),
+    webhookId: context.webhookId,
+    topic: context.topic,
+  };
+}
+
+// Mandatory GDPR compliance topics
+registerWebhookHandler("customers/redact", async (payload, context) => {
+  await redactCustomerData(
+    toPrivacyRequest(payload, context, "orders_to_redact")
+  );
+});
+
+registerWebhookHandler("customers/data_request", async (payload, context) => {
+  await exportCustomerData(
+    toPrivacyRequest(payload, context, "orders_requested")
+  );
+});
+
+registerWebhookHandler("shop/redact", async (payload, context) => {
+  await purgeShopData(context);
+});
@@ -0,0 +1,114 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { getShop } from "./shops";
+import { verifyWebhookSignature } from "./shopify";
+import { decryptSecret } from "./token-encryption";
+import { getWebhookHandler } from "./webhook-handlers";
+import {
+  claimWebhookDelivery,
+  enqueueWebhook,
+  pickShopifyHeaders,
+  processWebhookInbox,
+  releaseWebhookDelivery,
+} from "./webhooks";
+
+/**
+ * Verify a Shopify webhook delivery, store it in the inbox and acknowledge it.
+ * The shop is identified by X-Shopify-Shop-Domain and its webhook secret is
+ * used to verify the signature. The delivery is dispatched to the handler
+ * registered for its X-Shopify-Topic once the response has been sent.
+ *
+ * `defaultTopic` is used by the legacy per-topic endpoints when the topic
+ * header is missing.
+ */
+export async function receiveShopifyWebhook(
+  request: NextRequest,
+  defaultTopic?: string
+): Promise<NextResponse> {
+  try {
+    const body = await request.text();
+    const signature = request.headers.get("x-shopify-hmac-sha256");
+
+    if (!signature) {
+      return NextResponse.json(
+        { error: "Missing webhook signature" },
+        { status: 401 }
+      );
+    }
+
+    const shopDomain = request.headers.get("x-shopify-shop-domain");
+    const shop = shopDomain ? await getShop(shopDomain) : null;
+    if (!shop) {
+      return NextResponse.json({ error: "Unknown shop" }, { status: 404 });
+    }
+
+    // Apps installed through OAuth sign webhooks with their API secret
+    const webhookSecret = shop.webhookSecret
+      ? decryptSecret(shop.webhookSecret)
+      : process.env.SHOPIFY_API_SECRET || process.env.SHOPIFY_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      return NextResponse.json(
+        { error: "Webhook secret not configured" },
+        { status: 500 }
+      );
+    }
+
+    const isValid = verifyWebhookSignature(body, signature, webhookSecret);
+    if (!isValid) {
+      return NextResponse.json(
+        { error: "Invalid webhook signature" },
+        { status: 401 }
+      );
+    }
+
+    const topic = request.headers.get("x-shopify-topic") || defaultTopic;
+    if (!topic) {
+      return NextResponse.json(
+        { error: "Missing webhook topic" },
+        { status: 400 }
+      );
+    }
+    if (!getWebhookHandler(topic)) {
+      return NextResponse.json(
+        { error: `Unsupported webhook topic: ${topic}` },
+        { status: 400 }
+      );
+    }
+
+    // Shopify may deliver the same webhook more than once
+    const webhookId = request.headers.get("x-shopify-webhook-id");
+    if (webhookId && !(await claimWebhookDelivery(webhookId, topic))) {
+      return NextResponse.json({ success: true, duplicate: true });
+    }
+
+    // Save the delivery first and acknowledge right away; it is processed
+    // (with retries) after the response is sent
+    let inboxId: string;
+    try {
+      inboxId = await enqueueWebhook({
+        webhookId: webhookId || undefined,
+        topic,
+        shopDomain: shop._id,
+        headers: pickShopifyHeaders(request.headers),
+        rawBody: body,
+      });
+    } catch (error) {
+      // Let Shopify's retry of this delivery be stored
+      if (webhookId) {
+        await releaseWebhookDelivery(webhookId);
+      }
+      throw error;
+    }
+
+    after(async () => {
+      await processWebhookInbox();
+    });
+
+    return NextResponse.json({ success: true, id: inboxId });
+  } catch (error) {
+    console.error("Webhook error:", error);
+    return NextResponse.json(
+      { error: "Failed to process webhook" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,489 @@
+import { MongoServerError, ObjectId } from "mongodb";
+import { getDb } from "./mongodb";
+import { getShopId, runWithShop } from "./shop-context";
+import { getShop } from "./shops";
+import {
+  createSyncTally,
+  recordSyncRun,
+  SyncTally,
+  tallyOrder,
+} from "./sync-runs";
+import { getWebhookHandler, WebhookOrderResult } from "./webhook-handlers";
+import { Shop } from "@/types/shop";
+import {
+  WebhookInboxEntry,
+  WebhookInboxStatus,
+  WebhookInboxSummary,
+} from "@/types/webhook";
+
+interface WebhookDelivery {
+  _id: string;
+  topic: string;
+  receivedAt: Date;
+}
+
+// Shopify retries failed deliveries for up to 48 hours, keep ids a bit longer
+const DELIVERY_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DUPLICATE_KEY_ERROR = 11000;
+
+const INBOX_MAX_ATTEMPTS = 8;
+const INBOX_BASE_BACKOFF_MS = 30_000;
+const INBOX_MAX_BACKOFF_MS = 60 * 60_000;
+const INBOX_LOCK_MS = 5 * 60_000;
+const INBOX_BATCH_SIZE = 50;
+const INBOX_POLL_INTERVAL_MS = 30_000;
+// Processed deliveries, raw bodies included, are deleted after this long.
+// Failed ones are kept until they are replayed.
+const INBOX_RETENTION_MS = 30 * 24 * 60 * 60_000;
+const MAX_PAGE_SIZE = 100;
+
+type InboxDocument = Omit<WebhookInboxEntry, "_id"> & { _id?: ObjectId };
+
+let deliveryIndexesReady: Promise<string> | null = null;
+let inboxIndexesReady: Promise<string[]> | null = null;
+
+async function getDeliveriesCollection() {
+  const db = await getDb();
+  const deliveriesCollection =
+    db.collection<WebhookDelivery>("webhook_deliveries");
+
+  if (!deliveryIndexesReady) {
+    deliveryIndexesReady = deliveriesCollection
+      .createIndex(
+        { receivedAt: 1 },
+        { expireAfterSeconds: DELIVERY_TTL_SECONDS }
+      )
+      .catch((error) => {
+        deliveryIndexesReady = null;
+        throw error;
+      });
+  }
+  await deliveryIndexesReady;
+
+  return deliveriesCollection;
+}
+
+/**
+ * Record a webhook delivery by its X-Shopify-Webhook-Id.
+ * Returns false if the delivery was already recorded (a retry or duplicate).
+ */
+export async function claimWebhookDelivery(
+  webhookId: string,
+  topic: string
+): Promise<boolean> {
+  const deliveriesCollection = await getDeliveriesCollection();
+
+  try {
+    await deliveriesCollection.insertOne({
+      _id: webhookId,
+      topic,
+      receivedAt: new Date(),
+    });
+    return true;
+  } catch (error) {
+    if (
+      error instanceof MongoServerError &&
+      error.code === DUPLICATE_KEY_ERROR
+    ) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Forget a delivery so that Shopify's retry is processed again
+ */
+export async function releaseWebhookDelivery(webhookId: string): Promise<void> {
+  const deliveriesCollection = await getDeliveriesCollection();
+  await deliveriesCollection.deleteOne({ _id: webhookId });
+}
+
+async function getInboxCollection() {
+  const db = await getDb();
+  const inboxCollection = db.collection<InboxDocument>("webhook_inbox");
+
+  // The worker claims due and abandoned deliveries by status; the admin
+  // pages list a shop's deliveries newest first
+  if (!inboxIndexesReady) {
+    inboxIndexesReady = Promise.all([
+      inboxCollection.createIndex({ status: 1, nextAttemptAt: 1 }),
+      inboxCollection.createIndex({ status: 1, lockedUntil: 1 }),
+      inboxCollection.createIndex({ shopDomain: 1, receivedAt: -1 }),
+      inboxCollection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+    ]).catch((error) => {
+      inboxIndexesReady = null;
+      throw error;
+    });
+  }
+  await inboxIndexesReady;
+
+  return inboxCollection;
+}
+
+function serializeInboxEntry(entry: InboxDocument): WebhookInboxEntry {
+  return { ...entry, _id: entry._id?.toString() };
+}
+
+/**
+ * Save a verified delivery to the inbox before any processing, so nothing is
+ * lost if handling it fails
+ */
+export async function enqueueWebhook(delivery: {
+  webhookId?: string;
+  topic: string;
+  shopDomain?: string;
+  headers: Record<string, string>;
+  rawBody: string;
+}): Promise<string> {
+  const inboxCollection = await getInboxCollection();
+  const now = new Date().toISOString();
+
+  const result = await inboxCollection.insertOne({
+    ...delivery,
+    receivedAt: now,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+  });
+
+  return result.insertedId.toString();
+}
+
+/**
+ * Look up the shop a delivery was sent for
+ */
+async function getInboxEntryShop(entry: InboxDocument): Promise<Shop> {
+  const shop = entry.shopDomain ? await getShop(entry.shopDomain) : null;
+  if (!shop) {
+    throw new Error(`Unknown shop ${entry.shopDomain || "(none)"}`);
+  }
+  return shop;
+}
+
+/**
+ * Run the registered handler for a delivery's topic, in its shop's context
+ */
+async function handleInboxEntry(
+  shop: Shop,
+  entry: InboxDocument
+): Promise<WebhookOrderResult | void> {
+  const handler = getWebhookHandler(entry.topic);
+  if (!handler) {
+    throw new Error(`No handler for webhook topic ${entry.topic}`);
+  }
+
+  return runWithShop(shop, () =>
+    handler(JSON.parse(entry.rawBody), {
+      topic: entry.topic,
+      shopDomain: shop._id,
+      webhookId: entry.webhookId,
+    })
+  );
+}
+
+// Exponential backoff with jitter: ~30s, 1m, 2m, ... capped at 1h
+function getBackoffMs(attempts: number): number {
+  const backoff = Math.min(
+    INBOX_BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0),
+    INBOX_MAX_BACKOFF_MS
+  );
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Claim the next due delivery. Deliveries stuck in "processing" past their
+ * lock (e.g. the process died) are picked up again.
+ */
+async function claimNextInboxEntry(): Promise<InboxDocument | null> {
+  const inboxCollection = await getInboxCollection();
+  const now = new Date();
+
+  return inboxCollection.findOneAndUpdate(
+    {
+      $or: [
+        { status: "pending", nextAttemptAt: { $lte: now.toISOString() } },
+        { status: "processing", lockedUntil: { $lt: now.toISOString() } },
+      ],
+    },
+    {
+      $set: {
+        status: "processing",
+        lockedUntil: new Date(now.getTime() + INBOX_LOCK_MS).toISOString(),
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { receivedAt: 1 }, returnDocument: "after" }
+  );
+}
+
+let isProcessingInbox = false;
+
+// The order a delivery refers to, so failed order webhooks show up in the
+// sync history. Other topics (app, privacy) have none.
+function getDeliveryOrderId(entry: InboxDocument): string | undefined {
+  try {
+    const payload = JSON.parse(entry.rawBody);
+    const orderId = entry.topic.startsWith("orders/")
+      ? payload.id
+      : payload.order_id;
+    return orderId?.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Process due inbox deliveries, retrying failures with backoff until
+ * INBOX_MAX_ATTEMPTS is reached. Each batch that touched a shop's orders is
+ * recorded as a webhook sync run for that shop.
+ */
+export async function processWebhookInbox(
+  limit = INBOX_BATCH_SIZE
+): Promise<{ processed: number; failed: number }> {
+  // Avoid overlapping runs within the same process
+  if (isProcessingInbox) {
+    return { processed: 0, failed: 0 };
+  }
+  isProcessingInbox = true;
+
+  const startedAt = new Date().toISOString();
+  const tallies = new Map<string, { shop: Shop; tally: SyncTally }>();
+  const getShopTally = (shop: Shop) => {
+    if (!tallies.has(shop._id)) {
+      tallies.set(shop._id, { shop, tally: createSyncTally() });
+    }
+    return tallies.get(shop._id)!.tally;
+  };
+  let processed = 0;
+  let failed = 0;
+
+  try {
+    // Inside the try, so a failed connection doesn't leave the flag set
+    const inboxCollection = await getInboxCollection();
+
+    for (let i = 0; i < limit; i++) {
+      const entry = await claimNextInboxEntry();
+      if (!entry) break;
+
+      let shop: Shop | null = null;
+      try {
+        shop = await getInboxEntryShop(entry);
+        const result = await handleInboxEntry(shop, entry);
+        if (result) {
+          tallyOrder(
+            getShopTally(shop),
+            result.orderId,
+            result.outcome === "inserted"
+              ? "new"
+              : result.outcome === "stale"
+                ? "unchanged"
+                : "updated"
+          );
+        }
+        await inboxCollection.updateOne(
+          { _id: entry._id },
+          {
+            $set: {
+              status: "processed",
+              processedAt: new Date().toISOString(),
+              expiresAt: new Date(Date.now() + INBOX_RETENTION_MS),
+            },
+            $unset: { lockedUntil: "", lastError: "" },
+          }
+        );
+        processed++;
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        console.error(
+          `Error processing webhook ${entry._id} (${entry.topic}):`,
+          error
+        );
+        const isExhausted = entry.attempts >= INBOX_MAX_ATTEMPTS;
+        await inboxCollection.updateOne(
+          { _id: entry._id },
+          {
+            $set: {
+              status: isExhausted ? "failed" : "pending",
+              lastError: errorMessage,
+              nextAttemptAt: new Date(
+                Date.now() + getBackoffMs(entry.attempts)
+              ).toISOString(),
+            },
+            $unset: { lockedUntil: "" },
+          }
+        );
+        failed++;
+        const orderId = getDeliveryOrderId(entry);
+        if (shop && orderId) {
+          tallyOrder(
+            getShopTally(shop),
+            orderId,
+            "failed",
+            `${entry.topic}: ${errorMessage}`
+          );
+        }
+      }
+    }
+
+    for (const { shop, tally } of tallies.values()) {
+      await runWithShop(shop, () =>
+        recordSyncRun(
+          { method: "webhook", trigger: "webhook", startedAt },
+          tally
+        )
+      );
+    }
+  } finally {
+    isProcessingInbox = false;
+  }
+
+  return { processed, failed };
+}
+
+let inboxWorkerTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Periodically process the inbox so that scheduled retries run even when no
+ * new deliveries arrive
+ */
+export function startWebhookInboxWorker(): void {
+  if (inboxWorkerTimer) return;
+  inboxWorkerTimer = setInterval(() => {
+    processWebhookInbox().catch((error) => {
+      console.error("Error running webhook inbox worker:", error);
+    });
+  }, INBOX_POLL_INTERVAL_MS);
+}
+
+/**
+ * List the current shop's inbox deliveries (without raw bodies), newest
+ * first
+ */
+export async function listWebhookInbox(
+  status?: WebhookInboxStatus,
+  page: number = 1,
+  pageSize: number = 20
+) {
+  const inboxCollection = await getInboxCollection();
+  const limit = Math.min(pageSize, MAX_PAGE_SIZE);
+  const filter = status
+    ? { shopDomain: getShopId(), status }
+    : { shopDomain: getShopId() };
+
+  const total = await inboxCollection.countDocuments(filter);
+  const entries = await inboxCollection
+    .find(filter, { projection: { rawBody: 0 } })
+    .sort({ receivedAt: -1 })
+    .skip((page - 1) * limit)
+    .limit(limit)
+    .toArray();
+
+  return {
+    entries: entries.map(
+      (entry) => serializeInboxEntry(entry) as WebhookInboxSummary
+    ),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * Get one of the current shop's inbox deliveries including its raw body
+ */
+export async function getWebhookInboxEntry(
+  id: string
+): Promise<WebhookInboxEntry | null> {
+  if (!ObjectId.isValid(id)) return null;
+  const inboxCollection = await getInboxCollection();
+  const entry = await inboxCollection.findOne({
+    _id: new ObjectId(id),
+    shopDomain: getShopId(),
+  });
+  return entry ? serializeInboxEntry(entry) : null;
+}
+
+/**
+ * Queue the current shop's deliveries to be processed again from scratch,
+ * either by id or all failed deliveries. Deliveries being processed are left
+ * alone. Returns how many were queued.
+ */
+export async function replayWebhookInboxEntries(
+  selection: { ids: string[] } | { status: "failed" }
+): Promise<number> {
+  const inboxCollection = await getInboxCollection();
+  const filter =
+    "ids" in selection
+      ? {
+          _id: {
+            $in: selection.ids
+              .filter((id) => ObjectId.isValid(id))
+              .map((id) => new ObjectId(id)),
+          },
+          shopDomain: getShopId(),
+          status: { $ne: "processing" as const },
+        }
+      : { shopDomain: getShopId(), status: selection.status };
+
+  const result = await inboxCollection.updateMany(filter, {
+    $set: {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date().toISOString(),
+    },
+    $unset: { lockedUntil: "", processedAt: "", expiresAt: "" },
+  });
+
+  return result.modifiedCount;
+}
+
+/**
+ * Keep the Shopify delivery headers worth storing alongside the raw body
+ */
+export function pickShopifyHeaders(headers: Headers): Record<string, string> {
+  const picked: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    if (key.startsWith("x-shopify-") || key === "content-type") {
+      picked[key] = value;
+    }
+  });
+  return picked;
+}
+
+/**
+ * Give deliveries processed before the retention period existed their expiry,
+ * counted from when they were processed
+ */
+export async function migrateWebhookInboxRetention(): Promise<{
+  migrated: number;
+}> {
+  const inboxCollection = await getInboxCollection();
+  const result = await inboxCollection.updateMany(
+    { status: "processed", expiresAt: { $exists: false } },
+    [
+      {
+        $set: {
+          expiresAt: {
+            $add: [
+              {
+                $convert: {
+                  input: "$processedAt",
+                  to: "date",
+                  onError: "$$NOW",
+                  onNull: "$$NOW",
+                },
+              },
+              INBOX_RETENTION_MS,
+            ],
+          },
+        },
+      },
+    ]
+  );
+  return { migrated: result.modifiedCount };
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/access";
+
+// Reachable without signing in. Webhooks are verified by their HMAC.
+const PUBLIC_PATHS = ["/login", "/api/auth/login", "/api/auth/logout"];
+const PUBLIC_PREFIXES = ["/api/webhooks/"];
+
+/**
+ * Turn away requests without a session before they reach a page or route.
+ * This only checks that a session cookie or an API key is present; API
+ * routes validate them and the caller's role or scope themselves (see
+ * withRole and withRoleOrApiKey).
+ */
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (
+    PUBLIC_PATHS.includes(pathname) ||
+    PUBLIC_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+  ) {
+    return NextResponse.next();
+  }
+
+  // API keys are checked by the routes that accept them
+  if (
+    request.cookies.has(SESSION_COOKIE) ||
+    (pathname.startsWith("/api/") && request.headers.has("authorization"))
+  ) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
@@ -0,0 +1,23 @@
+// What a key may do: read orders (including their history), read metrics,
+// or start syncs and order re-syncs
+export type ApiKeyScope = "orders:read" | "metrics:read" | "sync:write";
+
+export interface ApiKey {
+  _id?: string;
+  name: string;
+  // Start of the key, shown so keys can be told apart
+  prefix: string;
+  // SHA-256 of the key, see api-keys.ts
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  // Requests allowed per minute
+  rateLimit: number;
+  // The store the key works on, the one selected when it was created
+  shopId?: string;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export type ApiKeySummary = Omit<ApiKey, "keyHash">;
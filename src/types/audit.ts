@@ -0,0 +1,39 @@
+export type AuditAction =
+  | "order.deleted"
+  | "order.purged"
+  | "customer.redacted"
+  | "customer.data_requested"
+  | "shop.redacted";
+
+export interface AuditLogEntry {
+  _id?: string;
+  action: AuditAction;
+  topic?: string;
+  shopDomain?: string;
+  webhookId?: string;
+  subject: {
+    customerId?: string;
+    orderIds?: string[];
+  };
+  details?: Record<string, unknown>;
+  at: string;
+}
+
+export interface DataRequestSummary {
+  _id?: string;
+  shopDomain?: string;
+  customerId?: string;
+  shopifyDataRequestId?: string;
+  orderCount: number;
+  requestedAt: string;
+}
+
+export interface DataRequestBundle {
+  customer: {
+    id?: string;
+    email?: string;
+    phone?: string;
+  };
+  orders: unknown[];
+  generatedAt: string;
+}
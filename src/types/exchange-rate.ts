@@ -0,0 +1,9 @@
+export interface ExchangeRate {
+  // ISO 4217 currency code, e.g. "EUR"
+  _id: string;
+  // Units of the currency per 1 USD, as a decimal string
+  rate: string;
+  updatedAt: string;
+  // Email of the admin who last changed it; unset for seeded rates
+  updatedBy?: string;
+}
@@ -0,0 +1,25 @@
+export type JobType = "orders.sync" | "orders.bulk" | "metrics.rebuild";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface Job {
+  _id?: string;
+  type: JobType;
+  payload: Record<string, unknown>;
+  // The shop the job runs for; the worker runs it in that shop's context
+  shopId?: string;
+  status: JobStatus;
+  // Only one queued or running job may hold a given key
+  dedupeKey?: string;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lockedBy?: string;
+  leaseExpiresAt?: string;
+  heartbeatAt?: string;
+  result?: Record<string, unknown>;
+  lastError?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
@@ -0,0 +1,24 @@
+import { SyncRunMethod } from "./sync-run";
+
+export type OrderEventSource = SyncRunMethod;
+
+export interface OrderFieldChange {
+  // Dotted path, e.g. "fulfillment_status" or "shipping_address.city"
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface OrderEvent {
+  _id?: string;
+  shopId: string;
+  orderId: string;
+  source: OrderEventSource;
+  runId?: string;
+  topic?: string;
+  webhookId?: string;
+  changes: OrderFieldChange[];
+  // Shopify's updated_at for the new version of the order
+  orderUpdatedAt: string;
+  at: string;
+}
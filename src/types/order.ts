@@ -17,6 +17,17 @@ export interface OrderShippingAddress {
   zip?: string;
 }
 
+export interface OrderMoney {
+  amount: string;
+  currency_code: string;
+}
+
+// An amount in the shop's currency and in the currency the customer paid in
+export interface OrderMoneySet {
+  shop_money?: OrderMoney;
+  presentment_money?: OrderMoney;
+}
+
 export interface Order {
   _id?: string;
   id: string;
@@ -24,35 +35,111 @@ export interface Order {
   email?: string;
   created_at: string;
   updated_at: string;
+  cancelled_at?: string;
+  closed_at?: string;
   total_price: string;
   subtotal_price: string;
   total_tax: string;
-  total_shipping_price_set?: {
-    shop_money?: {
-      amount: string;
-      currency_code: string;
-    };
-  };
+  total_discounts?: string;
+  total_refunded?: string;
+  total_price_set?: OrderMoneySet;
+  total_shipping_price_set?: OrderMoneySet;
   shipping_address?: OrderShippingAddress;
   line_items: OrderLineItem[];
   financial_status?: string;
   fulfillment_status?: string;
+  // The shop's currency, which the plain amounts are in
   currency?: string;
+  // The currency the customer saw and paid in
+  presentment_currency?: string;
   customer?: {
     id: string;
     email?: string;
     first_name?: string;
     last_name?: string;
   };
+  // myshopify domain of the shop the order belongs to
+  shopId?: string;
   syncStatus?: "success" | "failed" | "pending";
   syncError?: string;
   syncedAt?: string;
+  // Last time the staleness refresh tried to fetch the order
+  refreshCheckedAt?: string;
+  deletedAt?: string;
+  redactedAt?: string;
+  // Lowercased emails, customer names and SKUs the order search matches by
+  // prefix. Not returned by the API.
+  searchTerms?: string[];
 }
 
 export interface OrderMetrics {
+  // First day of the period (day, week or month)
   date: string;
   orderCount: number;
   revenue: number;
   shippingCost: number;
 }
 
+export interface MetricsSummary {
+  totalOrders: number;
+  totalRevenue: number;
+  totalShipping: number;
+  averageOrderValue: number;
+}
+
+export type MetricsRangePreset = "today" | "7d" | "30d" | "mtd" | "qtd" | "ytd";
+export type MetricsGranularity = "day" | "week" | "month";
+// The previous period of the same length, or the same dates a year earlier
+export type MetricsComparison = "previous" | "year";
+
+export interface MetricsParams {
+  // A preset, or "custom" for the from and to days
+  range?: MetricsRangePreset | "custom";
+  from?: string;
+  to?: string;
+  granularity?: MetricsGranularity;
+  compare?: MetricsComparison;
+  currency?: string;
+}
+
+export type OrderSortKey =
+  "created_at" | "updated_at" | "order_number" | "total_price";
+
+export type SortDirection = "asc" | "desc";
+
+export interface OrderListParams {
+  q?: string;
+  financialStatus?: string[];
+  fulfillmentStatus?: string[];
+  syncStatus?: string[];
+  currency?: string[];
+  country?: string[];
+  createdFrom?: string;
+  createdTo?: string;
+  sort?: OrderSortKey;
+  direction?: SortDirection;
+  page?: number;
+  limit?: number;
+  pagination?: PaginationMode;
+  after?: string;
+  before?: string;
+}
+
+export type PaginationMode = "page" | "cursor";
+
+export interface PagePagination {
+  mode: "page";
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface CursorPagination {
+  mode: "cursor";
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  estimatedTotal: number;
+  estimatedTotalCapped: boolean;
+}
@@ -0,0 +1,10 @@
+export interface SyncSchedule {
+  intervalMinutes: number;
+  paused: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastJobId?: string;
+  // "skipped" when a sync was still queued or running at the scheduled time
+  lastOutcome?: "queued" | "skipped";
+  updatedAt?: string;
+}
@@ -0,0 +1,23 @@
+export interface Shop {
+  // The shop's myshopify domain, e.g. "example.myshopify.com"
+  _id: string;
+  name: string;
+  // Secrets are encrypted at rest, see token-encryption.ts. Both are
+  // removed when the app is uninstalled.
+  accessToken?: string;
+  // Falls back to the app's API secret (or SHOPIFY_WEBHOOK_SECRET) when unset
+  webhookSecret?: string;
+  // Access scopes granted when the app was installed
+  scopes?: string;
+  // IANA timezone from the shop's Shopify settings, used for daily metrics
+  timezone?: string;
+  // ISO 4217 code of the shop's currency, the default reporting currency
+  currency?: string;
+  // Set by the app/uninstalled webhook and cleared by a reinstall. Syncs
+  // skip uninstalled shops; their stored data stays readable.
+  uninstalledAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ShopSummary = Omit<Shop, "accessToken" | "webhookSecret">;
@@ -0,0 +1,32 @@
+export type SyncRunMethod = "incremental" | "bulk" | "webhook" | "resync";
+
+export type SyncRunTrigger = "manual" | "schedule" | "webhook";
+
+export type SyncRunStatus = "running" | "completed" | "failed";
+
+export interface SyncRunCounts {
+  new: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+}
+
+export interface SyncRun {
+  _id?: string;
+  shopId: string;
+  method: SyncRunMethod;
+  trigger: SyncRunTrigger;
+  status: SyncRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  counts: SyncRunCounts;
+  // New and updated orders; capped for very large runs
+  changedOrderIds: string[];
+  changedOrderIdsTruncated?: boolean;
+  failedOrderIds: string[];
+  errors: string[];
+  jobId?: string;
+  operationId?: string;
+}
+
+export type SyncRunSummary = Omit<SyncRun, "changedOrderIds" | "failedOrderIds">;
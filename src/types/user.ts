@@ -0,0 +1,17 @@
+// Viewers can read everything, operators can also trigger syncs and
+// resyncs, and admins can also manage settings, stores and users
+export type UserRole = "viewer" | "operator" | "admin";
+
+export interface User {
+  _id?: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+  // scrypt hash, see users.ts
+  passwordHash: string;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+}
+
+export type UserSummary = Omit<User, "passwordHash">;
@@ -0,0 +1,22 @@
+export type WebhookInboxStatus =
+  "pending" | "processing" | "processed" | "failed";
+
+export interface WebhookInboxEntry {
+  _id?: string;
+  webhookId?: string;
+  topic: string;
+  shopDomain?: string;
+  headers: Record<string, string>;
+  rawBody: string;
+  receivedAt: string;
+  status: WebhookInboxStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt: string;
+  lockedUntil?: string;
+  processedAt?: string;
+  // Processed deliveries are deleted at this time
+  expiresAt?: Date;
+}
+
+export type WebhookInboxSummary = Omit<WebhookInboxEntry, "rawBody">;